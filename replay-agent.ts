@@ -0,0 +1,66 @@
+/**
+ * Replay a recorded order offline and compare it with the recording
+ * Record with AGENT_CASSETTE_MODE=record, then run with:
+ *   npm run replay:agent -- projects/.cassettes/<orderId>.json
+ * Exits with 1 if the replay ends differently from the recorded run.
+ */
+
+import 'dotenv/config';
+
+async function replayAgent() {
+  const cassettePath = process.argv[2];
+  if (!cassettePath) {
+    console.error('Usage: npm run replay:agent -- <cassette.json>');
+    process.exit(1);
+  }
+
+  // Nothing in a replay may reach the real store or live services
+  process.env.PROJECT_STORE = 'memory';
+  process.env.AGENT_CASSETTE_MODE = '';
+  process.env.AGENT_MODEL = 'stub';
+  process.env.STRIPE_TEST_KEY = process.env.STRIPE_TEST_KEY || 'sk_test_replay';
+
+  const { orchestrator } = await import('./server/agent/orchestrator');
+
+  console.log(`📼 Replaying ${cassettePath}\n`);
+  const { projectState, recordedState, unusedInteractions } = await orchestrator.replayOrder(cassettePath);
+
+  const differences: string[] = [];
+
+  if (recordedState) {
+    if (recordedState.status !== projectState.status) {
+      differences.push(`status: recorded ${recordedState.status}, replayed ${projectState.status}`);
+    }
+
+    const replayedSteps = new Map(projectState.plan.map(step => [step.id, step]));
+    for (const step of recordedState.plan) {
+      const replayed = replayedSteps.get(step.id);
+      if (!replayed) {
+        differences.push(`step ${step.id}: missing from replay`);
+      } else if (replayed.status !== step.status) {
+        differences.push(`step ${step.id}: recorded ${step.status}, replayed ${replayed.status}`);
+      }
+    }
+  }
+
+  if (unusedInteractions > 0) {
+    differences.push(`${unusedInteractions} recorded interactions were not used`);
+  }
+
+  console.log(`\nFinal status: ${projectState.status}`);
+  console.log(`Workspace: ${projectState.workspaceDir}`);
+
+  if (differences.length > 0) {
+    console.error('\n❌ Replay differs from the recording:');
+    differences.forEach(difference => console.error(`  - ${difference}`));
+    process.exit(1);
+  }
+
+  console.log('\n✅ Replay matches the recording');
+  process.exit(0);
+}
+
+replayAgent().catch(error => {
+  console.error('❌ Replay failed:', error);
+  process.exit(1);
+});
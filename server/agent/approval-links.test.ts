@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ProjectState } from './types';
+
+process.env.APPROVAL_LINK_SECRET = 'unit-test-secret';
+process.env.APPROVAL_LINK_TTL_HOURS = '72';
+process.env.APPROVAL_AUDIT_LOG = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'approval-links-test-')), 'audit.jsonl');
+
+const { ApprovalLinks } = await import('./approval-links');
+
+function project(): ProjectState {
+  return { orderId: 'order-1', project_name: 'Test project', status: 'awaiting_approval', revision: 2 } as unknown as ProjectState;
+}
+
+function tokenOf(url: string): string {
+  return url.split('/api/approval/')[1];
+}
+
+test('a signed link verifies for its project and revision', () => {
+  const links = new ApprovalLinks();
+  const projectState = project();
+  const { approveUrl, rejectUrl } = links.issue(projectState);
+
+  const check = links.verify(tokenOf(approveUrl), () => projectState);
+  assert.equal(check.valid, true);
+  assert.deepEqual(check.valid && [check.claims.orderId, check.claims.revision, check.claims.action], ['order-1', 2, 'approve']);
+
+  const reject = links.verify(tokenOf(rejectUrl), () => projectState);
+  assert.equal(reject.valid && reject.claims.action, 'reject');
+});
+
+test('refuses tampered tokens and tokens signed with another secret', () => {
+  const links = new ApprovalLinks();
+  const projectState = project();
+  const [payload, signature] = tokenOf(links.issue(projectState).approveUrl).split('.');
+
+  const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), a: 'reject' })).toString('base64url');
+  const refusal = (token: string) => {
+    const check = links.verify(token, () => projectState);
+    return check.valid ? 'valid' : check.refusal;
+  };
+
+  assert.equal(refusal(`${forged}.${signature}`), 'bad_signature');
+  assert.equal(refusal(`${payload}.${signature.slice(1)}x`), 'bad_signature');
+  assert.equal(refusal(payload), 'malformed');
+
+  process.env.APPROVAL_LINK_SECRET = 'another-secret';
+  try {
+    assert.equal(refusal(tokenOf(new ApprovalLinks().issue(projectState).approveUrl)), 'bad_signature');
+  } finally {
+    process.env.APPROVAL_LINK_SECRET = 'unit-test-secret';
+  }
+});
+
+test('refuses links past their expiry', () => {
+  const links = new ApprovalLinks();
+  const projectState = project();
+  const token = tokenOf(links.issue(projectState).approveUrl);
+
+  const now = Date.now;
+  Date.now = () => now() + 73 * 60 * 60 * 1000;
+  try {
+    const check = links.verify(token, () => projectState);
+    assert.equal(!check.valid && check.refusal, 'expired');
+  } finally {
+    Date.now = now;
+  }
+});
+
+test('spending one link of an email spends both', () => {
+  const links = new ApprovalLinks();
+  const projectState = project();
+  const { approveUrl, rejectUrl } = links.issue(projectState);
+
+  const check = links.verify(tokenOf(approveUrl), () => projectState);
+  assert.ok(check.valid);
+  links.spend(projectState, check.claims);
+
+  for (const url of [approveUrl, rejectUrl]) {
+    const again = links.verify(tokenOf(url), () => projectState);
+    assert.equal(!again.valid && again.refusal, 'already_used');
+  }
+});
+
+test('refuses links of an older revision or for a project no longer awaiting approval', () => {
+  const links = new ApprovalLinks();
+  const projectState = project();
+  const token = tokenOf(links.issue(projectState).approveUrl);
+  const refusal = () => {
+    const check = links.verify(token, () => projectState);
+    return check.valid ? 'valid' : check.refusal;
+  };
+
+  projectState.status = 'deploying';
+  assert.equal(refusal(), 'not_awaiting_approval');
+
+  projectState.status = 'awaiting_approval';
+  projectState.revision = 3;
+  assert.equal(refusal(), 'stale_revision');
+});
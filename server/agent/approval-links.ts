@@ -0,0 +1,188 @@
+/**
+ * APPROVAL LINKS
+ * One-click approve/reject URLs for the approval email. A token is an
+ * HMAC-SHA256 signed claim (order, revision, action, expiry, nonce); both
+ * links of one email share the nonce, so using either spends both.
+ * Every use and every refusal is appended to the audit log (JSON lines).
+ *
+ * APPROVAL_LINK_SECRET signs the tokens, APPROVAL_LINK_TTL_HOURS sets how
+ * long they stay valid and APPROVAL_AUDIT_LOG where the audit log is written.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { ProjectState } from './types';
+
+export type ApprovalAction = 'approve' | 'reject';
+
+export interface ApprovalClaims {
+  orderId: string;
+  revision: number;
+  action: ApprovalAction;
+  nonce: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+export type ApprovalRefusal = 'malformed' | 'bad_signature' | 'expired' | 'unknown_order' | 'unknown_link' | 'already_used' | 'stale_revision' | 'not_awaiting_approval' | 'missing_reason';
+
+export type ApprovalCheck =
+  | { valid: true; claims: ApprovalClaims; projectState: ProjectState }
+  | { valid: false; refusal: ApprovalRefusal; message: string; claims?: ApprovalClaims };
+
+export interface ApprovalAuditEntry {
+  timestamp: string;
+  event: 'issued' | 'viewed' | 'approved' | 'rejected' | 'refused';
+  orderId?: string;
+  revision?: number;
+  action?: ApprovalAction;
+  nonce?: string;
+  refusal?: ApprovalRefusal;
+  reason?: string; // Rejection reason
+  ip?: string;
+  userAgent?: string;
+}
+
+const REFUSAL_MESSAGES: Record<ApprovalRefusal, string> = {
+  malformed: 'This link is not valid.',
+  bad_signature: 'This link is not valid.',
+  expired: 'This link has expired. Use the API or wait for the next approval email.',
+  unknown_order: 'The project for this link no longer exists.',
+  unknown_link: 'This link was not issued for this project.',
+  already_used: 'This link has already been used.',
+  stale_revision: 'A newer revision of this project has been built; use the links in its approval email.',
+  not_awaiting_approval: 'This project is no longer awaiting approval.',
+  missing_reason: 'Please say what should change so the next revision can address it.'
+};
+
+export class ApprovalLinks {
+  private secret: string;
+  private ttlMs: number;
+  private auditPath: string;
+
+  constructor() {
+    if (process.env.APPROVAL_LINK_SECRET) {
+      this.secret = process.env.APPROVAL_LINK_SECRET;
+    } else {
+      // Links still work, but only until the process restarts
+      console.warn('[ApprovalLinks] APPROVAL_LINK_SECRET not set - approval links will stop working after a restart');
+      this.secret = crypto.randomBytes(32).toString('hex');
+    }
+    this.ttlMs = (parseFloat(process.env.APPROVAL_LINK_TTL_HOURS || '72') || 72) * 60 * 60 * 1000;
+    this.auditPath = process.env.APPROVAL_AUDIT_LOG || path.join(process.cwd(), 'projects', '.audit', 'approval-links.jsonl');
+  }
+
+  /**
+   * Sign approve and reject links for the project's current revision and record them on the project
+   */
+  issue(projectState: ProjectState): { approveUrl: string; rejectUrl: string; expiresAt: Date } {
+    const revision = projectState.revision || 1;
+    const nonce = crypto.randomBytes(16).toString('base64url');
+    const expiresAt = Date.now() + this.ttlMs;
+    const baseUrl = (process.env.BASE_URL || 'http://localhost:5000').replace(/\/$/, '');
+
+    const url = (action: ApprovalAction) =>
+      `${baseUrl}/api/approval/${this.sign({ orderId: projectState.orderId, revision, action, nonce, expiresAt })}`;
+
+    projectState.approvalLinks = [
+      ...(projectState.approvalLinks || []),
+      { nonce, revision, issuedAt: new Date().toISOString(), expiresAt: new Date(expiresAt).toISOString() }
+    ];
+
+    this.audit({ event: 'issued', orderId: projectState.orderId, revision, nonce });
+
+    return { approveUrl: url('approve'), rejectUrl: url('reject'), expiresAt: new Date(expiresAt) };
+  }
+
+  /**
+   * Check a token against the project it names. Does not spend it.
+   */
+  verify(token: string, findProject: (orderId: string) => ProjectState | null): ApprovalCheck {
+    const claims = this.parse(token);
+    if (claims === 'malformed' || claims === 'bad_signature') {
+      return refuse(claims);
+    }
+
+    if (Date.now() > claims.expiresAt) return refuse('expired', claims);
+
+    const projectState = findProject(claims.orderId);
+    if (!projectState) return refuse('unknown_order', claims);
+
+    const link = projectState.approvalLinks?.find(l => l.nonce === claims.nonce);
+    if (!link) return refuse('unknown_link', claims);
+    if (link.usedAt) return refuse('already_used', claims);
+    if (claims.revision !== (projectState.revision || 1)) return refuse('stale_revision', claims);
+    if (projectState.status !== 'awaiting_approval') return refuse('not_awaiting_approval', claims);
+
+    return { valid: true, claims, projectState };
+  }
+
+  /**
+   * Mark a verified link as used, so neither of its email's links works again
+   */
+  spend(projectState: ProjectState, claims: ApprovalClaims): void {
+    const link = projectState.approvalLinks?.find(l => l.nonce === claims.nonce);
+    if (link) {
+      link.usedAt = new Date().toISOString();
+      link.usedFor = claims.action;
+    }
+  }
+
+  /**
+   * Append an entry to the audit log. Logging failures never block a decision.
+   */
+  audit(entry: Omit<ApprovalAuditEntry, 'timestamp'>): void {
+    const line = JSON.stringify({ timestamp: new Date().toISOString(), ...entry });
+    if (entry.event === 'refused') {
+      console.warn(`[ApprovalLinks] 🚫 Refused ${entry.action || 'approval'} link for ${entry.orderId || 'unknown order'}: ${entry.refusal}`);
+    }
+
+    fs.mkdir(path.dirname(this.auditPath), { recursive: true })
+      .then(() => fs.appendFile(this.auditPath, line + '\n', 'utf-8'))
+      .catch(error => console.error('[ApprovalLinks] Failed to write audit log:', error));
+  }
+
+  private sign(claims: ApprovalClaims): string {
+    const payload = Buffer.from(JSON.stringify({
+      o: claims.orderId,
+      r: claims.revision,
+      a: claims.action,
+      n: claims.nonce,
+      e: claims.expiresAt
+    })).toString('base64url');
+    return `${payload}.${this.mac(payload)}`;
+  }
+
+  private parse(token: string): ApprovalClaims | 'malformed' | 'bad_signature' {
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) return 'malformed';
+
+    const expected = Buffer.from(this.mac(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return 'bad_signature';
+    }
+
+    try {
+      const raw = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+      if (typeof raw.o !== 'string' || !Number.isInteger(raw.r) || (raw.a !== 'approve' && raw.a !== 'reject') ||
+          typeof raw.n !== 'string' || typeof raw.e !== 'number') {
+        return 'malformed';
+      }
+      return { orderId: raw.o, revision: raw.r, action: raw.a, nonce: raw.n, expiresAt: raw.e };
+    } catch {
+      return 'malformed';
+    }
+  }
+
+  private mac(payload: string): string {
+    return crypto.createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
+
+export function refuse(refusal: ApprovalRefusal, claims?: ApprovalClaims): ApprovalCheck {
+  return { valid: false, refusal, message: REFUSAL_MESSAGES[refusal], claims };
+}
+
+// Singleton - one secret per process
+export const approvalLinks = new ApprovalLinks();
@@ -0,0 +1,93 @@
+/**
+ * APPROVAL PAGES
+ * Minimal HTML pages behind the approval email links: a confirmation form
+ * (approving or rejecting only happens on submit), the outcome, and refusals.
+ */
+
+import { ApprovalCheck } from './approval-links';
+
+type ValidCheck = Extract<ApprovalCheck, { valid: true }>;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Confirmation form for a valid link. error is shown above the form (e.g. a missing reason).
+ */
+export function renderConfirmationPage(check: ValidCheck, token: string, error?: string): string {
+  const { claims, projectState } = check;
+  const approve = claims.action === 'approve';
+  const name = escapeHtml(projectState.project_name);
+
+  return page(approve ? `Approve ${name}` : `Reject ${name}`, `
+    <h1>${approve ? '🚀 Approve deployment' : '↩️ Request changes'}</h1>
+    <p><strong>${name}</strong> (order ${escapeHtml(claims.orderId)}, revision ${claims.revision})</p>
+    ${projectState.webPreviewUrl ? `<p>Preview: <a href="${escapeHtml(projectState.webPreviewUrl)}">${escapeHtml(projectState.webPreviewUrl)}</a></p>` : ''}
+    ${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+    <form method="post" action="/api/approval/${encodeURIComponent(token)}">
+      ${approve
+        ? `<p>This deploys every platform to production and switches payments to live mode.</p>
+      <button type="submit">Approve and deploy</button>`
+        : `<label for="reason">What should change?</label>
+      <textarea id="reason" name="reason" rows="6" required></textarea>
+      <button type="submit" class="reject">Reject and rebuild</button>`}
+    </form>
+    <p class="note">This link works once and expires ${new Date(claims.expiresAt).toUTCString()}.</p>
+  `);
+}
+
+/**
+ * Outcome of a redeemed link
+ */
+export function renderResultPage(check: ValidCheck): string {
+  const name = escapeHtml(check.projectState.project_name);
+
+  return check.claims.action === 'approve'
+    ? page(`Approved ${name}`, `
+    <h1>✅ Approved</h1>
+    <p>Deployment of <strong>${name}</strong> has started. You will get an email when it is live.</p>
+  `)
+    : page(`Rejected ${name}`, `
+    <h1>↩️ Changes requested</h1>
+    <p><strong>${name}</strong> is being rebuilt with your feedback. A new approval email follows with the next revision.</p>
+  `);
+}
+
+export function renderRefusalPage(check: Extract<ApprovalCheck, { valid: false }>): string {
+  return page('Link not usable', `
+    <h1>🚫 This link cannot be used</h1>
+    <p>${escapeHtml(check.message)}</p>
+  `);
+}
+
+/**
+ * Page shell shared with the customer preference pages. title must already be escaped.
+ */
+export function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>${title} - Black Star Sweatshop</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 560px; margin: 48px auto; padding: 0 16px; color: #1f2937; }
+    textarea { width: 100%; box-sizing: border-box; margin: 8px 0 16px; font: inherit; }
+    button { background: #2563eb; color: #fff; border: 0; border-radius: 6px; padding: 10px 18px; font: inherit; cursor: pointer; }
+    button.reject { background: #b91c1c; }
+    .error { color: #b91c1c; }
+    .note { color: #6b7280; font-size: 0.9em; margin-top: 24px; }
+  </style>
+</head>
+<body>
+  ${body}
+</body>
+</html>`;
+}
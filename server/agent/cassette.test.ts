@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Cassette, CassetteData, intercept } from './cassette';
+import { RunController, runWithContext } from './run-control';
+import { WorkspacePathError } from './workspace';
+
+const FIXTURE = path.join(import.meta.dirname, 'fixtures', 'visual-proof.cassette.json');
+
+function replay<T>(cassette: Cassette, fn: () => Promise<T>): Promise<T> {
+  return runWithContext({ orderId: cassette.orderId, controller: new RunController(), cassette }, fn);
+}
+
+test('replays a recorded visual proof into another workspace', async () => {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-test-'));
+  const cassette = await Cassette.load(FIXTURE, workspaceDir);
+
+  const result = await replay(cassette, () =>
+    intercept('browser', 'visual proof', { workspaceDir }, () => {
+      throw new Error('replay must not run the live operation');
+    })
+  );
+
+  const screenshotPath = path.join(workspaceDir, '.agent', 'visual', 'desktop.png');
+  assert.deepEqual(result, { passed: true, details: { screenshotPath } });
+  assert.equal(await fs.readFile(screenshotPath, 'utf-8'), 'PNG-bytes');
+  assert.equal(cassette.initialState().workspaceDir, workspaceDir);
+  assert.equal(cassette.unused().length, 0);
+});
+
+test('refuses artifacts that would be restored outside the workspace', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-test-'));
+  const workspaceDir = path.join(dir, 'workspace');
+  await fs.mkdir(workspaceDir);
+
+  for (const artifactPath of ['../escaped.txt', path.join(dir, 'absolute.txt')]) {
+    const data: CassetteData = JSON.parse(await fs.readFile(FIXTURE, 'utf-8'));
+    data.interactions[0].artifacts = { '.agent/visual/desktop.png': 'UE5HLWJ5dGVz', [artifactPath]: 'cHduZWQ=' };
+    const tampered = path.join(dir, 'tampered.json');
+    await fs.writeFile(tampered, JSON.stringify(data), 'utf-8');
+
+    const cassette = await Cassette.load(tampered, workspaceDir);
+    await assert.rejects(cassette.take('browser', 'visual proof', { workspaceDir }), WorkspacePathError);
+  }
+
+  assert.deepEqual(await fs.readdir(dir), ['tampered.json', 'workspace']);
+  assert.deepEqual(await fs.readdir(workspaceDir), []);
+});
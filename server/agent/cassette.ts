@@ -0,0 +1,298 @@
+/**
+ * THE CASSETTE
+ * Record-and-replay of everything an order run does outside the process:
+ * model calls, child processes, browser checks, test runs, Stripe and SMTP.
+ * Recording writes one JSON cassette per run; replay serves the recorded
+ * responses so the same order can be re-run offline and deterministically.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { ProjectState } from './types';
+import { currentContext } from './run-control';
+import { resolveWorkspacePath } from './workspace';
+
+const CASSETTE_VERSION = 1;
+
+// Stands in for the workspace path so cassettes replay in any directory
+const WORKSPACE_PLACEHOLDER = '<workspace>';
+
+// Environment values that must never end up in a cassette
+const SECRET_ENV_PATTERN = /KEY|TOKEN|SECRET|PASSWORD/i;
+
+export type InteractionKind = 'model' | 'process' | 'browser' | 'build' | 'tests' | 'stripe' | 'smtp' | 'webhook';
+
+export interface Interaction {
+  kind: InteractionKind;
+  label: string; // Coarse identity used when the exact request differs (e.g. model role, command)
+  key: string; // Hash of the normalized request
+  request: any;
+  response?: any;
+  error?: { name: string; message: string };
+  artifacts?: Record<string, string>; // Workspace-relative path -> base64 contents (never outside the workspace)
+}
+
+export interface CassetteData {
+  version: number;
+  orderId: string;
+  recordedAt: string;
+  initialState: ProjectState;
+  finalState?: ProjectState; // For comparing a replay against the recorded outcome
+  interactions: Interaction[];
+}
+
+/**
+ * Thrown in replay when a run makes a call the cassette has no recording for
+ */
+export class CassetteMismatchError extends Error {
+  constructor(readonly kind: InteractionKind, readonly label: string) {
+    super(`No recorded ${kind} interaction for "${label}"`);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+// Set while a recorded operation runs live, so its internals are not recorded twice
+const passthrough = new AsyncLocalStorage<boolean>();
+
+export class Cassette {
+  private used: Set<number>;
+
+  private constructor(
+    readonly mode: 'record' | 'replay',
+    readonly filePath: string,
+    private data: CassetteData,
+    private workspaceDir: string
+  ) {
+    this.used = new Set();
+  }
+
+  /**
+   * Start a new recording for a run of projectState
+   */
+  static record(filePath: string, projectState: ProjectState): Cassette {
+    const cassette = new Cassette('record', filePath, {
+      version: CASSETTE_VERSION,
+      orderId: projectState.orderId,
+      recordedAt: new Date().toISOString(),
+      initialState: null as any,
+      interactions: []
+    }, projectState.workspaceDir);
+
+    cassette.data.initialState = cassette.normalize(projectState);
+    return cassette;
+  }
+
+  /**
+   * Load a cassette for replay into workspaceDir
+   */
+  static async load(filePath: string, workspaceDir: string): Promise<Cassette> {
+    const data: CassetteData = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    if (data.version !== CASSETTE_VERSION) {
+      throw new Error(`Unsupported cassette version ${data.version} in ${filePath}`);
+    }
+    return new Cassette('replay', filePath, data, workspaceDir);
+  }
+
+  get orderId(): string {
+    return this.data.orderId;
+  }
+
+  /**
+   * Project state as it was when recording started, moved to this cassette's workspace
+   */
+  initialState(): ProjectState {
+    return this.denormalize(this.data.initialState);
+  }
+
+  /**
+   * Project state the recorded run ended with
+   */
+  finalState(): ProjectState | undefined {
+    return this.data.finalState && this.denormalize(this.data.finalState);
+  }
+
+  setFinalState(projectState: ProjectState): void {
+    this.data.finalState = this.normalize(projectState);
+  }
+
+  /**
+   * Recorded interactions that the replay has not consumed (yet)
+   */
+  unused(): Interaction[] {
+    return this.data.interactions.filter((_, index) => !this.used.has(index));
+  }
+
+  async save(): Promise<void> {
+    if (this.mode !== 'record') return;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(this.data, null, 2), 'utf-8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  /**
+   * Append an interaction (record mode)
+   */
+  async add(
+    kind: InteractionKind,
+    label: string,
+    request: any,
+    outcome: { response?: any; error?: any },
+    artifactPaths: string[] = []
+  ): Promise<void> {
+    const normalizedRequest = this.normalize(request);
+    const interaction: Interaction = {
+      kind,
+      label,
+      key: Cassette.hash(normalizedRequest),
+      request: normalizedRequest
+    };
+
+    if (outcome.error) {
+      interaction.error = { name: outcome.error.name || 'Error', message: this.normalize(String(outcome.error.message)) };
+    } else {
+      interaction.response = this.normalize(outcome.response ?? null);
+    }
+
+    for (const artifactPath of artifactPaths) {
+      const relativePath = path.relative(this.workspaceDir, artifactPath);
+      if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        console.warn(`[Cassette] ⚠️  Not recording artifact outside the workspace: ${artifactPath}`);
+        continue;
+      }
+
+      const data = await fs.readFile(artifactPath).catch(() => null);
+      if (data) {
+        interaction.artifacts = interaction.artifacts || {};
+        interaction.artifacts[relativePath] = data.toString('base64');
+      }
+    }
+
+    this.data.interactions.push(interaction);
+  }
+
+  /**
+   * Take the recorded interaction for a request (replay mode).
+   * Exact matches are served first, in recording order; when the request
+   * differs (e.g. parallel steps listed the workspace in another order) the
+   * next unused interaction with the same label is served instead.
+   */
+  async take(kind: InteractionKind, label: string, request: any): Promise<Interaction> {
+    const key = Cassette.hash(this.normalize(request));
+    const interactions = this.data.interactions;
+
+    let index = interactions.findIndex((i, n) => !this.used.has(n) && i.kind === kind && i.key === key);
+    if (index === -1) {
+      index = interactions.findIndex((i, n) => !this.used.has(n) && i.kind === kind && i.label === label);
+      if (index !== -1) {
+        console.warn(`[Cassette] ⚠️  Inexact match for ${kind} "${label}" - serving next recording with the same label`);
+      }
+    }
+    if (index === -1) {
+      throw new CassetteMismatchError(kind, label);
+    }
+
+    this.used.add(index);
+    const interaction = interactions[index];
+
+    // A cassette is a file from elsewhere - check every artifact path before restoring any
+    const artifacts = Object.entries(interaction.artifacts || {}).map(
+      ([relativePath, data]) => [resolveWorkspacePath(this.workspaceDir, relativePath, true), data] as const
+    );
+
+    for (const [target, data] of artifacts) {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, Buffer.from(data, 'base64'));
+    }
+
+    return {
+      ...interaction,
+      response: this.denormalize(interaction.response),
+      error: interaction.error && { ...interaction.error, message: this.denormalize(interaction.error.message) }
+    };
+  }
+
+  /**
+   * Replace the workspace path with a placeholder and redact secrets
+   */
+  private normalize<T>(value: T): T {
+    if (value === undefined) return value;
+
+    let json = JSON.stringify(value);
+    json = json.split(JSON.stringify(this.workspaceDir).slice(1, -1)).join(WORKSPACE_PLACEHOLDER);
+
+    for (const [name, secret] of Object.entries(process.env)) {
+      if (secret && secret.length >= 8 && SECRET_ENV_PATTERN.test(name)) {
+        json = json.split(JSON.stringify(secret).slice(1, -1)).join(`<${name}>`);
+      }
+    }
+
+    return JSON.parse(json);
+  }
+
+  private denormalize<T>(value: T): T {
+    if (value === undefined) return value;
+    const json = JSON.stringify(value).split(WORKSPACE_PLACEHOLDER).join(JSON.stringify(this.workspaceDir).slice(1, -1));
+    return JSON.parse(json);
+  }
+
+  private static hash(value: any): string {
+    return crypto.createHash('sha256').update(JSON.stringify(value ?? null)).digest('hex').slice(0, 16);
+  }
+}
+
+/**
+ * Cassette of the current run, unless an enclosing recorded operation is running live
+ */
+export function currentCassette(): Cassette | undefined {
+  if (passthrough.getStore()) return undefined;
+  return currentContext()?.cassette;
+}
+
+/**
+ * Run an external operation through the current cassette: live (and recorded)
+ * when recording, served from the cassette when replaying, plain live otherwise.
+ * artifacts lists files the operation produces that later steps read back
+ * (screenshots), so replay can restore them.
+ */
+export async function intercept<T>(
+  kind: InteractionKind,
+  label: string,
+  request: any,
+  live: () => Promise<T>,
+  artifacts?: (result: T) => (string | undefined)[]
+): Promise<T> {
+  const cassette = currentCassette();
+
+  if (!cassette) {
+    return live();
+  }
+
+  if (cassette.mode === 'replay') {
+    const interaction = await cassette.take(kind, label, request);
+    if (interaction.error) {
+      const error = new Error(interaction.error.message);
+      error.name = interaction.error.name;
+      throw error;
+    }
+    return interaction.response as T;
+  }
+
+  let result: T;
+  try {
+    result = await passthrough.run(true, live);
+  } catch (error: any) {
+    // Interrupted runs and service outages (the run pauses) are not part of the recording
+    if (error?.name !== 'AbortError' && error?.name !== 'RunInterruptedError' && error?.name !== 'ServiceUnavailableError') {
+      await cassette.add(kind, label, request, { error });
+    }
+    throw error;
+  }
+
+  const files = (artifacts?.(result) || []).filter((file): file is string => !!file);
+  await cassette.add(kind, label, request, { response: result }, files);
+  return result;
+}
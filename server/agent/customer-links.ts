@@ -0,0 +1,101 @@
+/**
+ * CUSTOMER LINKS
+ * The email-preferences link in every customer email. A token is an
+ * HMAC-SHA256 signed claim naming the order and a hash of the customer's
+ * address, so it stops working if the order's contact changes. Tokens do
+ * not expire: an unsubscribe link has to work for as long as the email exists.
+ *
+ * CUSTOMER_LINK_SECRET signs the tokens (APPROVAL_LINK_SECRET when unset).
+ */
+
+import crypto from 'crypto';
+import { CustomerMilestone, ProjectState } from './types';
+
+export const CUSTOMER_MILESTONES: CustomerMilestone[] = ['order_accepted', 'plan_ready', 'preview_ready', 'deployed'];
+
+export interface CustomerClaims {
+  orderId: string;
+  contact: string; // Hash of the address the link was sent to
+}
+
+export type CustomerLinkCheck =
+  | { valid: true; claims: CustomerClaims; projectState: ProjectState }
+  | { valid: false; message: string };
+
+export class CustomerLinks {
+  private secret: string;
+
+  constructor() {
+    const secret = process.env.CUSTOMER_LINK_SECRET || process.env.APPROVAL_LINK_SECRET;
+    if (secret) {
+      this.secret = secret;
+    } else {
+      // Links in emails already sent stop working when the process restarts
+      console.warn('[CustomerLinks] CUSTOMER_LINK_SECRET not set - preference links will stop working after a restart');
+      this.secret = crypto.randomBytes(32).toString('hex');
+    }
+  }
+
+  /**
+   * Preferences page for the project's customer. The same URL accepts
+   * one-click unsubscribe POSTs (RFC 8058).
+   */
+  preferencesUrl(projectState: ProjectState): string {
+    const baseUrl = (process.env.BASE_URL || 'http://localhost:5000').replace(/\/$/, '');
+    const email = projectState.customer?.email || '';
+    return `${baseUrl}/api/customer/preferences/${this.sign({ orderId: projectState.orderId, contact: contactHash(email) })}`;
+  }
+
+  /**
+   * Check a token against the project it names
+   */
+  verify(token: string, findProject: (orderId: string) => ProjectState | null): CustomerLinkCheck {
+    const claims = this.parse(token);
+    if (!claims) return { valid: false, message: 'This link is not valid.' };
+
+    const projectState = findProject(claims.orderId);
+    if (!projectState?.customer || contactHash(projectState.customer.email) !== claims.contact) {
+      return { valid: false, message: 'This link is no longer in use. Use the link in the latest email about your order.' };
+    }
+
+    return { valid: true, claims, projectState };
+  }
+
+  private sign(claims: CustomerClaims): string {
+    const payload = Buffer.from(JSON.stringify({ o: claims.orderId, c: claims.contact })).toString('base64url');
+    return `${payload}.${this.mac(payload)}`;
+  }
+
+  private parse(token: string): CustomerClaims | undefined {
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) return undefined;
+
+    const expected = Buffer.from(this.mac(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return undefined;
+    }
+
+    try {
+      const raw = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+      if (typeof raw.o !== 'string' || typeof raw.c !== 'string') return undefined;
+      return { orderId: raw.o, contact: raw.c };
+    } catch {
+      return undefined;
+    }
+  }
+
+  private mac(payload: string): string {
+    return crypto.createHmac('sha256', this.secret).update(`customer.${payload}`).digest('base64url');
+  }
+}
+
+/**
+ * The address never appears in the link itself
+ */
+function contactHash(email: string): string {
+  return crypto.createHash('sha256').update(email.trim().toLowerCase()).digest('base64url').slice(0, 16);
+}
+
+// Singleton - one secret per process
+export const customerLinks = new CustomerLinks();
@@ -0,0 +1,50 @@
+/**
+ * CUSTOMER PAGES
+ * The email-preferences page linked from every customer email: choose which
+ * order updates to receive, or unsubscribe from all of them.
+ */
+
+import { CustomerLinkCheck, CUSTOMER_MILESTONES } from './customer-links';
+import { escapeHtml, page } from './approval-pages';
+import { CustomerMilestone } from './types';
+
+type ValidCheck = Extract<CustomerLinkCheck, { valid: true }>;
+
+const MILESTONE_LABELS: Record<CustomerMilestone, string> = {
+  order_accepted: 'Order accepted',
+  plan_ready: 'Project plan ready',
+  preview_ready: 'Preview ready for review',
+  deployed: 'Project live'
+};
+
+/**
+ * Preferences form. saved is shown above it after a change.
+ */
+export function renderPreferencesPage(check: ValidCheck, token: string, saved?: string): string {
+  const customer = check.projectState.customer!;
+  const name = escapeHtml(check.projectState.project_name);
+  const muted = new Set(customer.mutedMilestones || []);
+  const subscribed = !customer.unsubscribedAt;
+
+  return page(`Email preferences for ${name}`, `
+    <h1>✉️ Email preferences</h1>
+    <p>Updates about <strong>${name}</strong> are sent to ${escapeHtml(customer.email)}.</p>
+    ${saved ? `<p>${escapeHtml(saved)}</p>` : ''}
+    <form method="post" action="/api/customer/preferences/${encodeURIComponent(token)}">
+      ${CUSTOMER_MILESTONES.map(milestone => `
+      <p><label><input type="checkbox" name="milestones" value="${milestone}"${subscribed && !muted.has(milestone) ? ' checked' : ''}> ${MILESTONE_LABELS[milestone]}</label></p>`).join('')}
+      <button type="submit">Save preferences</button>
+    </form>
+    <form method="post" action="/api/customer/preferences/${encodeURIComponent(token)}">
+      <input type="hidden" name="unsubscribe" value="all">
+      <p class="note">${subscribed ? '<button type="submit" class="reject">Unsubscribe from all emails about this order</button>' : 'You are unsubscribed from all emails about this order.'}</p>
+    </form>
+  `);
+}
+
+export function renderCustomerRefusalPage(check: Extract<CustomerLinkCheck, { valid: false }>): string {
+  return page('Link not usable', `
+    <h1>🚫 This link cannot be used</h1>
+    <p>${escapeHtml(check.message)}</p>
+  `);
+}
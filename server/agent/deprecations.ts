@@ -0,0 +1,282 @@
+/**
+ * DEPRECATION RULE PACKS
+ * Loadable rules for Doc Verify. Each pack (JSON or YAML) applies to the
+ * npm packages it lists and is only used when the workspace package.json
+ * declares one of them. Rules match with the TypeScript AST (calls, member
+ * access, imports) or a regex, and can be limited to a version range of
+ * the declared package. Built-in packs live in server/agent/rules/deprecations;
+ * AGENT_RULE_PACKS_DIR adds packs (or replaces built-ins of the same name).
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import ts from 'typescript';
+import semver from 'semver';
+import YAML from 'yaml';
+import { z } from 'zod';
+import { readPackageJson } from './dev-server';
+import { listWorkspaceFiles, readWorkspaceFile } from './workspace';
+
+const BUILTIN_PACKS_DIR = path.join(process.cwd(), 'server', 'agent', 'rules', 'deprecations');
+
+const AST_FILES = /\.([cm]?jsx?|[cm]?tsx?)$/;
+const SOURCE_FILES = /\.([cm]?jsx?|[cm]?tsx?|html?|vue|svelte)$/;
+
+const matcherSchema = z.discriminatedUnion('type', [
+  // Call whose callee ends with the dotted path, optionally only when an
+  // object literal argument has the given property (e.g. charges.create + source)
+  z.object({ type: z.literal('call'), callee: z.string().min(1), argumentProperty: z.string().optional() }),
+  // Property access ending with the dotted path
+  z.object({ type: z.literal('member'), path: z.string().min(1) }),
+  // import/require of a module, optionally of one named export
+  z.object({ type: z.literal('import'), module: z.string().min(1), name: z.string().optional() }),
+  // Regex tested per line (any source file, including HTML/Vue/Svelte)
+  z.object({ type: z.literal('regex'), pattern: z.string().min(1), flags: z.string().optional() })
+]);
+
+const ruleSchema = z.object({
+  id: z.string().min(1),
+  message: z.string().min(1),
+  replacement: z.string().optional(),
+  versions: z.string().optional(), // semver range of the package the rule applies to; all versions when omitted
+  match: matcherSchema
+});
+
+const rulePackSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  packages: z.array(z.string().min(1)).min(1),
+  rules: z.array(ruleSchema)
+});
+
+export type DeprecationMatcher = z.infer<typeof matcherSchema>;
+export type DeprecationRule = z.infer<typeof ruleSchema>;
+export type RulePack = z.infer<typeof rulePackSchema>;
+
+export interface DeprecationFinding {
+  pack: string;
+  rule: string;
+  message: string;
+  replacement?: string;
+  file: string;
+  line: number;
+}
+
+/**
+ * A rule pack selected for a workspace, with the declared version of its package
+ */
+export interface ActiveRulePack {
+  pack: RulePack;
+  packageName: string;
+  declaredVersion: string;
+}
+
+export class DeprecationRules {
+  private packs: Promise<RulePack[]> | null = null;
+
+  constructor(private dirs: string[] = [BUILTIN_PACKS_DIR, ...(process.env.AGENT_RULE_PACKS_DIR ? [process.env.AGENT_RULE_PACKS_DIR] : [])]) {}
+
+  /**
+   * All packs, loaded once. Later directories replace packs of the same name.
+   */
+  load(): Promise<RulePack[]> {
+    if (!this.packs) {
+      this.packs = this.loadPacks();
+    }
+    return this.packs;
+  }
+
+  /**
+   * Packs for the packages declared in the workspace package.json
+   */
+  async select(workspaceDir: string): Promise<ActiveRulePack[]> {
+    const pkg = await readPackageJson(workspaceDir);
+    const deps: Record<string, string> = { ...pkg?.dependencies, ...pkg?.devDependencies };
+    const active: ActiveRulePack[] = [];
+
+    for (const pack of await this.load()) {
+      const packageName = pack.packages.find(name => deps[name]);
+      if (packageName) {
+        active.push({ pack, packageName, declaredVersion: deps[packageName] });
+      }
+    }
+
+    return active;
+  }
+
+  /**
+   * Run the active packs over files (workspace-relative; all sources when omitted)
+   */
+  async check(workspaceDir: string, files?: string[]): Promise<{ active: ActiveRulePack[]; findings: DeprecationFinding[] }> {
+    const active = await this.select(workspaceDir);
+    if (active.length === 0) {
+      return { active, findings: [] };
+    }
+
+    const rules = active.flatMap(({ pack, declaredVersion }) => pack.rules
+      .filter(rule => appliesTo(rule, declaredVersion))
+      .map(rule => ({ pack: pack.name, rule })));
+
+    const targets = (files || await listWorkspaceFiles(workspaceDir)).filter(file => SOURCE_FILES.test(file));
+    const findings: DeprecationFinding[] = [];
+
+    for (const file of targets) {
+      const content = await readWorkspaceFile(workspaceDir, file);
+      if (content === undefined) continue;
+
+      const sourceFile = AST_FILES.test(file)
+        ? ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true, scriptKind(file))
+        : undefined;
+
+      for (const { pack, rule } of rules) {
+        for (const line of matchLines(rule.match, content, sourceFile)) {
+          findings.push({ pack, rule: rule.id, message: rule.message, replacement: rule.replacement, file, line });
+        }
+      }
+    }
+
+    findings.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+    return { active, findings };
+  }
+
+  private async loadPacks(): Promise<RulePack[]> {
+    const byName = new Map<string, RulePack>();
+
+    for (const dir of this.dirs) {
+      let entries: string[];
+      try {
+        entries = (await fs.readdir(dir)).filter(name => /\.(json|ya?ml)$/.test(name)).sort();
+      } catch {
+        continue;
+      }
+
+      for (const entry of entries) {
+        const filePath = path.join(dir, entry);
+        try {
+          const raw = await fs.readFile(filePath, 'utf-8');
+          const pack = rulePackSchema.parse(entry.endsWith('.json') ? JSON.parse(raw) : YAML.parse(raw));
+          pack.rules.forEach(validateRule);
+          byName.set(pack.name, pack);
+        } catch (error: any) {
+          // A broken pack must not disable the others
+          console.error(`[DocVerify] Ignoring invalid rule pack ${filePath}: ${error.message}`);
+        }
+      }
+    }
+
+    console.log(`[DocVerify] Loaded ${byName.size} deprecation rule pack(s)`);
+    return Array.from(byName.values());
+  }
+}
+
+function validateRule(rule: DeprecationRule): void {
+  if (rule.versions && !semver.validRange(rule.versions)) {
+    throw new Error(`rule ${rule.id} has an invalid version range "${rule.versions}"`);
+  }
+  if (rule.match.type === 'regex') {
+    new RegExp(rule.match.pattern, rule.match.flags); // Throws on an invalid pattern
+  }
+}
+
+/**
+ * Whether a rule applies to the declared version. Declarations that are not
+ * semver ranges (tags, git URLs) get every rule.
+ */
+function appliesTo(rule: DeprecationRule, declaredVersion: string): boolean {
+  if (!rule.versions) return true;
+  const minimum = semver.validRange(declaredVersion) ? semver.minVersion(declaredVersion) : null;
+  return !minimum || semver.satisfies(minimum, rule.versions);
+}
+
+function scriptKind(file: string): ts.ScriptKind {
+  if (/\.tsx$/.test(file)) return ts.ScriptKind.TSX;
+  if (/\.[cm]?ts$/.test(file)) return ts.ScriptKind.TS;
+  return /\.jsx$/.test(file) ? ts.ScriptKind.JSX : ts.ScriptKind.JS;
+}
+
+/**
+ * Lines (1-based) where a matcher hits. AST matchers need a parsed source file.
+ */
+function matchLines(matcher: DeprecationMatcher, content: string, sourceFile?: ts.SourceFile): number[] {
+  if (matcher.type === 'regex') {
+    const pattern = new RegExp(matcher.pattern, (matcher.flags || '').replace('g', ''));
+    return content
+      .split(/\r?\n/)
+      .map((line, index) => (pattern.test(line) ? index + 1 : 0))
+      .filter(line => line > 0);
+  }
+
+  if (!sourceFile) return [];
+
+  const lines: number[] = [];
+  const hit = (node: ts.Node) => {
+    lines.push(sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1);
+  };
+
+  const visit = (node: ts.Node) => {
+    switch (matcher.type) {
+      case 'call':
+        if (ts.isCallExpression(node) && endsWithPath(node.expression.getText(sourceFile), matcher.callee)) {
+          if (!matcher.argumentProperty || node.arguments.some(arg => hasProperty(arg, matcher.argumentProperty!))) {
+            hit(node);
+          }
+        }
+        break;
+
+      case 'member':
+        if (ts.isPropertyAccessExpression(node) && endsWithPath(node.getText(sourceFile), matcher.path)) {
+          hit(node);
+        }
+        break;
+
+      case 'import':
+        if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier) && node.moduleSpecifier.text === matcher.module) {
+          if (!matcher.name || importsName(node, matcher.name)) {
+            hit(node);
+          }
+        } else if (
+          !matcher.name &&
+          ts.isCallExpression(node) &&
+          ts.isIdentifier(node.expression) &&
+          node.expression.text === 'require' &&
+          node.arguments.length === 1 &&
+          ts.isStringLiteral(node.arguments[0]) &&
+          node.arguments[0].text === matcher.module
+        ) {
+          hit(node);
+        }
+        break;
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return lines;
+}
+
+/**
+ * "stripe.charges.create" ends with "charges.create" (whole segments only)
+ */
+function endsWithPath(expression: string, dottedPath: string): boolean {
+  const compact = expression.replace(/\s+/g, '').replace(/\?\./g, '.');
+  return compact === dottedPath || compact.endsWith(`.${dottedPath}`);
+}
+
+function hasProperty(node: ts.Node, name: string): boolean {
+  if (!ts.isObjectLiteralExpression(node)) return false;
+  return node.properties.some(property =>
+    (ts.isPropertyAssignment(property) || ts.isShorthandPropertyAssignment(property) || ts.isMethodDeclaration(property)) &&
+    property.name !== undefined &&
+    (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) &&
+    property.name.text === name
+  );
+}
+
+function importsName(node: ts.ImportDeclaration, name: string): boolean {
+  const bindings = node.importClause?.namedBindings;
+  if (name === 'default') return !!node.importClause?.name;
+  return !!bindings && ts.isNamedImports(bindings) && bindings.elements.some(element =>
+    (element.propertyName || element.name).text === name
+  );
+}
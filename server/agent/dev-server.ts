@@ -0,0 +1,366 @@
+/**
+ * THE DEV SERVER
+ * Boots a generated workspace on a free local port for visual proof.
+ * Projects with a dev/start script are run with npm; everything else is
+ * served as static files. Output is captured so a failed boot can be reported.
+ */
+
+import { ChildProcess } from 'child_process';
+import { sandboxEnv, spawnProcess } from './process';
+import http from 'http';
+import net from 'net';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { currentSignal } from './run-control';
+import { resolveWorkspacePath } from './workspace';
+
+const INSTALL_TIMEOUT_MS = parseInt(process.env.DEV_SERVER_INSTALL_TIMEOUT_MS || '180000', 10) || 180000;
+const READY_TIMEOUT_MS = parseInt(process.env.DEV_SERVER_READY_TIMEOUT_MS || '60000', 10) || 60000;
+const MAX_OUTPUT_CHARS = 20000;
+
+// Written into node_modules after a successful install, keyed by package.json contents
+const INSTALL_MARKER = '.agent-install-hash';
+
+// Directories checked (in order) for an index.html when serving static files
+const STATIC_ROOTS = ['.', 'public', 'dist', 'build'];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.txt': 'text/plain; charset=utf-8'
+};
+
+/**
+ * The parts of a workspace package.json the agent reads or writes
+ */
+export interface PackageJson {
+  name?: string;
+  private?: boolean;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * Thrown when the workspace cannot be installed or served. output holds the captured logs.
+ */
+export class DevServerError extends Error {
+  constructor(message: string, readonly output: string) {
+    super(message);
+    this.name = 'DevServerError';
+  }
+}
+
+// One install at a time per workspace (parallel steps share node_modules)
+const installs = new Map<string, Promise<void>>();
+
+export class DevServer {
+  private output = '';
+  private exitCode: number | null = null;
+  private stopped = false;
+
+  private constructor(
+    readonly url: string,
+    readonly mode: 'script' | 'static',
+    private child?: ChildProcess,
+    private staticServer?: http.Server
+  ) {}
+
+  /**
+   * Install dependencies if needed, start the workspace and wait until it answers.
+   * Returns null when there is nothing to serve (no script and no index.html).
+   */
+  static async start(workspaceDir: string): Promise<DevServer | null> {
+    const pkg = await readPackageJson(workspaceDir);
+    const script = ['dev', 'start'].find(name => pkg?.scripts?.[name]);
+
+    if (pkg?.scripts && script) {
+      await DevServer.install(workspaceDir, pkg);
+      return DevServer.startScript(workspaceDir, script, pkg.scripts[script]);
+    }
+
+    for (const root of STATIC_ROOTS) {
+      const dir = path.join(workspaceDir, root);
+      if (await exists(path.join(dir, 'index.html'))) {
+        return DevServer.startStatic(dir);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Captured stdout/stderr of the server (tail)
+   */
+  getOutput(): string {
+    return this.output;
+  }
+
+  /**
+   * Whether a script server has exited on its own
+   */
+  hasCrashed(): boolean {
+    return this.exitCode !== null && !this.stopped;
+  }
+
+  /**
+   * Tear the server down (the whole process group for script servers)
+   */
+  async stop(): Promise<void> {
+    if (this.stopped) return;
+    this.stopped = true;
+
+    if (this.staticServer) {
+      await new Promise<void>(resolve => this.staticServer!.close(() => resolve()));
+      return;
+    }
+
+    const child = this.child!;
+    if (this.exitCode !== null || !child.pid) return;
+
+    const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+    killGroup(child, 'SIGTERM');
+
+    const timer = setTimeout(() => killGroup(child, 'SIGKILL'), 5000);
+    await exited;
+    clearTimeout(timer);
+  }
+
+  private append(chunk: string): void {
+    this.output = (this.output + chunk).slice(-MAX_OUTPUT_CHARS);
+  }
+
+  /**
+   * npm install, skipped when package.json has not changed since the last install.
+   * Also used by the test runner. Install scripts get the sandboxed environment too.
+   */
+  static async install(workspaceDir: string, pkg: PackageJson): Promise<void> {
+    const hasDependencies = Object.keys({ ...pkg.dependencies, ...pkg.devDependencies }).length > 0;
+    if (!hasDependencies) return;
+
+    const running = installs.get(workspaceDir);
+    if (running) {
+      await running;
+      return;
+    }
+
+    const install = (async () => {
+      const hash = crypto.createHash('sha256').update(JSON.stringify(pkg)).digest('hex');
+      const markerPath = path.join(workspaceDir, 'node_modules', INSTALL_MARKER);
+      const installed = await fs.readFile(markerPath, 'utf-8').catch(() => '');
+      if (installed === hash) return;
+
+      console.log(`[DevServer] Installing dependencies in ${workspaceDir}`);
+      const result = await runInstall(workspaceDir);
+      if (result.code !== 0) {
+        throw new DevServerError(
+          result.timedOut
+            ? `npm install timed out after ${INSTALL_TIMEOUT_MS / 1000}s`
+            : `npm install failed with code ${result.code}`,
+          result.output
+        );
+      }
+
+      await fs.writeFile(markerPath, hash, 'utf-8');
+    })();
+
+    installs.set(workspaceDir, install);
+    try {
+      await install;
+    } finally {
+      installs.delete(workspaceDir);
+    }
+  }
+
+  private static async startScript(workspaceDir: string, script: string, command: string): Promise<DevServer> {
+    const port = await findFreePort();
+    const args = ['run', script];
+
+    // Vite ignores PORT, so pass the port on the command line
+    if (/\bvite\b/.test(command)) {
+      args.push('--', '--port', String(port), '--strictPort', '--host', '127.0.0.1');
+    }
+
+    console.log(`[DevServer] Starting "npm ${args.join(' ')}" on port ${port}`);
+
+    const child = spawnProcess('npm', args, {
+      cwd: workspaceDir,
+      env: sandboxEnv({ PORT: String(port), HOST: '127.0.0.1', BROWSER: 'none', NODE_ENV: 'development' }),
+      detached: true // Own process group, so teardown also reaches the server npm started
+    });
+
+    const server = new DevServer(`http://127.0.0.1:${port}`, 'script', child);
+
+    child.stdout?.on('data', data => server.append(data.toString()));
+    child.stderr?.on('data', data => server.append(data.toString()));
+    child.on('exit', code => {
+      server.exitCode = code ?? -1;
+    });
+    child.on('error', error => {
+      server.append(`\n${error.message}\n`);
+      server.exitCode = server.exitCode ?? -1;
+    });
+
+    // Cancelling the run tears the server down
+    const signal = currentSignal();
+    signal?.addEventListener('abort', () => void server.stop(), { once: true });
+
+    try {
+      await server.waitUntilReady();
+    } catch (error) {
+      await server.stop();
+      throw error;
+    }
+
+    return server;
+  }
+
+  private static async startStatic(rootDir: string): Promise<DevServer> {
+    const staticServer = http.createServer(async (req, res) => {
+      try {
+        const pathname = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+        let relative = pathname.replace(/^\/+/, '') || 'index.html';
+        if (relative.endsWith('/')) relative += 'index.html';
+
+        let filePath = resolveWorkspacePath(rootDir, relative);
+        if ((await fs.stat(filePath)).isDirectory()) {
+          filePath = path.join(filePath, 'index.html');
+        }
+
+        const body = await fs.readFile(filePath);
+        res.writeHead(200, {
+          'Content-Type': CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream'
+        });
+        res.end(body);
+      } catch {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found');
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      staticServer.once('error', reject);
+      staticServer.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    const { port } = staticServer.address() as net.AddressInfo;
+    console.log(`[DevServer] Serving ${rootDir} on port ${port}`);
+
+    return new DevServer(`http://127.0.0.1:${port}`, 'static', undefined, staticServer);
+  }
+
+  /**
+   * Poll the URL until it answers, the process exits or the timeout passes
+   */
+  private async waitUntilReady(): Promise<void> {
+    const deadline = Date.now() + READY_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      currentSignal()?.throwIfAborted();
+
+      if (this.exitCode !== null) {
+        throw new DevServerError(`Dev server exited with code ${this.exitCode} before it was ready`, this.output);
+      }
+
+      if (await respond(this.url)) {
+        return;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+
+    throw new DevServerError(`Dev server did not answer within ${READY_TIMEOUT_MS / 1000}s`, this.output);
+  }
+}
+
+export async function readPackageJson(workspaceDir: string): Promise<PackageJson | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(workspaceDir, 'package.json'), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(() => true, () => false);
+}
+
+function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+function respond(url: string): Promise<boolean> {
+  return new Promise(resolve => {
+    const req = http.get(url, res => {
+      res.resume();
+      resolve(true);
+    });
+    req.on('error', () => resolve(false));
+    req.setTimeout(2000, () => {
+      req.destroy();
+      resolve(false);
+    });
+  });
+}
+
+function killGroup(child: ChildProcess, signal: NodeJS.Signals): void {
+  try {
+    process.kill(-child.pid!, signal);
+  } catch {
+    child.kill(signal);
+  }
+}
+
+function runInstall(workspaceDir: string): Promise<{ code: number | null; output: string; timedOut: boolean }> {
+  return new Promise(resolve => {
+    const child = spawnProcess('npm', ['install', '--no-audit', '--no-fund', '--loglevel=error'], {
+      cwd: workspaceDir,
+      env: sandboxEnv(),
+      signal: currentSignal()
+    });
+
+    let output = '';
+    let timedOut = false;
+    const append = (data: Buffer) => {
+      output = (output + data.toString()).slice(-MAX_OUTPUT_CHARS);
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, INSTALL_TIMEOUT_MS);
+
+    child.stdout.on('data', append);
+    child.stderr.on('data', append);
+    child.on('close', code => {
+      clearTimeout(timer);
+      resolve({ code, output, timedOut });
+    });
+    child.on('error', error => {
+      clearTimeout(timer);
+      resolve({ code: -1, output: `${output}\n${error.message}`, timedOut });
+    });
+  });
+}
@@ -3,10 +3,13 @@
  * Implements the Hallucination Blocking (3-strike rule)
  */
 
-import { ProjectState } from './types';
+import { ErrorCategory, FailureRecord, ProjectState } from './types';
+import { models } from './models';
+import { AgentError, toAgentError } from './errors';
 
 export class ErrorHandler {
   private static readonly MAX_CONSECUTIVE_FAILURES = 3;
+  private static readonly MAX_RECORDED_FAILURES = 100;
   
   /**
    * Check if project should halt due to consecutive failures
@@ -26,35 +29,38 @@ export class ErrorHandler {
   }
 
   /**
-   * Handle validation failure
+   * Classify an error and record it on the project. Returns the classified error
+   * so callers can branch on its category and retryability.
    */
-  static handleValidationFailure(
+  static recordFailure(
     projectState: ProjectState,
-    stepId: string,
-    error: string
-  ): void {
-    const step = projectState.plan.find(s => s.id === stepId);
-    if (step) {
-      step.retries++;
-      
-      console.error(`[ErrorHandler] Validation failed for ${step.title} (attempt ${step.retries})`);
-      console.error(`[ErrorHandler] Error: ${error}`);
-
-      // Check if this is a consecutive failure
-      const previousStep = projectState.plan[projectState.currentStep - 1];
-      if (previousStep && previousStep.status === 'failed') {
-        projectState.failureCount++;
-      } else {
-        projectState.failureCount = 1; // Reset if not consecutive
-      }
-
-      if (this.shouldHalt(projectState)) {
-        console.error(`\n[ErrorHandler] 🛑 HALTING EXECUTION`);
-        console.error(`[ErrorHandler] Reason: ${this.MAX_CONSECUTIVE_FAILURES} consecutive failures detected`);
-        console.error(`[ErrorHandler] This prevents infinite token burn and hallucination loops.`);
-        projectState.status = 'failed';
-      }
+    error: unknown,
+    options: { stepId?: string; fallback?: ErrorCategory } = {}
+  ): AgentError {
+    const classified = toAgentError(error, options.fallback);
+
+    projectState.failures = [...(projectState.failures || []), classified.toRecord(options.stepId)]
+      .slice(-this.MAX_RECORDED_FAILURES);
+
+    console.error(`[ErrorHandler] ${classified.category} failure${options.stepId ? ` in ${options.stepId}` : ''} (${classified.retryable ? 'retryable' : 'not retryable'}): ${classified.message}`);
+    return classified;
+  }
+
+  /**
+   * Recorded failures grouped by category, in the order categories first occurred
+   */
+  static groupFailures(failures: FailureRecord[] = []): { category: ErrorCategory; remediation: string; failures: FailureRecord[] }[] {
+    const groups = new Map<ErrorCategory, FailureRecord[]>();
+    for (const failure of failures) {
+      groups.set(failure.category, [...(groups.get(failure.category) || []), failure]);
     }
+
+    return Array.from(groups.entries()).map(([category, records]) => ({
+      category,
+      // The latest hint is the most specific (e.g. the provider whose key was rejected)
+      remediation: records[records.length - 1].remediation,
+      failures: records
+    }));
   }
 
   /**
@@ -106,7 +112,7 @@ export class ErrorHandler {
    */
   static validateEnvironment(): { valid: boolean; missing: string[] } {
     const required = [
-      'GEMINI_API_KEY',
+      ...models.requiredEnvironment(),
       'EMAIL_USER',
       'EMAIL_PASSWORD',
       'STRIPE_TEST_KEY',
@@ -138,32 +144,48 @@ export class ErrorHandler {
     projectState.plan.forEach((step, idx) => {
       const icon = step.status === 'completed' ? '✅' : 
                    step.status === 'failed' ? '❌' : 
-                   step.status === 'in_progress' ? '⏳' : '⏸️';
+                   step.status === 'in_progress' ? '⏳' :
+                   step.status === 'skipped' ? '⏭️' : '⏸️';
       console.log(`    ${icon} ${idx + 1}. ${step.title} (${step.status}, ${step.retries} retries)`);
     });
   }
 
   /**
-   * Create error report object
+   * Create error report object. error is the failure that ended the run; a plain
+   * message takes its category from the latest recorded failure. The project's
+   * recorded failures are included grouped by category.
    */
   static createErrorReport(
     projectState: ProjectState,
-    error: any
+    error: unknown
   ): {
     orderId: string;
     projectName: string;
     status: string;
     failureCount: number;
     error: string;
+    category?: ErrorCategory;
+    retryable?: boolean;
+    remediation?: string;
+    failures: ReturnType<typeof ErrorHandler.groupFailures>;
     steps: any[];
     timestamp: string;
   } {
+    const failures = projectState.failures || [];
+    const cause = typeof error === 'string'
+      ? failures[failures.length - 1]
+      : toAgentError(error).toRecord();
+
     return {
       orderId: projectState.orderId,
       projectName: projectState.project_name,
       status: projectState.status,
       failureCount: projectState.failureCount,
-      error: this.formatError(error),
+      error: typeof error === 'string' ? error : cause!.message,
+      category: cause?.category,
+      retryable: cause?.retryable,
+      remediation: cause?.remediation,
+      failures: this.groupFailures(projectState.failures),
       steps: projectState.plan.map(step => ({
         id: step.id,
         title: step.title,
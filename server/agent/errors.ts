@@ -0,0 +1,249 @@
+/**
+ * FAILURE TAXONOMY
+ * Typed errors for everything that can make a run fail. Each carries its
+ * category, whether trying again can help and a hint for the operator.
+ * toAgentError classifies anything else that was thrown.
+ */
+
+import type { ErrorCategory, FailureRecord } from './types';
+import { ModelProviderError } from './models/types';
+import { DevServerError } from './dev-server';
+
+export interface AgentErrorOptions {
+  retryable?: boolean;
+  remediation?: string;
+  details?: unknown;
+  cause?: unknown;
+}
+
+export abstract class AgentError extends Error {
+  abstract readonly category: ErrorCategory;
+  readonly retryable: boolean;
+  readonly remediation: string;
+  readonly details?: unknown;
+  readonly cause?: unknown;
+
+  constructor(message: string, defaults: { retryable: boolean; remediation: string }, options: AgentErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.retryable = options.retryable ?? defaults.retryable;
+    this.remediation = options.remediation ?? defaults.remediation;
+    this.details = options.details;
+    this.cause = options.cause;
+  }
+
+  /**
+   * Plain record for project state, events and reports
+   */
+  toRecord(stepId?: string): FailureRecord {
+    return {
+      category: this.category,
+      message: this.message,
+      retryable: this.retryable,
+      remediation: this.remediation,
+      stepId,
+      timestamp: new Date().toISOString()
+    };
+  }
+}
+
+/**
+ * The model provider failed the request (rate limit, outage, network)
+ */
+export class ModelError extends AgentError {
+  readonly category = 'model';
+
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, {
+      retryable: true,
+      remediation: 'Transient provider problem; retry later or route the role to another provider (AGENT_MODEL_* settings).'
+    }, options);
+  }
+}
+
+/**
+ * The model answered, but not with something usable (bad manifest, unresolved patches)
+ */
+export class ModelOutputError extends AgentError {
+  readonly category = 'model_output';
+
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, {
+      retryable: true,
+      remediation: 'The model returned malformed output; retrying with feedback usually fixes it. Persistent failures suggest a stronger coder model.'
+    }, options);
+  }
+}
+
+/**
+ * Generated code did not pass the Six Eyes
+ */
+export class ValidationError extends AgentError {
+  readonly category = 'validation';
+
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, {
+      retryable: true,
+      remediation: 'Generated code failed validation; review the failing eyes in the step attempts and clarify the requirements if the same check keeps failing.'
+    }, options);
+  }
+}
+
+/**
+ * A platform build (web bundle, Android) failed
+ */
+export class BuildError extends AgentError {
+  readonly category = 'build';
+
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, {
+      retryable: false,
+      remediation: 'Inspect the build output in the workspace; fix the toolchain (Node, Gradle, Android SDK) or reject the revision with build feedback.'
+    }, options);
+  }
+}
+
+/**
+ * Preview or production deployment failed
+ */
+export class DeployError extends AgentError {
+  readonly category = 'deploy';
+
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, {
+      retryable: true,
+      remediation: 'Check the Vercel / Google Play status and credentials, then approve again to retry the deployment.'
+    }, options);
+  }
+}
+
+/**
+ * Stripe rejected a product, price or payment link
+ */
+export class PaymentError extends AgentError {
+  readonly category = 'payment';
+
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, {
+      retryable: true,
+      remediation: 'Check the Stripe dashboard for the failed request and the account status.'
+    }, options);
+  }
+}
+
+/**
+ * An email or other notification could not be delivered
+ */
+export class NotificationError extends AgentError {
+  readonly category = 'notification';
+
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, {
+      retryable: true,
+      remediation: 'Check the notification channel settings (EMAIL_*, NOTIFY_*); undelivered messages wait in the outbox shown by /api/health.'
+    }, options);
+  }
+}
+
+/**
+ * Missing or invalid configuration. Retrying cannot help until an operator fixes it.
+ */
+export class ConfigurationError extends AgentError {
+  readonly category = 'configuration';
+
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, {
+      retryable: false,
+      remediation: 'Fix the configuration (see .env.example) and resubmit the order.'
+    }, options);
+  }
+}
+
+/**
+ * The order spent its model budget. The run stops; more of the same cannot help.
+ */
+export class BudgetError extends AgentError {
+  readonly category = 'budget';
+
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, {
+      retryable: false,
+      remediation: 'Raise the order budget (budgetUsd or AGENT_ORDER_BUDGET_USD) or route roles to cheaper models, then resubmit.'
+    }, options);
+  }
+}
+
+/**
+ * A bug or unexpected state in the agent itself, not attributable to any service
+ */
+export class InternalError extends AgentError {
+  readonly category = 'internal';
+
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, {
+      retryable: false,
+      remediation: 'Unexpected error in the agent; check the server log for the stack trace.'
+    }, options);
+  }
+}
+
+const NETWORK_ERRORS = /ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|fetch failed|network/i;
+
+/**
+ * Classify any thrown value. AgentErrors pass through; provider and Stripe
+ * errors are told apart by status/type; anything else falls into fallback,
+ * the category of the operation that threw (internal when the caller cannot tell).
+ */
+export function toAgentError(error: unknown, fallback: ErrorCategory = 'internal'): AgentError {
+  if (error instanceof AgentError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof ModelProviderError) {
+    const status = error.status;
+    if (status === 401 || status === 403) {
+      return new ConfigurationError(message, { cause: error, remediation: `The ${error.provider} API key is missing or rejected; check its key in .env.` });
+    }
+    if (status === 400 || status === 404) {
+      return new ConfigurationError(message, { cause: error, remediation: `${error.provider} rejected the request; check the model names in the AGENT_MODEL_* settings.` });
+    }
+    return new ModelError(message, { cause: error, details: { provider: error.provider, status } });
+  }
+
+  if (error instanceof DevServerError) {
+    return new BuildError(message, { cause: error, details: { output: error.output.slice(-2000) }, retryable: true });
+  }
+
+  // Stripe SDK errors carry a type such as StripeAuthenticationError
+  if (error instanceof Error && 'type' in error && typeof error.type === 'string' && error.type.startsWith('Stripe')) {
+    if (error.type === 'StripeAuthenticationError' || error.type === 'StripePermissionError') {
+      return new ConfigurationError(message, { cause: error, remediation: 'The Stripe key was rejected; check STRIPE_TEST_KEY / STRIPE_LIVE_KEY.' });
+    }
+    return new PaymentError(message, {
+      cause: error,
+      retryable: error.type !== 'StripeInvalidRequestError',
+      details: { type: error.type, code: 'code' in error ? error.code : undefined }
+    });
+  }
+
+  if (NETWORK_ERRORS.test(message) || (error instanceof Error && error.name === 'TimeoutError')) {
+    return categoryError(fallback, message, { cause: error, retryable: true });
+  }
+
+  return categoryError(fallback, message, { cause: error });
+}
+
+function categoryError(category: ErrorCategory, message: string, options: AgentErrorOptions): AgentError {
+  switch (category) {
+    case 'model': return new ModelError(message, options);
+    case 'model_output': return new ModelOutputError(message, options);
+    case 'validation': return new ValidationError(message, options);
+    case 'build': return new BuildError(message, options);
+    case 'deploy': return new DeployError(message, options);
+    case 'payment': return new PaymentError(message, options);
+    case 'notification': return new NotificationError(message, options);
+    case 'configuration': return new ConfigurationError(message, options);
+    case 'budget': return new BudgetError(message, options);
+    case 'internal': return new InternalError(message, options);
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * THE EVENT BUS
+ * Typed progress events per order, buffered for Last-Event-ID replay.
+ * Event ids are "<boot id>-<sequence>": after a restart the sequence starts
+ * over, so an id from an earlier process replays the whole current buffer.
+ * An order's buffer is dropped shortly after it reaches a terminal phase.
+ */
+
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { ProjectState } from './types';
+import { currentContext } from './run-control';
+
+export type AgentEvent =
+  | { type: 'phase'; phase: ProjectState['status']; previous?: ProjectState['status'] }
+  | { type: 'step_started'; stepId: string; title: string; attempt: number }
+  | { type: 'step_finished'; stepId: string; title: string; status: 'completed' | 'failed' | 'skipped'; error?: string }
+  | { type: 'retry'; stepId: string; attempt: number; error: string }
+  | { type: 'outage'; service: string; retryAt: string; error: string }
+  | { type: 'validation'; eye: string; passed: boolean; stepId?: string; error?: string }
+  | { type: 'build_output'; source: string; line: string }
+  | { type: 'stripe'; action: string; mode: 'test' | 'live'; resourceId?: string };
+
+export type AgentEventEnvelope = AgentEvent & {
+  id: number; // Sequence within this process
+  eventId: string; // SSE id: boot id and sequence
+  orderId: string;
+  timestamp: string;
+};
+
+type Listener = (event: AgentEventEnvelope) => void;
+
+const TERMINAL_PHASES: ProjectState['status'][] = ['completed', 'failed', 'cancelled'];
+// Long enough for a client that just saw the last event to reconnect
+const RELEASE_DELAY_MS = 60 * 1000;
+
+export class AgentEventBus {
+  private emitter: EventEmitter;
+  private buffers: Map<string, AgentEventEnvelope[]>;
+  private sequences: Map<string, number>;
+  private releases: Map<string, NodeJS.Timeout>;
+  private bufferSize: number;
+  readonly bootId: string;
+
+  constructor(bufferSize: number = 1000) {
+    this.emitter = new EventEmitter();
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+    this.buffers = new Map();
+    this.sequences = new Map();
+    this.releases = new Map();
+    this.bufferSize = bufferSize;
+    this.bootId = crypto.randomBytes(4).toString('hex');
+  }
+
+  /**
+   * Publish an event for an order
+   */
+  emit(orderId: string, event: AgentEvent): AgentEventEnvelope {
+    const id = (this.sequences.get(orderId) || 0) + 1;
+    this.sequences.set(orderId, id);
+
+    const envelope: AgentEventEnvelope = {
+      ...event,
+      id,
+      eventId: `${this.bootId}-${id}`,
+      orderId,
+      timestamp: new Date().toISOString()
+    };
+
+    const buffer = this.buffers.get(orderId) || [];
+    buffer.push(envelope);
+    if (buffer.length > this.bufferSize) {
+      buffer.splice(0, buffer.length - this.bufferSize);
+    }
+    this.buffers.set(orderId, buffer);
+
+    // A later event (e.g. a failed deployment going back to review) keeps the buffer
+    clearTimeout(this.releases.get(orderId));
+    this.releases.delete(orderId);
+    if (event.type === 'phase' && TERMINAL_PHASES.includes(event.phase)) {
+      const timer = setTimeout(() => {
+        this.buffers.delete(orderId);
+        this.releases.delete(orderId);
+      }, RELEASE_DELAY_MS);
+      timer.unref();
+      this.releases.set(orderId, timer);
+    }
+
+    this.emitter.emit(orderId, envelope);
+    return envelope;
+  }
+
+  /**
+   * Sequence to replay after for a Last-Event-ID. Ids from another process
+   * (or malformed ones) replay everything buffered.
+   */
+  sequenceOf(lastEventId: string | undefined): number {
+    const match = (lastEventId || '').match(/^([0-9a-f]+)-(\d+)$/);
+    return match && match[1] === this.bootId ? parseInt(match[2], 10) : 0;
+  }
+
+  /**
+   * Publish an event for the order of the current run, if there is one.
+   * Lets deep components (builders, Stripe) report without knowing the orderId.
+   */
+  emitCurrent(event: AgentEvent): void {
+    const context = currentContext();
+    if (context) {
+      this.emit(context.orderId, event);
+    }
+  }
+
+  /**
+   * Emit one build_output event per non-empty line of a process output chunk
+   */
+  emitOutput(source: string, chunk: string): void {
+    for (const line of chunk.split(/\r?\n/)) {
+      if (line.trim()) {
+        this.emitCurrent({ type: 'build_output', source, line });
+      }
+    }
+  }
+
+  /**
+   * Buffered events with id greater than afterId
+   */
+  replay(orderId: string, afterId: number = 0): AgentEventEnvelope[] {
+    return (this.buffers.get(orderId) || []).filter(event => event.id > afterId);
+  }
+
+  subscribe(orderId: string, listener: Listener): () => void {
+    this.emitter.on(orderId, listener);
+    return () => {
+      this.emitter.off(orderId, listener);
+    };
+  }
+}
+
+// Singleton instance
+export const agentEvents = new AgentEventBus();
@@ -3,21 +3,33 @@
  * Main execution loop with Six Eyes validation
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { ProjectState, PlanStep, SixEyesResult } from './types';
+import { ProjectState, PlanStep, SixEyesResult, FileChange, ValidationPolicy, StepAttempt } from './types';
 import { PerceptionLayer } from './perception-layer';
 import { StripeAutomator } from './stripe-automator';
+import { describePricing, resolvePricing } from './pricing';
 import { ErrorHandler } from './error-handler';
-import fs from 'fs/promises';
+import { AgentError, ModelOutputError, ValidationError, toAgentError } from './errors';
+import { checkpoint, runInStep } from './run-control';
+import { models } from './models';
+import { agentEvents } from './event-bus';
+import {
+  applyManifest,
+  listWorkspaceFiles,
+  parseManifest,
+  readWorkspaceFile,
+  resolvePatches,
+  PatchConflict
+} from './workspace';
 import path from 'path';
-import { spawn } from 'child_process';
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+// Upper bound on existing file contents included in a step prompt
+const MAX_CONTEXT_CHARS = 60000;
 
 export class Executor {
   private perceptionLayer: PerceptionLayer;
   private stripeAutomator: StripeAutomator;
   private maxRetries: number = 3;
+  private stepConcurrency: number = Math.max(1, parseInt(process.env.AGENT_STEP_CONCURRENCY || '3', 10) || 3);
 
   constructor() {
     this.perceptionLayer = new PerceptionLayer();
@@ -26,15 +38,17 @@ export class Executor {
 
   /**
    * Execute a single plan step
+   * The model returns a manifest of file operations which is applied to the workspace root.
+   * Steps that build on existing files see their current contents and may return patches;
+   * a patch that does not apply falls back to asking for the whole file.
+   * feedback carries the errors of the previous attempt, if any.
    */
   async executeStep(
     step: PlanStep,
     projectState: ProjectState,
-    previousCode: string = ''
-  ): Promise<{ success: boolean; code?: string; error?: string }> {
+    feedback?: string
+  ): Promise<{ success: boolean; code?: string; files?: FileChange[]; error?: AgentError }> {
     console.log(`\n[Executor] Executing: ${step.title}`);
-    
-    const model = genAI.getGenerativeModel({ model: 'gemini-1.5-pro' });
 
     // Build context from previous steps
     const completedSteps = projectState.plan
@@ -42,6 +56,13 @@ export class Executor {
       .map(s => `${s.title}: ${s.description}`)
       .join('\n');
 
+    const existingFiles = await listWorkspaceFiles(projectState.workspaceDir);
+    const relevantFiles = await this.collectRelevantFiles(step, projectState, existingFiles);
+
+    const fileContext = relevantFiles
+      .map(file => `--- ${file.path} ---\n${file.content}`)
+      .join('\n\n');
+
     const prompt = `You are an expert full-stack developer working on a project step by step.
 
 Project: ${projectState.project_name}
@@ -52,199 +73,534 @@ ${completedSteps || 'None yet'}
 
 Current Step: ${step.title}
 Description: ${step.description}
+${step.produces?.length ? `Expected files: ${step.produces.join(', ')}\n` : ''}
+Files already in the project:
+${existingFiles.length ? existingFiles.join('\n') : 'None yet'}
 
-${previousCode ? `Previous Code:\n${previousCode}\n\n` : ''}
-
+${fileContext ? `Current contents of relevant files:\n${fileContext}\n\n` : ''}${feedback ? `Your previous attempt at this step was rejected:\n${feedback}\nFix these problems in this attempt.\n\n` : ''}
 Generate complete, production-ready code for this step.
 
 Requirements:
-1. Write clean, maintainable TypeScript/JavaScript code
+1. Write clean, maintainable code in whatever languages the step needs (HTML, CSS, TypeScript, JSON, Gradle, Kotlin...)
 2. Include all necessary imports
 3. Add error handling
 4. Follow best practices
 5. If this involves Stripe integration, use the latest Stripe API patterns (payment_method, not deprecated 'source' or 'card')
-6. Return ONLY the code, no explanations or markdown formatting
-
-Generate the code now:`;
+6. Paths are relative to the project root, which is what gets deployed (e.g. "index.html", "src/app.ts", "android/app/build.gradle")
+7. "create" and "modify" must contain the complete file content; "delete" needs no content
+8. To change an existing file, prefer "patch" with "edits": each "search" must be copied exactly from the current file and match once. A unified diff in "diff" is also accepted.
+
+Respond with ONLY a JSON object in this format, no markdown or explanations:
+{
+  "files": [
+    { "path": "index.html", "operation": "create", "content": "<!DOCTYPE html>..." },
+    { "path": "src/app.ts", "operation": "patch", "edits": [{ "search": "const port = 3000;", "replace": "const port = Number(process.env.PORT) || 3000;" }] },
+    { "path": "src/old.ts", "operation": "delete" }
+  ]
+}`;
 
     try {
-      const result = await model.generateContent(prompt);
-      let code = result.response.text();
+      const result = await models.generate('coder', prompt);
+      const manifest = parseManifest(result.text);
+
+      if (!manifest.files) {
+        return {
+          success: false,
+          error: new ModelOutputError(`Invalid file manifest: ${manifest.errors.join('; ')}`)
+        };
+      }
 
-      // Clean markdown formatting if present
-      code = code.replace(/```typescript\n?/g, '')
-                 .replace(/```javascript\n?/g, '')
-                 .replace(/```\n?/g, '')
-                 .trim();
+      let { files, conflicts } = await resolvePatches(projectState.workspaceDir, manifest.files);
+
+      if (conflicts.length > 0) {
+        console.warn(`[Executor] ${conflicts.length} patch(es) did not apply, requesting full rewrites:`, conflicts);
+        const rewrites = await this.requestFullRewrites(prompt, projectState, conflicts);
+        if (!rewrites.files) {
+          return { success: false, error: new ModelOutputError(rewrites.error || 'Patch conflicts not resolved') };
+        }
+        files = files.concat(rewrites.files);
+      }
 
-      // Save code to workspace
-      await this.saveCodeToWorkspace(projectState.workspaceDir, step.id, code);
+      // Write files to the workspace root
+      const written = await applyManifest(projectState.workspaceDir, files);
+      console.log(`[Executor] Applied ${written.length} file changes: ${written.join(', ')}`);
 
-      return { success: true, code };
+      return {
+        success: true,
+        code: this.summarizeFiles(files),
+        files
+      };
     } catch (error: any) {
+      // A cancelled/paused run must not be counted as a failed attempt
+      checkpoint();
       console.error(`[Executor] Error generating code:`, error);
-      return { success: false, error: error.message };
+      return { success: false, error: toAgentError(error, 'model') };
     }
   }
 
   /**
-   * Save generated code to workspace
+   * Current contents of the files a step is likely to touch: what it consumes,
+   * what it produces, and what its dependencies wrote. Bounded to keep prompts small.
    */
-  private async saveCodeToWorkspace(workspaceDir: string, stepId: string, code: string): Promise<void> {
-    const codeDir = path.join(workspaceDir, 'generated');
-    await fs.mkdir(codeDir, { recursive: true });
-    
-    const filename = `${stepId}.ts`;
-    const filepath = path.join(codeDir, filename);
-    
-    await fs.writeFile(filepath, code, 'utf-8');
-    console.log(`[Executor] Code saved to ${filepath}`);
+  private async collectRelevantFiles(
+    step: PlanStep,
+    projectState: ProjectState,
+    existingFiles: string[]
+  ): Promise<{ path: string; content: string }[]> {
+    const candidates = new Set<string>([...(step.consumes || []), ...(step.produces || [])]);
+
+    for (const depId of step.dependsOn || []) {
+      const dep = projectState.plan.find(s => s.id === depId);
+      for (const file of dep?.files || []) {
+        if (file.operation !== 'delete') candidates.add(file.path);
+      }
+    }
+
+    const existing = new Set(existingFiles);
+    const relevant: { path: string; content: string }[] = [];
+    let budget = MAX_CONTEXT_CHARS;
+
+    for (const filePath of Array.from(candidates)) {
+      const normalized = path.posix.normalize(filePath);
+      if (!existing.has(normalized)) continue;
+
+      const content = await readWorkspaceFile(projectState.workspaceDir, normalized);
+      if (content === undefined || content.length > budget) continue;
+
+      relevant.push({ path: normalized, content });
+      budget -= content.length;
+    }
+
+    return relevant;
   }
 
   /**
-   * Validate code with Six Eyes
+   * Ask the model for complete contents of files whose patches did not apply
+   */
+  private async requestFullRewrites(
+    originalPrompt: string,
+    projectState: ProjectState,
+    conflicts: PatchConflict[]
+  ): Promise<{ files?: FileChange[]; error?: string }> {
+    const current = await Promise.all(conflicts.map(async conflict => {
+      const content = await readWorkspaceFile(projectState.workspaceDir, conflict.path);
+      return `--- ${conflict.path} (${conflict.reason}) ---\n${content ?? '(file does not exist)'}`;
+    }));
+
+    const prompt = `${originalPrompt}
+
+Your patches for these files did not apply to their current contents:
+${current.join('\n\n')}
+
+Return a JSON manifest with the COMPLETE new content of each of these files, using "modify" (or "create" if the file does not exist). Do not use "patch".`;
+
+    const result = await models.generate('coder', prompt);
+    const manifest = parseManifest(result.text);
+
+    if (!manifest.files) {
+      return { error: `Invalid rewrite manifest: ${manifest.errors.join('; ')}` };
+    }
+
+    const expected = new Set(conflicts.map(c => c.path));
+    const rewrites = manifest.files.filter(file => expected.has(file.path) && file.operation !== 'patch');
+    const missing = Array.from(expected).filter(p => !rewrites.some(file => file.path === p));
+
+    if (missing.length > 0) {
+      return { error: `Patch conflicts not resolved for: ${missing.join(', ')}` };
+    }
+
+    return { files: rewrites };
+  }
+
+  /**
+   * Flatten a manifest into one annotated source string (for validation and review)
+   */
+  private summarizeFiles(files: FileChange[]): string {
+    return files
+      .map(file => file.operation === 'delete'
+        ? `// File: ${file.path} (deleted)`
+        : `// File: ${file.path}\n${file.content}`)
+      .join('\n\n');
+  }
+
+  /**
+   * Validate code with Six Eyes, running only the eyes in the policy
    */
   async validateCode(
     code: string,
     projectState: ProjectState,
-    step: PlanStep
+    step: PlanStep,
+    policy: ValidationPolicy = this.validationPolicy(step)
   ): Promise<SixEyesResult> {
-    console.log(`[Executor] Running Six Eyes validation for: ${step.title}`);
-
-    // Determine API type from step
-    let apiType: 'stripe' | 'firebase' | 'general' = 'general';
-    if (step.title.toLowerCase().includes('stripe') || step.title.toLowerCase().includes('payment')) {
-      apiType = 'stripe';
-    } else if (step.title.toLowerCase().includes('firebase')) {
-      apiType = 'firebase';
-    }
+    console.log(`[Executor] Running Six Eyes validation for: ${step.title}`, policy);
 
-    // For now, we'll run a simplified validation
-    // In production, you'd start a dev server and get its URL
-    const serverUrl = process.env.DEV_SERVER_URL || 'http://localhost:3000';
+    const files = (step.files || [])
+      .filter(file => file.operation !== 'delete')
+      .map(file => file.path);
 
     const result = await this.perceptionLayer.runSixEyes(
       code,
       projectState.workspaceDir,
-      serverUrl,
-      apiType
+      files,
+      policy
     );
 
+    for (const eye of ['docVerify', 'staticAnalysis', 'syntaxGate', 'testRunner', 'visualProof'] as const) {
+      if (result[eye].skipped) continue;
+      agentEvents.emit(projectState.orderId, {
+        type: 'validation',
+        eye,
+        passed: result[eye].passed,
+        stepId: step.id,
+        error: result[eye].error
+      });
+    }
+
     return result;
   }
 
+  /**
+   * Which eyes apply to a step, judged by the files it wrote:
+   * every step gets doc verification, any written file adds static
+   * analysis, TypeScript adds the syntax gate, code or test files run the
+   * workspace tests, and UI files add the visual check against a local
+   * dev server.
+   */
+  validationPolicy(step: PlanStep): ValidationPolicy {
+    const paths = (step.files || [])
+      .filter(file => file.operation !== 'delete')
+      .map(file => file.path.toLowerCase());
+
+    return {
+      docVerify: true,
+      staticAnalysis: paths.length > 0,
+      syntaxGate: paths.some(p => /\.(ts|tsx|mts|cts)$/.test(p) && !p.endsWith('.d.ts')),
+      testRunner: paths.some(p => /\.([cm]?[jt]sx?|vue|svelte)$/.test(p) && !p.endsWith('.d.ts')),
+      visualProof: paths.some(p => /\.(html?|css|scss|jsx|tsx|vue|svelte)$/.test(p))
+    };
+  }
+
+  /**
+   * Readable list of the failed eyes, used as feedback for the next attempt.
+   * Failed tests are listed one per line by the test runner eye.
+   */
+  private validationErrors(validation: SixEyesResult): string {
+    return (['docVerify', 'staticAnalysis', 'syntaxGate', 'testRunner', 'visualProof'] as const)
+      .filter(eye => !validation[eye].passed)
+      .map(eye => `- ${eye}: ${validation[eye].error || 'failed'}`)
+      .join('\n');
+  }
+
   /**
    * Main execution loop
+   * Walks the plan as a dependency graph: every step whose dependencies have
+   * completed is started (up to stepConcurrency at once), and steps downstream
+   * of a failure are skipped. Completed steps are never re-run, so an
+   * interrupted run resumes where it stopped.
+   * onProgress is called after every step transition so callers can persist state.
    */
-  async executeProject(projectState: ProjectState): Promise<ProjectState> {
+  async executeProject(
+    projectState: ProjectState,
+    onProgress?: (projectState: ProjectState) => Promise<void>
+  ): Promise<ProjectState> {
     console.log(`\n[Executor] Starting project execution: ${projectState.project_name}`);
     
     projectState.status = 'coding';
     let consecutiveFailures = 0;
+    let halted = false;
+    let interruption: unknown;
 
-    for (let i = 0; i < projectState.plan.length; i++) {
-      const step = projectState.plan[i];
-      
-      if (step.status === 'completed') {
-        continue;
-      }
+    const plan = projectState.plan;
+    const dependencies = this.resolveDependencies(plan);
+    const running = new Map<string, Promise<{ step: PlanStep; success: boolean; error?: AgentError; thrown?: unknown }>>();
 
-      step.status = 'in_progress';
-      projectState.currentStep = i;
+    while (true) {
+      if (!halted && !interruption) {
+        this.skipBlockedSteps(projectState, dependencies);
 
-      let stepSucceeded = false;
-      let lastError = '';
+        const ready = plan.filter(step =>
+          step.status === 'pending' &&
+          !running.has(step.id) &&
+          dependencies.get(step.id)!.every(dep => plan.find(s => s.id === dep)?.status === 'completed')
+        );
 
-      // Try up to maxRetries times
-      while (step.retries < this.maxRetries && !stepSucceeded) {
-        console.log(`\n[Executor] Attempt ${step.retries + 1}/${this.maxRetries} for: ${step.title}`);
+        for (const step of ready) {
+          if (running.size >= this.stepConcurrency) break;
 
-        // Generate code
-        const execution = await this.executeStep(step, projectState);
-        
-        if (!execution.success) {
-          lastError = execution.error || 'Unknown error';
-          step.retries++;
-          continue;
+          step.status = 'in_progress';
+          projectState.currentStep = plan.indexOf(step);
+          await onProgress?.(projectState);
+
+          running.set(
+            step.id,
+            runInStep(step.id, () => this.runStep(step, projectState)).then(
+              result => ({ step, ...result }),
+              thrown => ({ step, success: false, thrown })
+            )
+          );
         }
+      }
 
-        step.code = execution.code;
+      if (running.size === 0) break;
 
-        // Validate with Six Eyes (simplified for now)
-        // In production, you would run full validation
-        const isPaymentStep = step.title.toLowerCase().includes('payment') || 
-                             step.title.toLowerCase().includes('stripe');
-        
-        if (isPaymentStep) {
-          // Run Stripe automation
-          try {
-            const paymentSetup = await this.stripeAutomator.automatePaymentSetup(
-              projectState,
-              99, // Default price
-              'usd'
-            );
-
-            projectState.stripeProductId = paymentSetup.productId;
-            projectState.stripePriceId = paymentSetup.priceId;
-            projectState.stripePaymentLink = paymentSetup.paymentLink;
-
-            // Inject payment link into code if it's HTML
-            if (step.code && step.code.includes('<html')) {
-              step.code = this.stripeAutomator.injectPaymentLink(
-                step.code,
-                paymentSetup.paymentLink
-              );
-              await this.saveCodeToWorkspace(projectState.workspaceDir, step.id, step.code);
-            }
+      const { step, success, error, thrown } = await Promise.race(running.values());
+      running.delete(step.id);
 
-            console.log(`[Executor] ✅ Stripe payment setup complete`);
-          } catch (error: any) {
-            console.error(`[Executor] ❌ Stripe automation failed:`, error);
-            lastError = error.message;
-            step.retries++;
-            continue;
-          }
-        }
+      if (thrown) {
+        // Cancelled/paused (or crashed): let the other in-flight steps unwind, then rethrow
+        interruption = interruption || thrown;
+        continue;
+      }
 
-        // Mark as succeeded
-        stepSucceeded = true;
-        step.status = 'completed';
+      agentEvents.emit(projectState.orderId, {
+        type: 'step_finished',
+        stepId: step.id,
+        title: step.title,
+        status: success ? 'completed' : 'failed',
+        error: error?.message
+      });
+
+      if (success) {
         consecutiveFailures = 0;
-        console.log(`[Executor] ✅ Step completed: ${step.title}`);
+        await onProgress?.(projectState);
+        continue;
       }
 
-      if (!stepSucceeded) {
-        step.status = 'failed';
-        consecutiveFailures++;
-        
-        console.error(`[Executor] ❌ Step failed after ${this.maxRetries} attempts: ${step.title}`);
-        console.error(`[Executor] Error: ${lastError}`);
-
-        // Hallucination Block: Stop after 3 consecutive failures
-        projectState.failureCount = consecutiveFailures;
-        
-        if (ErrorHandler.shouldHalt(projectState)) {
-          console.error(`[Executor] 🛑 HALTED: 3 consecutive failures. Stopping to prevent token burn.`);
-          ErrorHandler.logProjectState(projectState, 'Halted Project');
-          projectState.status = 'failed';
-          return projectState;
-        }
+      step.status = 'failed';
+      consecutiveFailures++;
+      
+      console.error(`[Executor] ❌ Step failed after ${step.retries} attempt(s): ${step.title}`);
+      console.error(`[Executor] Error (${error?.category}): ${error?.message}`);
+
+      // Hallucination Block: Stop after 3 consecutive failures
+      projectState.failureCount = consecutiveFailures;
+      await onProgress?.(projectState);
+
+      // Every other step would hit the same misconfiguration
+      if (!halted && error?.category === 'configuration') {
+        console.error(`[Executor] 🛑 HALTED: configuration error. ${error.remediation}`);
+        projectState.failureReason = `Configuration error: ${error.message}`;
+        halted = true;
+      }
+      
+      if (!halted && ErrorHandler.shouldHalt(projectState)) {
+        console.error(`[Executor] 🛑 HALTED: 3 consecutive failures. Stopping to prevent token burn.`);
+        projectState.failureReason = `Halted after ${projectState.failureCount} consecutive step failures`;
+        halted = true;
       }
     }
 
+    if (interruption) {
+      throw interruption;
+    }
+
+    if (halted) {
+      ErrorHandler.logProjectState(projectState, 'Halted Project');
+      projectState.status = 'failed';
+      return projectState;
+    }
+
     // All steps completed
-    const allCompleted = projectState.plan.every(s => s.status === 'completed');
+    const allCompleted = plan.every(s => s.status === 'completed');
     
     if (allCompleted) {
       console.log(`\n[Executor] ✅ All steps completed successfully!`);
       projectState.status = 'awaiting_approval';
     } else {
       projectState.status = 'failed';
+      projectState.failureReason = `Steps did not complete: ${plan.filter(s => s.status !== 'completed').map(s => s.title).join(', ')}`;
     }
 
     return projectState;
   }
 
+  /**
+   * Run one step with retries: generate, validate with Six Eyes, then payment
+   * automation for Stripe steps. Every attempt is recorded on step.attempts.
+   * Failures that retrying cannot fix (e.g. configuration) end the step at once.
+   */
+  private async runStep(
+    step: PlanStep,
+    projectState: ProjectState
+  ): Promise<{ success: boolean; error?: AgentError }> {
+    let lastError: AgentError | undefined;
+    let feedback: string | undefined;
+    step.attempts = step.attempts || [];
+
+    // Try up to maxRetries times
+    while (step.retries < this.maxRetries) {
+      checkpoint();
+      console.log(`\n[Executor] Attempt ${step.retries + 1}/${this.maxRetries} for: ${step.title}`);
+      agentEvents.emit(projectState.orderId, {
+        type: 'step_started',
+        stepId: step.id,
+        title: step.title,
+        attempt: step.retries + 1
+      });
+
+      const attempt: StepAttempt = {
+        attempt: step.attempts.length + 1,
+        timestamp: new Date().toISOString(),
+        files: []
+      };
+      step.attempts.push(attempt);
+
+      // Generate code
+      const execution = await this.executeStep(step, projectState, feedback);
+      
+      if (!execution.success) {
+        lastError = this.failAttempt(projectState, step, attempt, execution.error || new ModelOutputError('Unknown error'));
+        // Only malformed output is worth telling the model about
+        feedback = lastError.category === 'model_output' ? lastError.message : feedback;
+        if (!lastError.retryable) break;
+        continue;
+      }
+
+      step.code = execution.code;
+      step.files = execution.files;
+      attempt.files = (execution.files || []).map(file => file.path);
+
+      // Validate with Six Eyes
+      attempt.policy = this.validationPolicy(step);
+      const validation = await this.validateCode(execution.code || '', projectState, step, attempt.policy);
+      attempt.validation = validation;
+
+      if (!validation.overallPassed) {
+        checkpoint();
+        feedback = this.validationErrors(validation);
+        lastError = this.failAttempt(projectState, step, attempt, new ValidationError(`Six Eyes validation failed:\n${feedback}`, {
+          details: (['docVerify', 'staticAnalysis', 'syntaxGate', 'testRunner', 'visualProof'] as const).filter(eye => !validation[eye].passed)
+        }));
+        continue;
+      }
+
+      const isPaymentStep = step.title.toLowerCase().includes('payment') || 
+                           step.title.toLowerCase().includes('stripe');
+      
+      if (isPaymentStep) {
+        // Run Stripe automation (re-resolved each time: a revision can change the requirements)
+        try {
+          const pricing = resolvePricing(projectState);
+          console.log(`[Executor] 💳 Pricing from ${pricing.source}: ${describePricing(pricing).join('; ')}`);
+
+          const paymentSetup = await this.stripeAutomator.automatePaymentSetup(projectState, pricing);
+
+          projectState.resolvedPricing = pricing;
+          projectState.stripeProductId = paymentSetup.productId;
+          projectState.stripePriceId = paymentSetup.priceId;
+          projectState.stripePaymentLink = paymentSetup.paymentLink;
+          projectState.stripePaymentLinks = paymentSetup.paymentLinks;
+
+          // Inject payment link into the HTML pages this step wrote
+          const pages = (step.files || []).filter(file =>
+            file.operation !== 'delete' && /\.html?$/i.test(file.path) && file.content?.includes('<html')
+          );
+          if (pages.length > 0) {
+            for (const page of pages) {
+              page.content = this.stripeAutomator.injectPaymentLink(
+                page.content!,
+                paymentSetup.paymentLinks
+              );
+            }
+            await applyManifest(projectState.workspaceDir, pages);
+            step.code = this.summarizeFiles(step.files!);
+          }
+
+          console.log(`[Executor] ✅ Stripe payment setup complete`);
+        } catch (error: any) {
+          checkpoint();
+          console.error(`[Executor] ❌ Stripe automation failed:`, error);
+          lastError = this.failAttempt(projectState, step, attempt, toAgentError(error, 'payment'));
+          feedback = undefined; // Not a problem with the generated code
+          if (!lastError.retryable) break;
+          continue;
+        }
+      }
+
+      // Mark as succeeded
+      step.status = 'completed';
+      console.log(`[Executor] ✅ Step completed: ${step.title}`);
+      return { success: true };
+    }
+
+    return { success: false, error: lastError };
+  }
+
+  /**
+   * Dependency lists per step. Plans saved before steps declared
+   * dependencies run sequentially, as they always did.
+   */
+  private resolveDependencies(plan: PlanStep[]): Map<string, string[]> {
+    const dependencies = new Map<string, string[]>();
+    plan.forEach((step, index) => {
+      dependencies.set(
+        step.id,
+        step.dependsOn ?? (index > 0 ? [plan[index - 1].id] : [])
+      );
+    });
+    return dependencies;
+  }
+
+  /**
+   * Mark pending steps whose dependencies failed or were skipped, transitively
+   */
+  private skipBlockedSteps(projectState: ProjectState, dependencies: Map<string, string[]>): void {
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+
+      for (const step of projectState.plan) {
+        if (step.status !== 'pending') continue;
+
+        const blocker = dependencies.get(step.id)!
+          .map(dep => projectState.plan.find(s => s.id === dep))
+          .find(dep => dep && (dep.status === 'failed' || dep.status === 'skipped'));
+
+        if (blocker) {
+          step.status = 'skipped';
+          step.skipReason = `Upstream step "${blocker.title}" ${blocker.status}`;
+          changed = true;
+
+          console.warn(`[Executor] ⏭️  Skipping ${step.title}: ${step.skipReason}`);
+          agentEvents.emit(projectState.orderId, {
+            type: 'step_finished',
+            stepId: step.id,
+            title: step.title,
+            status: 'skipped',
+            error: step.skipReason
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Record a failed attempt on the step and the project's failure log
+   */
+  private failAttempt(projectState: ProjectState, step: PlanStep, attempt: StepAttempt, error: AgentError): AgentError {
+    ErrorHandler.recordFailure(projectState, error, { stepId: step.id });
+    attempt.error = error.message;
+    attempt.errorCategory = error.category;
+    step.retries++;
+    this.emitRetry(projectState, step, error);
+    return error;
+  }
+
+  /**
+   * Report a failed attempt (only when another attempt will follow)
+   */
+  private emitRetry(projectState: ProjectState, step: PlanStep, error: AgentError): void {
+    if (error.retryable && step.retries < this.maxRetries) {
+      agentEvents.emit(projectState.orderId, {
+        type: 'retry',
+        stepId: step.id,
+        attempt: step.retries + 1,
+        error: error.message
+      });
+    }
+  }
+
   /**
    * Deploy the project (called after approval)
    */
@@ -259,14 +615,14 @@ Generate the code now:`;
         console.log(`[Executor] Switching Stripe to LIVE mode...`);
         const liveStripe = StripeAutomator.switchToLiveMode();
         
-        // Recreate product and payment link in live mode
+        // Recreate products and payment links in live mode, at the prices that were approved
         const livePaymentSetup = await liveStripe.automatePaymentSetup(
           projectState,
-          99,
-          'usd'
+          projectState.resolvedPricing || resolvePricing(projectState)
         );
 
         projectState.stripePaymentLink = livePaymentSetup.paymentLink;
+        projectState.stripePaymentLinks = livePaymentSetup.paymentLinks;
         console.log(`[Executor] ✅ Live payment link: ${livePaymentSetup.paymentLink}`);
       }
 
@@ -279,7 +635,9 @@ Generate the code now:`;
       return { success: true, url: deploymentUrl };
     } catch (error: any) {
       console.error(`[Executor] Deployment failed:`, error);
-      return { success: false, error: error.message };
+      // The only external call here is the live Stripe setup
+      const failure = ErrorHandler.recordFailure(projectState, error, { fallback: 'payment' });
+      return { success: false, error: failure.message };
     }
   }
 }
@@ -9,17 +9,25 @@ export { Planner } from './planner';
 export { Executor } from './executor';
 export { StripeAutomator } from './stripe-automator';
 export { Notifier } from './notifier';
+export { notifications, NotificationDispatcher } from './notifications';
 export { LogisticsExecutor } from './logistics-executor';
 export { AndroidBuilder, VercelDeployer } from './logistics';
+export { agentEvents, AgentEventBus } from './event-bus';
+export { models, ModelRouter } from './models';
 
 export type {
   ProjectOrder,
   ProjectState,
   PlanStep,
   ValidationResult,
-  SixEyesResult
+  SixEyesResult,
+  PricingPlan
 } from './types';
 
+export type { AgentEvent, AgentEventEnvelope } from './event-bus';
+export type { ModelRole, ModelProvider, ModelResponse } from './models';
+export type { Notification, NotificationChannel, NotificationEvent } from './notifications';
+
 export type {
   AndroidBuildResult,
   VercelDeployResult,
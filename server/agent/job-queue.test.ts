@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobQueue } from './job-queue';
+
+/**
+ * A job that records its start and runs until finish() is called
+ */
+function job(started: string[], id: string) {
+  let finish!: () => void;
+  const done = new Promise<void>(resolve => { finish = resolve; });
+  return {
+    run: async () => {
+      started.push(id);
+      await done;
+    },
+    finish
+  };
+}
+
+// Let settled jobs hand their worker slot on
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+test('runs higher priority first, equal priority in arrival order', async () => {
+  const queue = new JobQueue({ concurrency: 1, phaseLimits: {} });
+  const started: string[] = [];
+  const first = job(started, 'first');
+  const low = job(started, 'low');
+  const normal = job(started, 'normal');
+  const urgent = job(started, 'urgent');
+
+  queue.enqueue('first', first.run);
+  queue.enqueue('low', low.run, -1);
+  queue.enqueue('normal', normal.run);
+  queue.enqueue('urgent', urgent.run, 10);
+
+  assert.deepEqual([queue.getPosition('urgent'), queue.getPosition('normal'), queue.getPosition('low')], [1, 2, 3]);
+
+  for (const next of [first, urgent, normal, low]) {
+    next.finish();
+    await settle();
+  }
+
+  assert.deepEqual(started, ['first', 'urgent', 'normal', 'low']);
+});
+
+test('holds stop new jobs from starting until every hold is released', async () => {
+  const queue = new JobQueue({ concurrency: 2, phaseLimits: {} });
+  const started: string[] = [];
+
+  queue.hold('anthropic outage');
+  queue.hold('stripe outage');
+  queue.enqueue('order-1', job(started, 'order-1').run);
+
+  queue.release('anthropic outage');
+  assert.deepEqual(started, []);
+  assert.deepEqual(queue.getStats().held, ['stripe outage']);
+
+  queue.release('stripe outage');
+  assert.deepEqual(started, ['order-1']);
+});
+
+test('a job re-queued while its previous run unwinds starts once that run settles', async () => {
+  const queue = new JobQueue({ concurrency: 2, phaseLimits: {} });
+  const started: string[] = [];
+  const previous = job(started, 'previous');
+  const resumed = job(started, 'resumed');
+
+  queue.enqueue('order-1', previous.run);
+  queue.enqueue('order-1', resumed.run);
+  queue.enqueue('order-1', job(started, 'duplicate').run);
+
+  assert.deepEqual(started, ['previous']);
+  assert.equal(queue.getStats().queued, 1);
+
+  previous.finish();
+  await settle();
+
+  assert.deepEqual(started, ['previous', 'resumed']);
+  assert.equal(queue.isRunning('order-1'), true);
+  resumed.finish();
+});
+
+test('phase limits bound concurrent runs of a phase', async () => {
+  const queue = new JobQueue({ concurrency: 3, phaseLimits: { 'android-build': 1 } });
+  const started: string[] = [];
+  const builds = ['a', 'b'].map(id => job(started, id));
+
+  const runs = builds.map(build => queue.runPhase('android-build', build.run));
+  await settle();
+  assert.deepEqual(started, ['a']);
+
+  builds[0].finish();
+  await settle();
+  assert.deepEqual(started, ['a', 'b']);
+
+  builds[1].finish();
+  await Promise.all(runs);
+});
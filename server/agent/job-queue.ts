@@ -0,0 +1,221 @@
+/**
+ * THE JOB QUEUE
+ * Bounded worker pool for orders, with priority ordering and per-phase limits
+ * (e.g. only one Gradle build at a time regardless of worker count).
+ * Holds (e.g. while a provider is down) stop new jobs from starting.
+ */
+
+export interface JobQueueOptions {
+  concurrency: number;
+  phaseLimits: Record<string, number>;
+}
+
+interface QueuedJob {
+  id: string;
+  priority: number;
+  enqueuedAt: number;
+  sequence: number;
+  run: () => Promise<void>;
+}
+
+/**
+ * Counting semaphore used for per-phase limits
+ */
+class Semaphore {
+  private waiters: (() => void)[] = [];
+  active = 0;
+
+  constructor(readonly limit: number) {}
+
+  get waiting(): number {
+    return this.waiters.length;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiters.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+export class JobQueue {
+  private concurrency: number;
+  private pending: QueuedJob[] = [];
+  private running: Set<string> = new Set();
+  private deferred: Map<string, QueuedJob> = new Map(); // Re-queued while their previous run unwinds
+  private phases: Map<string, Semaphore> = new Map();
+  private holds: Set<string> = new Set();
+  private sequence = 0;
+
+  constructor(options: JobQueueOptions) {
+    this.concurrency = Math.max(1, options.concurrency);
+
+    for (const [phase, limit] of Object.entries(options.phaseLimits)) {
+      this.phases.set(phase, new Semaphore(Math.max(1, limit)));
+    }
+  }
+
+  /**
+   * Build a queue from AGENT_WORKER_CONCURRENCY and AGENT_PHASE_LIMITS ("android-build=1,web-build=2")
+   */
+  static fromEnvironment(): JobQueue {
+    const concurrency = parseInt(process.env.AGENT_WORKER_CONCURRENCY || '2', 10);
+    const phaseLimits: Record<string, number> = { 'android-build': 1 };
+
+    for (const entry of (process.env.AGENT_PHASE_LIMITS || '').split(',')) {
+      const [phase, limit] = entry.split('=').map(s => s.trim());
+      if (phase && limit && !isNaN(parseInt(limit, 10))) {
+        phaseLimits[phase] = parseInt(limit, 10);
+      }
+    }
+
+    return new JobQueue({ concurrency: isNaN(concurrency) ? 2 : concurrency, phaseLimits });
+  }
+
+  /**
+   * Add a job. Higher priority runs first; equal priority is FIFO.
+   * A job whose previous run is still finishing (e.g. resumed right after a
+   * pause) is queued as soon as that run settles.
+   */
+  enqueue(id: string, run: () => Promise<void>, priority: number = 0): void {
+    if (this.pending.some(job => job.id === id) || this.deferred.has(id)) {
+      console.warn(`[JobQueue] Job ${id} is already queued`);
+      return;
+    }
+
+    const job: QueuedJob = {
+      id,
+      priority,
+      enqueuedAt: Date.now(),
+      sequence: this.sequence++,
+      run
+    };
+
+    if (this.running.has(id)) {
+      this.deferred.set(id, job);
+      console.log(`[JobQueue] ${id} is still finishing its previous run - queued once it settles`);
+      return;
+    }
+
+    this.pending.push(job);
+    this.pending.sort((a, b) => b.priority - a.priority || a.sequence - b.sequence);
+
+    console.log(`[JobQueue] Queued ${id} (priority ${priority}, position ${this.getPosition(id)})`);
+    this.pump();
+  }
+
+  /**
+   * Remove a job that has not started yet
+   */
+  remove(id: string): boolean {
+    if (this.deferred.delete(id)) return true;
+    const index = this.pending.findIndex(job => job.id === id);
+    if (index === -1) return false;
+    this.pending.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * 1-based position among waiting jobs, or null if not waiting
+   */
+  getPosition(id: string): number | null {
+    const index = this.pending.findIndex(job => job.id === id);
+    return index === -1 ? null : index + 1;
+  }
+
+  isRunning(id: string): boolean {
+    return this.running.has(id);
+  }
+
+  /**
+   * Stop starting jobs until every hold is released. Running jobs are not affected.
+   */
+  hold(reason: string): void {
+    if (this.holds.has(reason)) return;
+    this.holds.add(reason);
+    console.log(`[JobQueue] ⏸️  Holding queue: ${reason}`);
+  }
+
+  release(reason: string): void {
+    if (!this.holds.delete(reason)) return;
+    console.log(`[JobQueue] ▶️  Released hold: ${reason}${this.holds.size ? ` (${this.holds.size} still held)` : ''}`);
+    this.pump();
+  }
+
+  /**
+   * Run fn inside a phase slot. Phases without a configured limit run unbounded.
+   */
+  async runPhase<T>(phase: string, fn: () => Promise<T>): Promise<T> {
+    const semaphore = this.phases.get(phase);
+    if (!semaphore) return fn();
+
+    if (semaphore.active >= semaphore.limit) {
+      console.log(`[JobQueue] Waiting for a free ${phase} slot (${semaphore.active}/${semaphore.limit} busy)`);
+    }
+
+    await semaphore.acquire();
+    try {
+      return await fn();
+    } finally {
+      semaphore.release();
+    }
+  }
+
+  getStats() {
+    const phases: Record<string, { limit: number; active: number; waiting: number }> = {};
+    this.phases.forEach((semaphore, phase) => {
+      phases[phase] = {
+        limit: semaphore.limit,
+        active: semaphore.active,
+        waiting: semaphore.waiting
+      };
+    });
+
+    return {
+      concurrency: this.concurrency,
+      running: this.running.size,
+      queued: this.pending.length + this.deferred.size,
+      held: Array.from(this.holds),
+      phases
+    };
+  }
+
+  /**
+   * Start waiting jobs while worker slots are free
+   */
+  private pump(): void {
+    while (this.holds.size === 0 && this.running.size < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      this.running.add(job.id);
+
+      const waitedMs = Date.now() - job.enqueuedAt;
+      console.log(`[JobQueue] Starting ${job.id} after ${waitedMs}ms in queue`);
+
+      job.run()
+        .catch(error => {
+          console.error(`[JobQueue] Job ${job.id} crashed:`, error);
+        })
+        .finally(() => {
+          this.running.delete(job.id);
+          const next = this.deferred.get(job.id);
+          if (next) {
+            this.deferred.delete(job.id);
+            this.enqueue(next.id, next.run, next.priority);
+          }
+          this.pump();
+        });
+    }
+  }
+}
@@ -6,15 +6,25 @@
 import { ProjectState } from './types';
 import { AndroidBuilder, VercelDeployer, MultiPlatformBuildResult } from './logistics';
 import { ErrorHandler } from './error-handler';
+import { JobQueue } from './job-queue';
 import path from 'path';
 
 export class LogisticsExecutor {
   private androidBuilder: AndroidBuilder;
   private vercelDeployer: VercelDeployer;
+  private queue?: JobQueue;
 
-  constructor() {
+  constructor(queue?: JobQueue) {
     this.androidBuilder = new AndroidBuilder();
     this.vercelDeployer = new VercelDeployer();
+    this.queue = queue;
+  }
+
+  /**
+   * Run a build phase inside the queue's per-phase limit (if a queue was provided)
+   */
+  private withPhase<T>(phase: string, fn: () => Promise<T>): Promise<T> {
+    return this.queue ? this.queue.runPhase(phase, fn) : fn();
   }
 
   /**
@@ -65,18 +75,22 @@ export class LogisticsExecutor {
       console.log('[LogisticsExecutor] 🌐 Building Web Platform...');
       
       try {
-        const webResult = await this.vercelDeployer.deployAndVerify(projectState.workspaceDir);
+        const webResult = await this.withPhase('web-build', () =>
+          this.vercelDeployer.deployAndVerify(projectState.workspaceDir)
+        );
         
         result.web = {
           success: webResult.success,
           previewUrl: webResult.previewUrl,
           screenshotPath: webResult.screenshotPath,
+          accessibility: webResult.accessibility,
           error: webResult.error
         };
 
         if (webResult.success) {
           projectState.webPreviewUrl = webResult.previewUrl;
           projectState.webScreenshotPath = webResult.screenshotPath;
+          projectState.webAccessibility = webResult.accessibility;
           console.log('[LogisticsExecutor] ✅ Web build successful');
         } else {
           console.error('[LogisticsExecutor] ❌ Web build failed:', webResult.error);
@@ -109,9 +123,11 @@ export class LogisticsExecutor {
         } else {
           projectState.androidPackageName = packageName;
           
-          const androidResult = await this.androidBuilder.verifyAndDeploy(
-            projectState.workspaceDir,
-            packageName
+          const androidResult = await this.withPhase('android-build', () =>
+            this.androidBuilder.verifyAndDeploy(
+              projectState.workspaceDir,
+              packageName
+            )
           );
 
           result.android = {
@@ -162,7 +178,9 @@ export class LogisticsExecutor {
       'android/app/build/outputs/bundle/release/app-release.aab'
     );
 
-    const deployResult = await this.androidBuilder.deployToPlayStore(aabPath);
+    const deployResult = await this.withPhase('android-deploy', () =>
+      this.androidBuilder.deployToPlayStore(aabPath)
+    );
 
     if (deployResult.passed) {
       console.log('[LogisticsExecutor] ✅ Android deployed to Google Play');
@@ -176,10 +194,12 @@ export class LogisticsExecutor {
   /**
    * Deploy Web to Vercel Production (after approval)
    */
-  async deployWebProduction(projectState: ProjectState): Promise<{ success: boolean; url?: string }> {
+  async deployWebProduction(projectState: ProjectState): Promise<{ success: boolean; url?: string; error?: string }> {
     console.log('[LogisticsExecutor] 🚀 Deploying Web to Vercel Production...');
 
-    const deployResult = await this.vercelDeployer.deployProduction(projectState.workspaceDir);
+    const deployResult = await this.withPhase('web-deploy', () =>
+      this.vercelDeployer.deployProduction(projectState.workspaceDir)
+    );
 
     if (deployResult.success) {
       console.log('[LogisticsExecutor] ✅ Web deployed to Vercel Production');
@@ -190,7 +210,8 @@ export class LogisticsExecutor {
     } else {
       console.error('[LogisticsExecutor] ❌ Web deployment failed:', deployResult.error);
       return {
-        success: false
+        success: false,
+        error: deployResult.error
       };
     }
   }
@@ -3,13 +3,15 @@
  * Builds, verifies, and deploys Android apps to Google Play Internal
  */
 
-import { spawn } from 'child_process';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import fs from 'fs/promises';
 import path from 'path';
 import { ValidationResult } from '../types';
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+import { currentSignal } from '../run-control';
+import { spawnProcess } from '../process';
+import { intercept } from '../cassette';
+import { models, hasVerdict, imagePart } from '../models';
+import { agentEvents } from '../event-bus';
+import { resilience, TRANSIENT_OUTPUT } from '../resilience';
 
 export interface AndroidBuildResult {
   success: boolean;
@@ -61,9 +63,10 @@ export class AndroidBuilder {
 
     // Run bundleRelease
     return new Promise((resolve) => {
-      const gradle = spawn('./gradlew', ['bundleRelease', '--stacktrace'], {
+      const gradle = spawnProcess('./gradlew', ['bundleRelease', '--stacktrace'], {
         cwd: androidDir,
-        shell: true
+        shell: true,
+        signal: currentSignal()
       });
 
       let stdout = '';
@@ -73,10 +76,12 @@ export class AndroidBuilder {
         const output = data.toString();
         stdout += output;
         console.log('[AndroidBuilder]', output.trim());
+        agentEvents.emitOutput('gradle', output);
       });
 
       gradle.stderr.on('data', (data) => {
         stderr += data.toString();
+        agentEvents.emitOutput('gradle', data.toString());
       });
 
       gradle.on('close', async (code) => {
@@ -135,9 +140,14 @@ export class AndroidBuilder {
     const androidDir = path.join(projectDir, 'android');
 
     return new Promise((resolve) => {
-      const gradle = spawn('./gradlew', ['assembleRelease'], {
+      const gradle = spawnProcess('./gradlew', ['assembleRelease'], {
         cwd: androidDir,
-        shell: true
+        shell: true,
+        signal: currentSignal()
+      });
+
+      gradle.on('error', () => {
+        resolve(null);
       });
 
       gradle.on('close', async (code) => {
@@ -177,7 +187,9 @@ export class AndroidBuilder {
 
     // Install APK
     return new Promise((resolve) => {
-      const adb = spawn(this.adbPath, ['install', '-r', apkPath]);
+      const adb = spawnProcess(this.adbPath, ['install', '-r', apkPath], {
+        signal: currentSignal()
+      });
 
       let output = '';
 
@@ -200,6 +212,13 @@ export class AndroidBuilder {
           });
         }
       });
+
+      adb.on('error', (error) => {
+        resolve({
+          passed: false,
+          error: `Failed to run adb: ${error.message}`
+        });
+      });
     });
   }
 
@@ -258,7 +277,9 @@ export class AndroidBuilder {
       const screenshotFile = fs.open(outputPath, 'w');
 
       screenshotFile.then(async (file) => {
-        const adb = spawn(this.adbPath, ['exec-out', 'screencap', '-p']);
+        const adb = spawnProcess(this.adbPath, ['exec-out', 'screencap', '-p'], {
+          signal: currentSignal()
+        });
 
         const writeStream = file.createWriteStream();
         adb.stdout.pipe(writeStream);
@@ -276,6 +297,13 @@ export class AndroidBuilder {
             });
           }
         });
+
+        adb.on('error', (error) => {
+          resolve({
+            passed: false,
+            error: `Failed to run adb: ${error.message}`
+          });
+        });
       }).catch((error: any) => {
         resolve({
           passed: false,
@@ -286,24 +314,16 @@ export class AndroidBuilder {
   }
 
   /**
-   * Vision Check - Verify app is running using Gemini
+   * Vision Check - Verify app is running using the vision model
    */
   async visionCheck(screenshotPath: string): Promise<ValidationResult> {
-    console.log('[AndroidBuilder] Running Gemini vision check...');
+    console.log('[AndroidBuilder] Running vision check...');
 
     try {
-      const model = genAI.getGenerativeModel({ model: 'gemini-1.5-pro' });
-      
       const imageData = await fs.readFile(screenshotPath);
-      const base64Image = imageData.toString('base64');
 
-      const result = await model.generateContent([
-        {
-          inlineData: {
-            data: base64Image,
-            mimeType: 'image/png'
-          }
-        },
+      const result = await models.generate('vision', [
+        imagePart(imageData),
         `Analyze this Android app screenshot. 
 
 Is this app running correctly? Look for:
@@ -315,10 +335,10 @@ Is this app running correctly? Look for:
 Respond with "RUNNING" if the app appears to be working, or describe the issue if there's a problem.`
       ]);
 
-      const response = result.response.text();
+      const response = result.text;
       console.log('[AndroidBuilder] Vision analysis:', response);
 
-      if (response.toUpperCase().includes('RUNNING')) {
+      if (hasVerdict(response, 'RUNNING')) {
         return {
           passed: true,
           details: { analysis: response }
@@ -362,13 +382,15 @@ Respond with "RUNNING" if the app appears to be working, or describe the issue i
       };
     }
 
-    return new Promise((resolve) => {
-      const fastlane = spawn('fastlane', [
+    return resilience.call('fastlane', () => new Promise<ValidationResult>((resolve) => {
+      const fastlane = spawnProcess('fastlane', [
         'supply',
         '--aab', aabPath,
         '--track', 'internal',
         '--json_key', jsonKeyPath
-      ]);
+      ], {
+        signal: currentSignal()
+      });
 
       let output = '';
 
@@ -376,10 +398,12 @@ Respond with "RUNNING" if the app appears to be working, or describe the issue i
         const text = data.toString();
         output += text;
         console.log('[Fastlane]', text.trim());
+        agentEvents.emitOutput('fastlane', text);
       });
 
       fastlane.stderr.on('data', (data) => {
         output += data.toString();
+        agentEvents.emitOutput('fastlane', data.toString());
       });
 
       fastlane.on('close', (code) => {
@@ -393,15 +417,39 @@ Respond with "RUNNING" if the app appears to be working, or describe the issue i
           });
         }
       });
+
+      fastlane.on('error', (error) => {
+        resolve({
+          passed: false,
+          error: `Failed to run fastlane: ${error.message}`
+        });
+      });
+    }), {
+      // Play API hiccups (timeouts, 5xx, quota) are worth another upload attempt
+      transientResult: result => !result.passed && TRANSIENT_OUTPUT.test(result.error || '') ? result.error : undefined
     });
   }
 
   /**
    * Full Android Six Eyes verification pipeline
+   * Recorded as one interaction: replay restores the screenshot instead of building.
    */
   async verifyAndDeploy(
     projectDir: string,
     packageName: string
+  ): Promise<AndroidBuildResult> {
+    return intercept(
+      'build',
+      'android build',
+      { projectDir, packageName },
+      () => this.runVerifyAndDeploy(projectDir, packageName),
+      result => [result.screenshotPath]
+    );
+  }
+
+  private async runVerifyAndDeploy(
+    projectDir: string,
+    packageName: string
   ): Promise<AndroidBuildResult> {
     console.log('\n[AndroidBuilder] 🤖 Starting Android Six Eyes Verification...\n');
 
@@ -492,7 +540,7 @@ Respond with "RUNNING" if the app appears to be working, or describe the issue i
    */
   private runCommand(command: string, args: string[]): Promise<string> {
     return new Promise((resolve) => {
-      const proc = spawn(command, args);
+      const proc = spawnProcess(command, args, { signal: currentSignal() });
       let output = '';
 
       proc.stdout.on('data', (data) => {
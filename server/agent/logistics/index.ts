@@ -3,6 +3,8 @@
  * Automated build and verification for Web (Vercel) and Android (Google Play)
  */
 
+import { AccessibilityReport } from '../types';
+
 export { AndroidBuilder } from './android-builder';
 export { VercelDeployer } from './vercel-deployer';
 export type { AndroidBuildResult } from './android-builder';
@@ -19,6 +21,7 @@ export interface MultiPlatformBuildResult {
     success: boolean;
     previewUrl?: string;
     screenshotPath?: string;
+    accessibility?: AccessibilityReport;
     error?: string;
   };
   overallSuccess: boolean;
@@ -3,23 +3,37 @@
  * Deploys to Vercel preview and verifies with Six Eyes
  */
 
-import { spawn } from 'child_process';
-import puppeteer from 'puppeteer';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import puppeteer, { Page } from 'puppeteer';
 import fs from 'fs/promises';
 import path from 'path';
-import { ValidationResult } from '../types';
+import { AccessibilityReport, ValidationResult } from '../types';
+import { currentSignal } from '../run-control';
+import { spawnProcess } from '../process';
+import { intercept } from '../cassette';
+import { models, hasVerdict, imagePart } from '../models';
+import { agentEvents } from '../event-bus';
+import { renderViewports, summarizeAccessibility, describeAccessibility } from '../page-audit';
+import { resilience, TRANSIENT_OUTPUT } from '../resilience';
+import { AGENT_DIR } from '../workspace';
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
 
 export interface VercelDeployResult {
   success: boolean;
   previewUrl?: string;
-  screenshotPath?: string;
+  screenshotPath?: string; // Widest viewport
+  viewportScreenshots?: { viewport: string; width: number; height: number; screenshotPath: string }[];
+  accessibility?: AccessibilityReport;
   consoleErrors?: string[];
   error?: string;
 }
 
+/**
+ * A failed deploy whose output points at a network or Vercel outage (worth retrying)
+ */
+function transientFailure(result: VercelDeployResult): string | undefined {
+  return !result.success && TRANSIENT_OUTPUT.test(result.error || '') ? result.error : undefined;
+}
+
 export class VercelDeployer {
   private vercelToken: string;
 
@@ -53,10 +67,13 @@ export class VercelDeployer {
       };
     }
 
-    return new Promise((resolve) => {
-      const vercel = spawn('vercel', ['deploy', `--token=${this.vercelToken}`], {
+    await this.excludeAgentFiles(projectDir);
+
+    return resilience.call('vercel', () => new Promise<VercelDeployResult>((resolve) => {
+      const vercel = spawnProcess('vercel', ['deploy', `--token=${this.vercelToken}`], {
         cwd: projectDir,
-        shell: true
+        shell: true,
+        signal: currentSignal()
       });
 
       let stdout = '';
@@ -66,10 +83,12 @@ export class VercelDeployer {
         const output = data.toString();
         stdout += output;
         console.log('[Vercel]', output.trim());
+        agentEvents.emitOutput('vercel', output);
       });
 
       vercel.stderr.on('data', (data) => {
         stderr += data.toString();
+        agentEvents.emitOutput('vercel', data.toString());
       });
 
       vercel.on('close', (code) => {
@@ -106,7 +125,7 @@ export class VercelDeployer {
           error: `Failed to run vercel CLI: ${error.message}`
         });
       });
-    });
+    }), { transientResult: transientFailure });
   }
 
   /**
@@ -122,13 +141,16 @@ export class VercelDeployer {
       };
     }
 
-    return new Promise((resolve) => {
-      const vercel = spawn(
+    await this.excludeAgentFiles(projectDir);
+
+    return resilience.call('vercel', () => new Promise<VercelDeployResult>((resolve) => {
+      const vercel = spawnProcess(
         'vercel',
         ['deploy', '--prod', `--token=${this.vercelToken}`],
         {
           cwd: projectDir,
-          shell: true
+          shell: true,
+          signal: currentSignal()
         }
       );
 
@@ -139,10 +161,12 @@ export class VercelDeployer {
         const output = data.toString();
         stdout += output;
         console.log('[Vercel]', output.trim());
+        agentEvents.emitOutput('vercel', output);
       });
 
       vercel.stderr.on('data', (data) => {
         stderr += data.toString();
+        agentEvents.emitOutput('vercel', data.toString());
       });
 
       vercel.on('close', (code) => {
@@ -172,7 +196,14 @@ export class VercelDeployer {
           });
         }
       });
-    });
+
+      vercel.on('error', (error) => {
+        resolve({
+          success: false,
+          error: `Failed to run vercel CLI: ${error.message}`
+        });
+      });
+    }), { transientResult: transientFailure });
   }
 
   /**
@@ -193,39 +224,42 @@ export class VercelDeployer {
         args: ['--no-sandbox', '--disable-setuid-sandbox']
       });
 
-      const page = await browser.newPage();
-      await page.setViewport({ width: 1920, height: 1080 });
-
-      // Listen for console errors
-      page.on('console', (msg) => {
-        if (msg.type() === 'error') {
-          consoleErrors.push(msg.text());
-        }
-      });
+      // Every viewport's page reports into the same error list
+      const collectErrors = (page: Page) => {
+        // Listen for console errors
+        page.on('console', (msg) => {
+          if (msg.type() === 'error') {
+            consoleErrors.push(msg.text());
+          }
+        });
 
-      // Listen for page errors
-      page.on('pageerror', (error: any) => {
-        consoleErrors.push(`Page Error: ${error?.message || String(error)}`);
-      });
+        // Listen for page errors
+        page.on('pageerror', (error) => {
+          consoleErrors.push(`Page Error: ${error instanceof Error ? error.message : String(error)}`);
+        });
 
-      // Listen for response errors (400/500)
-      page.on('response', (response) => {
-        const status = response.status();
-        if (status >= 400) {
-          consoleErrors.push(
-            `HTTP ${status} on ${response.url()}`
-          );
-        }
-      });
+        // Listen for response errors (400/500)
+        page.on('response', (response) => {
+          const status = response.status();
+          if (status >= 400) {
+            consoleErrors.push(
+              `HTTP ${status} on ${response.url()}`
+            );
+          }
+        });
+      };
 
-      // Navigate to URL
+      // Navigate to URL at every viewport
       console.log('[VercelDeployer] Navigating to:', url);
-      
+
+      let renders;
       try {
-        await page.goto(url, {
-          waitUntil: 'networkidle0',
-          timeout: 60000 // 60 seconds for initial deploy
-        });
+        renders = await renderViewports(
+          browser,
+          url,
+          viewport => screenshotPath.replace(/\.png$/, `-${viewport.name}.png`),
+          { timeoutMs: 60000, settleMs: 3000, onPage: collectErrors } // 60 seconds for initial deploy
+        );
       } catch (error: any) {
         await browser.close();
         return {
@@ -235,15 +269,15 @@ export class VercelDeployer {
         };
       }
 
-      // Wait for content to load
-      await new Promise(resolve => setTimeout(resolve, 3000));
-
-      // Take screenshot
-      await page.screenshot({ path: screenshotPath, fullPage: true });
-      console.log('[VercelDeployer] ✅ Screenshot saved:', screenshotPath);
+      // The widest viewport is the main screenshot
+      await fs.copyFile(renders[renders.length - 1].screenshotPath, screenshotPath);
+      console.log('[VercelDeployer] ✅ Screenshots saved:', renders.map(r => r.screenshotPath).join(', '));
 
       await browser.close();
 
+      const accessibility = summarizeAccessibility(renders);
+      const viewportScreenshots = renders.map(({ violations, ...render }) => render);
+
       // Check for critical errors
       const criticalErrors = consoleErrors.filter(err => 
         err.includes('HTTP 5') || err.includes('HTTP 4')
@@ -257,6 +291,8 @@ export class VercelDeployer {
         success: true,
         previewUrl: url,
         screenshotPath,
+        viewportScreenshots,
+        accessibility,
         consoleErrors
       };
 
@@ -272,24 +308,16 @@ export class VercelDeployer {
   }
 
   /**
-   * Vision check - Verify site looks correct with Gemini
+   * Vision check - Verify site looks correct with the vision model
    */
   async visionCheck(screenshotPath: string): Promise<ValidationResult> {
-    console.log('[VercelDeployer] Running Gemini vision check...');
+    console.log('[VercelDeployer] Running vision check...');
 
     try {
-      const model = genAI.getGenerativeModel({ model: 'gemini-1.5-pro' });
-      
       const imageData = await fs.readFile(screenshotPath);
-      const base64Image = imageData.toString('base64');
 
-      const result = await model.generateContent([
-        {
-          inlineData: {
-            data: base64Image,
-            mimeType: 'image/png'
-          }
-        },
+      const result = await models.generate('vision', [
+        imagePart(imageData),
         `Analyze this website screenshot.
 
 Is this website working correctly? Look for:
@@ -302,10 +330,10 @@ Is this website working correctly? Look for:
 Respond with "WORKING" if the website appears functional, or describe the issue if there's a problem.`
       ]);
 
-      const response = result.response.text();
+      const response = result.text;
       console.log('[VercelDeployer] Vision analysis:', response);
 
-      if (response.toUpperCase().includes('WORKING')) {
+      if (hasVerdict(response, 'WORKING')) {
         return {
           passed: true,
           details: { analysis: response }
@@ -327,8 +355,19 @@ Respond with "WORKING" if the website appears functional, or describe the issue
 
   /**
    * Full Vercel Six Eyes verification pipeline
+   * Recorded as one interaction: replay restores the screenshot instead of deploying.
    */
   async deployAndVerify(projectDir: string): Promise<VercelDeployResult> {
+    return intercept(
+      'build',
+      'vercel preview',
+      { projectDir },
+      () => this.runDeployAndVerify(projectDir),
+      result => [result.screenshotPath, ...(result.viewportScreenshots || []).map(v => v.screenshotPath)]
+    );
+  }
+
+  private async runDeployAndVerify(projectDir: string): Promise<VercelDeployResult> {
     console.log('\n[VercelDeployer] 🌐 Starting Vercel Six Eyes Verification...\n');
 
     // 1. Deploy to Preview
@@ -355,15 +394,22 @@ Respond with "WORKING" if the website appears functional, or describe the issue
     const visionResult = await this.visionCheck(screenshotPath);
     if (!visionResult.passed) {
       return {
+        ...verifyResult,
         success: false,
-        error: visionResult.error,
-        previewUrl,
-        screenshotPath,
-        consoleErrors: verifyResult.consoleErrors
+        error: visionResult.error
       };
     }
 
-    // 4. Check for console errors
+    // 4. Accessibility audit against the configured threshold
+    if (verifyResult.accessibility && !verifyResult.accessibility.passed) {
+      return {
+        ...verifyResult,
+        success: false,
+        error: describeAccessibility(verifyResult.accessibility)
+      };
+    }
+
+    // 5. Check for console errors
     if (verifyResult.consoleErrors && verifyResult.consoleErrors.length > 0) {
       const criticalErrors = verifyResult.consoleErrors.filter(err =>
         err.includes('HTTP 5') || err.includes('HTTP 4')
@@ -376,12 +422,21 @@ Respond with "WORKING" if the website appears functional, or describe the issue
 
     console.log('\n[VercelDeployer] ✅ Vercel Six Eyes Verification PASSED\n');
 
-    return {
-      success: true,
-      previewUrl,
-      screenshotPath,
-      consoleErrors: verifyResult.consoleErrors
-    };
+    return verifyResult;
+  }
+
+  /**
+   * Keep the agent's own files (revision screenshots) out of the upload.
+   * Vercel deploys dot directories, so they are listed in .vercelignore,
+   * next to whatever the generated project ignores itself.
+   */
+  private async excludeAgentFiles(projectDir: string): Promise<void> {
+    const ignorePath = path.join(projectDir, '.vercelignore');
+    const current = await fs.readFile(ignorePath, 'utf-8').catch(() => '');
+    const entry = `/${AGENT_DIR}`;
+
+    if (current.split(/\r?\n/).some(line => line.trim() === entry)) return;
+    await fs.writeFile(ignorePath, `${current}${current && !current.endsWith('\n') ? '\n' : ''}${entry}\n`, 'utf-8');
   }
 
   /**
@@ -389,7 +444,7 @@ Respond with "WORKING" if the website appears functional, or describe the issue
    */
   private runCommand(command: string, args: string[]): Promise<string> {
     return new Promise((resolve) => {
-      const proc = spawn(command, args);
+      const proc = spawnProcess(command, args, { signal: currentSignal() });
       let output = '';
 
       proc.stdout.on('data', (data) => {
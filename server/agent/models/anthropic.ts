@@ -0,0 +1,65 @@
+/**
+ * Anthropic Messages API adapter
+ */
+
+import { ModelProvider, ModelProviderError, ModelRequest, ModelResponse, parseRetryAfter } from './types';
+
+const DEFAULT_MAX_TOKENS = 8192;
+
+export class AnthropicProvider implements ModelProvider {
+  readonly name = 'anthropic';
+
+  constructor(
+    private apiKey: string = process.env.ANTHROPIC_API_KEY || '',
+    private baseUrl: string = process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com/v1'
+  ) {}
+
+  async generate(model: string, request: ModelRequest): Promise<ModelResponse> {
+    const content = request.parts.map(part =>
+      typeof part === 'string'
+        ? { type: 'text', text: part }
+        : { type: 'image', source: { type: 'base64', media_type: part.image.mimeType, data: part.image.data } }
+    );
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        messages: [{ role: 'user', content }]
+      }),
+      signal: request.signal
+    });
+
+    const data: any = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new ModelProviderError(
+        this.name,
+        data.error?.message || `HTTP ${response.status}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    const text = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    return {
+      text,
+      provider: this.name,
+      model,
+      usage: data.usage
+        ? { inputTokens: data.usage.input_tokens || 0, outputTokens: data.usage.output_tokens || 0 }
+        : undefined
+    };
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Google Gemini adapter
+ */
+
+import { GoogleGenerativeAI, Part } from '@google/generative-ai';
+import { ModelProvider, ModelProviderError, ModelRequest, ModelResponse } from './types';
+
+export class GeminiProvider implements ModelProvider {
+  readonly name = 'gemini';
+  private client: GoogleGenerativeAI;
+
+  constructor(apiKey: string = process.env.GEMINI_API_KEY || '') {
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generate(model: string, request: ModelRequest): Promise<ModelResponse> {
+    const generativeModel = this.client.getGenerativeModel({
+      model,
+      generationConfig: {
+        maxOutputTokens: request.maxTokens,
+        temperature: request.temperature
+      }
+    });
+
+    const parts: Part[] = request.parts.map(part =>
+      typeof part === 'string'
+        ? { text: part }
+        : { inlineData: { data: part.image.data, mimeType: part.image.mimeType } }
+    );
+
+    try {
+      const result = await generativeModel.generateContent(parts, { signal: request.signal });
+      const usage = result.response.usageMetadata;
+
+      return {
+        text: result.response.text(),
+        provider: this.name,
+        model,
+        usage: usage
+          ? { inputTokens: usage.promptTokenCount || 0, outputTokens: usage.candidatesTokenCount || 0 }
+          : undefined
+      };
+    } catch (error: any) {
+      if (error.name === 'AbortError') throw error;
+      throw new ModelProviderError(this.name, error.message, error.status);
+    }
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * THE MODEL ROUTER
+ * One entry point for every text and vision generation in the agent.
+ * Each role resolves to "provider:model" from the environment:
+ *   AGENT_MODEL_PLANNER, AGENT_MODEL_CODER, AGENT_MODEL_REVIEWER, AGENT_MODEL_VISION
+ * falling back to AGENT_MODEL (default gemini:gemini-1.5-pro).
+ * AGENT_MODEL=stub runs the whole pipeline offline.
+ */
+
+import crypto from 'crypto';
+import { checkpoint, currentContext, currentSignal } from '../run-control';
+import { estimateCost } from '../usage';
+import { intercept } from '../cassette';
+import { ConfigurationError } from '../errors';
+import { resilience } from '../resilience';
+import { GeminiProvider } from './gemini';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { AnthropicProvider } from './anthropic';
+import { StubProvider } from './stub';
+import { ModelPart, ModelProvider, ModelRequest, ModelResponse, ModelRole } from './types';
+
+const DEFAULT_MODEL = 'gemini:gemini-1.5-pro';
+
+// Model used when a spec names only the provider
+const PROVIDER_DEFAULTS: Record<string, string> = {
+  gemini: 'gemini-1.5-pro',
+  openai: 'gpt-4o',
+  anthropic: 'claude-sonnet-4-5',
+  stub: 'stub'
+};
+
+// API key each built-in provider needs
+const PROVIDER_KEYS: Record<string, string> = {
+  gemini: 'GEMINI_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY'
+};
+
+const ROLES: ModelRole[] = ['planner', 'coder', 'reviewer', 'vision'];
+
+export interface ModelSpec {
+  provider: string;
+  model: string;
+}
+
+export type GenerateOptions = Pick<ModelRequest, 'maxTokens' | 'temperature' | 'signal'>;
+
+export class ModelRouter {
+  private providers: Map<string, ModelProvider>;
+  private overrides: Map<ModelRole, ModelSpec>;
+
+  constructor() {
+    this.providers = new Map();
+    this.overrides = new Map();
+
+    // Adapters are created on first use so missing keys only matter for providers in use
+    this.registerLazy('gemini', () => new GeminiProvider());
+    this.registerLazy('openai', () => new OpenAICompatibleProvider());
+    this.registerLazy('anthropic', () => new AnthropicProvider());
+    this.registerProvider(new StubProvider());
+  }
+
+  /**
+   * Add or replace a provider (custom adapters, tests)
+   */
+  registerProvider(provider: ModelProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Point a role at a specific provider/model, overriding the environment
+   */
+  configure(role: ModelRole, spec: string | ModelSpec): void {
+    this.overrides.set(role, typeof spec === 'string' ? ModelRouter.parseSpec(spec) : spec);
+  }
+
+  /**
+   * Provider and model a role currently resolves to
+   */
+  resolve(role: ModelRole): ModelSpec {
+    return this.overrides.get(role)
+      || ModelRouter.parseSpec(process.env[`AGENT_MODEL_${role.toUpperCase()}`] || process.env.AGENT_MODEL || DEFAULT_MODEL);
+  }
+
+  /**
+   * API key variables needed by the providers the roles resolve to.
+   * OpenAI-compatible servers on a custom OPENAI_BASE_URL may not need a key.
+   */
+  requiredEnvironment(): string[] {
+    const keys = new Set<string>();
+    for (const role of ROLES) {
+      const { provider } = this.resolve(role);
+      if (provider === 'openai' && process.env.OPENAI_BASE_URL) continue;
+      if (PROVIDER_KEYS[provider]) keys.add(PROVIDER_KEYS[provider]);
+    }
+    return Array.from(keys);
+  }
+
+  /**
+   * Generate text for a role. Defaults to the current run's abort signal.
+   */
+  async generate(role: ModelRole, prompt: string | ModelPart[], options: GenerateOptions = {}): Promise<ModelResponse> {
+    const spec = this.resolve(role);
+    const provider = this.providers.get(spec.provider);
+
+    if (!provider) {
+      throw new ConfigurationError(`Unknown model provider "${spec.provider}" for role ${role}`);
+    }
+
+    const parts = typeof prompt === 'string' ? [prompt] : prompt;
+
+    // Images are identified by hash so cassettes stay readable
+    const recorded = {
+      role,
+      ...spec,
+      parts: parts.map(part => typeof part === 'string'
+        ? part
+        : { image: crypto.createHash('sha256').update(part.image.data).digest('hex').slice(0, 16) })
+    };
+
+    // Over-budget runs are stopped before they can spend more
+    checkpoint();
+
+    const started = Date.now();
+    const call = () => provider.generate(spec.model, {
+      parts,
+      role,
+      maxTokens: options.maxTokens,
+      temperature: options.temperature,
+      signal: options.signal ?? currentSignal()
+    });
+
+    // Rate limits, retries and the circuit breaker are per provider (the offline stub needs none)
+    const response = await intercept('model', role, recorded, () =>
+      spec.provider === 'stub' ? call() : resilience.call(spec.provider, call)
+    );
+
+    this.recordUsage(role, spec, parts, response, Date.now() - started);
+    return response;
+  }
+
+  /**
+   * Report a call to the run's usage hook. Providers that return no token
+   * counts are estimated at 4 characters per token.
+   */
+  private recordUsage(role: ModelRole, spec: ModelSpec, parts: ModelPart[], response: ModelResponse, latencyMs: number): void {
+    const context = currentContext();
+    if (!context?.onUsage) return;
+
+    const promptChars = parts.reduce((sum, part) => sum + (typeof part === 'string' ? part.length : 0), 0);
+    const inputTokens = response.usage?.inputTokens ?? Math.ceil(promptChars / 4);
+    const outputTokens = response.usage?.outputTokens ?? Math.ceil(response.text.length / 4);
+
+    context.onUsage({
+      timestamp: new Date().toISOString(),
+      role,
+      provider: spec.provider,
+      model: spec.model,
+      stepId: context.stepId,
+      inputTokens,
+      outputTokens,
+      latencyMs,
+      costUsd: estimateCost(spec.model, inputTokens, outputTokens)
+    });
+  }
+
+  /**
+   * "provider:model" or just "provider" (uses that provider's default model)
+   */
+  static parseSpec(spec: string): ModelSpec {
+    const [provider, ...rest] = spec.trim().split(':');
+    const model = rest.join(':') || PROVIDER_DEFAULTS[provider];
+
+    if (!model) {
+      throw new ConfigurationError(`Model spec "${spec}" must be "provider:model"`);
+    }
+
+    return { provider, model };
+  }
+
+  private registerLazy(name: string, create: () => ModelProvider): void {
+    let instance: ModelProvider | undefined;
+    this.providers.set(name, {
+      name,
+      generate: (model, request) => {
+        instance = instance || create();
+        return instance.generate(model, request);
+      }
+    });
+  }
+}
+
+/**
+ * True when a model reply opens with the verdict word (e.g. "VALID").
+ * A plain substring check would also accept "INVALID" or "NOT WORKING".
+ */
+export function hasVerdict(response: string, verdict: string): boolean {
+  return new RegExp(`^\\W*${verdict}\\b`, 'i').test(response.trim());
+}
+
+/**
+ * Image part from a file buffer
+ */
+export function imagePart(data: Buffer, mimeType: string = 'image/png'): ModelPart {
+  return { image: { data: data.toString('base64'), mimeType } };
+}
+
+// Singleton instance
+export const models = new ModelRouter();
+
+export { GeminiProvider, OpenAICompatibleProvider, AnthropicProvider, StubProvider };
+export { ModelProviderError } from './types';
+export type { ModelRole, ModelPart, ModelProvider, ModelRequest, ModelResponse, ModelUsage } from './types';
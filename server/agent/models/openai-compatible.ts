@@ -0,0 +1,62 @@
+/**
+ * OpenAI-compatible chat completions adapter
+ * Works with OpenAI and any server exposing /chat/completions (vLLM, Ollama, OpenRouter...)
+ */
+
+import { ModelProvider, ModelProviderError, ModelRequest, ModelResponse, parseRetryAfter } from './types';
+
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private apiKey: string = process.env.OPENAI_API_KEY || '',
+    private baseUrl: string = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1'
+  ) {}
+
+  async generate(model: string, request: ModelRequest): Promise<ModelResponse> {
+    const hasImages = request.parts.some(part => typeof part !== 'string');
+
+    const content = hasImages
+      ? request.parts.map(part =>
+          typeof part === 'string'
+            ? { type: 'text', text: part }
+            : { type: 'image_url', image_url: { url: `data:${part.image.mimeType};base64,${part.image.data}` } }
+        )
+      : (request.parts as string[]).join('\n\n');
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content }],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature
+      }),
+      signal: request.signal
+    });
+
+    const data: any = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new ModelProviderError(
+        this.name,
+        data.error?.message || `HTTP ${response.status}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      provider: this.name,
+      model,
+      usage: data.usage
+        ? { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 }
+        : undefined
+    };
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Deterministic local stub
+ * Returns canned, valid responses per role so the whole pipeline can run offline:
+ * a one-step plan, a manifest with a static page, and passing verdicts.
+ */
+
+import { ModelProvider, ModelRequest, ModelResponse } from './types';
+
+export class StubProvider implements ModelProvider {
+  readonly name = 'stub';
+
+  async generate(model: string, request: ModelRequest): Promise<ModelResponse> {
+    request.signal?.throwIfAborted();
+
+    const prompt = request.parts.filter((part): part is string => typeof part === 'string').join('\n');
+    const text = this.respond(request.role, prompt);
+
+    return {
+      text,
+      provider: this.name,
+      model,
+      usage: { inputTokens: Math.ceil(prompt.length / 4), outputTokens: Math.ceil(text.length / 4) }
+    };
+  }
+
+  private respond(role: ModelRequest['role'], prompt: string): string {
+    const project = prompt.match(/^Project: (.*)$/m)?.[1]?.trim() || 'Project';
+
+    switch (role) {
+      case 'planner':
+        return JSON.stringify([
+          {
+            id: 'step-1',
+            title: 'Create Landing Page',
+            description: `Static landing page for ${project}`,
+            dependsOn: [],
+            produces: ['index.html'],
+            consumes: []
+          }
+        ]);
+
+      case 'coder': {
+        const step = prompt.match(/^Current Step: (.*)$/m)?.[1]?.trim() || 'Step';
+        return JSON.stringify({
+          files: [
+            {
+              path: 'index.html',
+              operation: 'create',
+              content: `<!DOCTYPE html>\n<html lang="en">\n<head><meta charset="utf-8"><title>${escapeHtml(project)}</title></head>\n<body>\n  <h1>${escapeHtml(project)}</h1>\n  <p>${escapeHtml(step)}</p>\n</body>\n</html>\n`
+            }
+          ]
+        });
+      }
+
+      case 'reviewer':
+      case 'vision':
+        // Answer with whatever approval word the prompt asks for
+        return prompt.match(/Respond with "([A-Z]+)"/)?.[1] || 'VALID';
+    }
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
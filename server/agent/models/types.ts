@@ -0,0 +1,64 @@
+/**
+ * Model provider types
+ */
+
+/**
+ * What a model is used for. Each role can be pointed at a different provider/model.
+ */
+export type ModelRole = 'planner' | 'coder' | 'reviewer' | 'vision';
+
+export interface ModelImage {
+  data: string; // Base64
+  mimeType: string;
+}
+
+/**
+ * A prompt is text, optionally interleaved with images (vision)
+ */
+export type ModelPart = string | { image: ModelImage };
+
+export interface ModelRequest {
+  parts: ModelPart[];
+  role: ModelRole;
+  signal?: AbortSignal;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface ModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ModelResponse {
+  text: string;
+  provider: string;
+  model: string;
+  usage?: ModelUsage;
+}
+
+export interface ModelProvider {
+  readonly name: string;
+  generate(model: string, request: ModelRequest): Promise<ModelResponse>;
+}
+
+/**
+ * Thrown by adapters when the provider rejects a request
+ */
+export class ModelProviderError extends Error {
+  constructor(readonly provider: string, message: string, readonly status?: number, readonly retryAfterMs?: number) {
+    super(`${provider}: ${message}`);
+    this.name = 'ModelProviderError';
+  }
+}
+
+/**
+ * Milliseconds from a Retry-After header (seconds or an HTTP date)
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = parseFloat(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
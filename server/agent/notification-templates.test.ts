@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { NotificationTemplates } from './notifications/templates';
+
+const HOSTILE = '<script>alert("hi")</script> & Co';
+const ESCAPED = '&lt;script&gt;alert(&quot;hi&quot;)&lt;/script&gt; &amp; Co';
+
+async function templatesWith(files: Record<string, string>): Promise<NotificationTemplates> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'templates-test-'));
+  for (const [file, source] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+    await fs.writeFile(path.join(dir, file), source, 'utf-8');
+  }
+  return new NotificationTemplates([dir]);
+}
+
+test('escapes values in html, including inside partials, but not triple-stashed ones', async () => {
+  const templates = await templatesWith({
+    'en/_layout.hbs': '<footer>{{footer}}</footer>{{> @partial-block}}',
+    'en/greeting/subject.hbs': 'Hello {{name}}',
+    'en/greeting/html.hbs': '{{#> layout}}<p>{{name}}</p>{{{trusted}}}{{/layout}}',
+    'en/greeting/text.hbs': 'Hello {{name}}'
+  });
+
+  const rendered = await templates.render('greeting', { name: HOSTILE, footer: HOSTILE, trusted: '<b>bold</b>' });
+
+  assert.equal(rendered.html, `<footer>${ESCAPED}</footer><p>${ESCAPED}</p><b>bold</b>`);
+  assert.equal(rendered.subject, `Hello ${HOSTILE}`);
+  assert.equal(rendered.text, `Hello ${HOSTILE}`);
+});
+
+test('the approval request escapes project details in html only', async () => {
+  const rendered = await new NotificationTemplates().render('approval-request', {
+    project: { name: HOSTILE, orderId: 'order-1', platforms: ['web'], platformLabel: 'web', requirements: HOSTILE, plan: [], revision: 1 },
+    approval: { approveUrl: 'https://example.com/approve', rejectUrl: 'https://example.com/reject', expiresAt: new Date(0) },
+    screenshots: []
+  });
+
+  assert.ok(!rendered.html.includes('<script>'));
+  assert.ok(rendered.html.includes(`<strong>Name:</strong> ${ESCAPED}`));
+  assert.ok(rendered.subject.includes(HOSTILE));
+});
@@ -0,0 +1,76 @@
+/**
+ * Slack / Discord incoming webhook. Both take a short markdown message;
+ * they differ in the field name, link syntax and escaping.
+ */
+
+import { intercept } from '../cassette';
+import { resilience } from '../resilience';
+import { currentSignal } from '../run-control';
+import { parseRetryAfter } from '../models/types';
+import { DeliveryError, Notification, NotificationChannel } from './types';
+
+export type ChatFormat = 'slack' | 'discord';
+
+// Discord rejects longer messages
+const DISCORD_MAX_LENGTH = 2000;
+
+export class ChatChannel implements NotificationChannel {
+  readonly name = 'chat';
+
+  constructor(private url: string, private format: ChatFormat) {}
+
+  async deliver(notification: Notification): Promise<void> {
+    const payload = this.format === 'discord' ? this.discordPayload(notification) : this.slackPayload(notification);
+
+    // Webhook URLs carry their own credentials - only the message identity is recorded
+    await intercept(
+      'webhook',
+      `${this.name}:${notification.event}`,
+      { channel: this.name, event: notification.event, orderId: notification.orderId, subject: notification.subject },
+      () => resilience.call(this.name, () => this.post(payload))
+    );
+  }
+
+  private slackPayload(notification: Notification): object {
+    // Slack treats <, > and & as control characters in message text
+    const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const lines = [
+      `*${escape(notification.subject)}*`,
+      escape(notification.summary),
+      ...(notification.links || []).map(link => `<${link.url}|${escape(link.label)}>`)
+    ];
+    return { text: lines.filter(Boolean).join('\n') };
+  }
+
+  private discordPayload(notification: Notification): object {
+    const escape = (value: string) => value.replace(/([\\*_~`|>\[\]()])/g, '\\$1');
+    const lines = [
+      `**${escape(notification.subject)}**`,
+      escape(notification.summary),
+      ...(notification.links || []).map(link => `[${escape(link.label)}](<${link.url}>)`)
+    ];
+    return {
+      content: lines.filter(Boolean).join('\n').slice(0, DISCORD_MAX_LENGTH),
+      allowed_mentions: { parse: [] } // Project names must not ping @everyone
+    };
+  }
+
+  private async post(payload: object): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: currentSignal()
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new DeliveryError(
+        this.name,
+        `HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+  }
+}
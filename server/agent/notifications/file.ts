@@ -0,0 +1,30 @@
+/**
+ * Development channel - writes each notification to a directory instead of sending it
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { Notification, NotificationChannel } from './types';
+
+export class FileChannel implements NotificationChannel {
+  readonly name = 'file';
+  readonly directed = true; // Customer emails are written too, recipient in the .json
+
+  constructor(private dir: string) {}
+
+  /**
+   * <time>-<event>-<id>.html to open in a browser, .txt with the plain-text
+   * alternative and .json with everything else
+   */
+  async deliver(notification: Notification): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    const base = path.join(this.dir, `${notification.createdAt.replace(/[:.]/g, '-')}-${notification.event}-${notification.id}`);
+    const { html, text, ...rest } = notification;
+
+    await fs.writeFile(`${base}.json`, JSON.stringify(rest, null, 2), 'utf-8');
+    await fs.writeFile(`${base}.html`, html, 'utf-8');
+    if (text) await fs.writeFile(`${base}.txt`, text, 'utf-8');
+    console.log(`[Notifications] 📁 Wrote ${notification.event} notification to ${base}.html`);
+  }
+}
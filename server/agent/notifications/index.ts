@@ -0,0 +1,302 @@
+/**
+ * THE NOTIFICATION DISPATCHER
+ * Delivers each notification to every channel subscribed to its event.
+ * Channels are configured from the environment:
+ *   email   EMAIL_* settings to ADMIN_EMAIL            NOTIFY_EMAIL_EVENTS
+ *   webhook NOTIFY_WEBHOOK_URL + NOTIFY_WEBHOOK_SECRET NOTIFY_WEBHOOK_EVENTS
+ *   chat    NOTIFY_CHAT_WEBHOOK_URL (Slack/Discord)    NOTIFY_CHAT_EVENTS
+ *   file    NOTIFY_FILE_DIR (development)              NOTIFY_FILE_EVENTS
+ * Event lists are "all" (default), "none" or comma-separated events.
+ * Notifications with a recipient (customer emails) skip the subscriptions
+ * and go to the channels that can address them: email, or file in development.
+ * A failed delivery never fails the run; it goes to the persisted outbox
+ * and is retried with backoff.
+ */
+
+import path from 'path';
+import { currentCassette } from '../cassette';
+import { currentContext, runWithContext } from '../run-control';
+import { ServiceUnavailableError } from '../resilience';
+import { SmtpChannel } from './smtp';
+import { WebhookChannel } from './webhook';
+import { ChatChannel, ChatFormat } from './chat';
+import { FileChannel } from './file';
+import { NotificationOutbox } from './outbox';
+import { NOTIFICATION_EVENTS, Notification, NotificationChannel, NotificationEvent, OutboxEntry } from './types';
+import { nanoid } from 'nanoid';
+
+export { SmtpChannel } from './smtp';
+export { WebhookChannel } from './webhook';
+export { ChatChannel } from './chat';
+export { FileChannel } from './file';
+export { NotificationOutbox } from './outbox';
+export { DeliveryError, NOTIFICATION_EVENTS } from './types';
+export type { Notification, NotificationChannel, NotificationEvent, NotificationAttachment, NotificationLink, NotificationRecipient, OutboxEntry } from './types';
+export type { ChatFormat } from './chat';
+
+const NOTIFICATIONS_DIR = path.join(process.cwd(), 'projects', '.notifications');
+const MAX_ATTEMPTS = Math.max(1, parseInt(process.env.NOTIFY_MAX_ATTEMPTS || '10', 10) || 10);
+const RETRY_BASE_MS = parseInt(process.env.NOTIFY_RETRY_BASE_MS || '60000', 10) || 60000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+interface Subscription {
+  channel: NotificationChannel;
+  events: Set<NotificationEvent>;
+}
+
+export interface DeliveryReport {
+  channel: string;
+  delivered: boolean;
+  queued?: boolean; // Failed and left in the outbox for a retry
+  error?: string;
+}
+
+export class NotificationDispatcher {
+  private subscriptions: Map<string, Subscription> = new Map();
+  private timer?: NodeJS.Timeout;
+  private retrying = false;
+
+  constructor(readonly outbox: NotificationOutbox) {}
+
+  /**
+   * Dispatcher with the channels configured in the environment
+   */
+  static fromEnvironment(): NotificationDispatcher {
+    const dispatcher = new NotificationDispatcher(
+      new NotificationOutbox(process.env.NOTIFY_OUTBOX_PATH || path.join(NOTIFICATIONS_DIR, 'outbox.json'))
+    );
+
+    if (process.env.EMAIL_USER) {
+      dispatcher.register(new SmtpChannel(), parseEvents(process.env.NOTIFY_EMAIL_EVENTS));
+    }
+
+    if (process.env.NOTIFY_WEBHOOK_URL) {
+      if (process.env.NOTIFY_WEBHOOK_SECRET) {
+        dispatcher.register(
+          new WebhookChannel(process.env.NOTIFY_WEBHOOK_URL, process.env.NOTIFY_WEBHOOK_SECRET),
+          parseEvents(process.env.NOTIFY_WEBHOOK_EVENTS)
+        );
+      } else {
+        console.error('[Notifications] NOTIFY_WEBHOOK_SECRET not set - webhook channel disabled (deliveries must be signed)');
+      }
+    }
+
+    if (process.env.NOTIFY_CHAT_WEBHOOK_URL) {
+      const url = process.env.NOTIFY_CHAT_WEBHOOK_URL;
+      const format: ChatFormat = process.env.NOTIFY_CHAT_FORMAT === 'discord' || process.env.NOTIFY_CHAT_FORMAT === 'slack'
+        ? process.env.NOTIFY_CHAT_FORMAT
+        : /discord(app)?\.com/.test(url) ? 'discord' : 'slack';
+      dispatcher.register(new ChatChannel(url, format), parseEvents(process.env.NOTIFY_CHAT_EVENTS));
+    }
+
+    // Without any channel, notifications are written to disk rather than lost
+    if (process.env.NOTIFY_FILE_DIR || dispatcher.subscriptions.size === 0) {
+      const dir = process.env.NOTIFY_FILE_DIR || path.join(NOTIFICATIONS_DIR, 'sent');
+      if (!process.env.NOTIFY_FILE_DIR) {
+        console.warn(`[Notifications] No notification channel configured - writing notifications to ${dir}`);
+      }
+      dispatcher.register(new FileChannel(dir), parseEvents(process.env.NOTIFY_FILE_EVENTS));
+    }
+
+    return dispatcher;
+  }
+
+  /**
+   * Add or replace a channel (custom channels, tests)
+   */
+  register(channel: NotificationChannel, events: Iterable<NotificationEvent> = NOTIFICATION_EVENTS): void {
+    this.subscriptions.set(channel.name, { channel, events: new Set(events) });
+  }
+
+  /**
+   * Load the outbox and schedule retries of deliveries left over from the last run
+   */
+  async start(): Promise<void> {
+    await this.outbox.load();
+    const channels = Array.from(this.subscriptions.values())
+      .map(s => `${s.channel.name} (${s.events.size === NOTIFICATION_EVENTS.length ? 'all' : Array.from(s.events).join(', ') || 'none'})`);
+    console.log(`[Notifications] Channels: ${channels.join(', ')}`);
+    this.schedule();
+  }
+
+  /**
+   * Deliver to every subscribed channel, or to the directed channels when the
+   * notification has a recipient. Never throws: failures are queued for a retry.
+   */
+  async dispatch(notification: Omit<Notification, 'id' | 'createdAt'>): Promise<DeliveryReport[]> {
+    const message: Notification = { id: nanoid(), createdAt: new Date().toISOString(), ...notification };
+    const subscriptions = Array.from(this.subscriptions.values())
+      .filter(s => message.recipient ? s.channel.directed : s.events.has(message.event));
+
+    if (subscriptions.length === 0) {
+      console.log(message.recipient
+        ? `[Notifications] No channel can reach a recipient - "${message.subject}" not sent`
+        : `[Notifications] No channel subscribed to ${message.event} - "${message.subject}" not sent`);
+      return [];
+    }
+
+    const reports: DeliveryReport[] = [];
+    for (const { channel } of subscriptions) {
+      try {
+        await this.deliver(channel, message);
+        console.log(`[Notifications] 📨 ${message.event} sent via ${channel.name}: ${message.subject}`);
+        reports.push({ channel: channel.name, delivered: true });
+      } catch (error: any) {
+        reports.push({ channel: channel.name, delivered: false, error: error.message, queued: await this.enqueue(channel, message, error) });
+      }
+    }
+    return reports;
+  }
+
+  /**
+   * Retry every outbox entry now, including dead ones. Returns how many were retried.
+   */
+  async retryAll(): Promise<number> {
+    await this.outbox.load();
+    const entries = this.outbox.list();
+    for (const entry of entries) {
+      await this.outbox.update({
+        ...entry,
+        status: 'pending',
+        attempts: entry.status === 'dead' ? 0 : entry.attempts,
+        nextAttemptAt: new Date().toISOString()
+      });
+    }
+    await this.retryDue();
+    return entries.length;
+  }
+
+  /**
+   * Configured channels and outbox counts
+   */
+  getStatus(): { channels: { name: string; events: NotificationEvent[] }[]; outbox: { pending: number; dead: number; nextAttemptAt?: string } } {
+    const entries = this.outbox.list();
+    const next = this.outbox.nextAttemptAt();
+    return {
+      channels: Array.from(this.subscriptions.values()).map(s => ({ name: s.channel.name, events: Array.from(s.events) })),
+      outbox: {
+        pending: entries.filter(e => e.status === 'pending').length,
+        dead: entries.filter(e => e.status === 'dead').length,
+        nextAttemptAt: next !== undefined ? new Date(next).toISOString() : undefined
+      }
+    };
+  }
+
+  /**
+   * A notification outage must not pause the run that sent it - the outbox retries it instead
+   */
+  private deliver(channel: NotificationChannel, notification: Notification): Promise<void> {
+    const context = currentContext();
+    return context
+      ? runWithContext({ ...context, onOutage: undefined }, () => channel.deliver(notification))
+      : channel.deliver(notification);
+  }
+
+  private async enqueue(channel: NotificationChannel, notification: Notification, error: any): Promise<boolean> {
+    // A replayed run must never send for real later
+    if (currentCassette()?.mode === 'replay') {
+      console.warn(`[Notifications] ${channel.name} delivery of ${notification.event} failed in replay: ${error.message}`);
+      return false;
+    }
+
+    const entry: OutboxEntry = {
+      id: nanoid(),
+      channel: channel.name,
+      notification,
+      status: 'pending',
+      attempts: 1,
+      nextAttemptAt: new Date(nextAttempt(1, error)).toISOString(),
+      lastError: error.message || String(error),
+      createdAt: new Date().toISOString()
+    };
+    console.error(`[Notifications] ❌ ${channel.name} delivery of ${notification.event} failed (retry at ${entry.nextAttemptAt}): ${entry.lastError}`);
+
+    await this.outbox.add(entry);
+    this.schedule();
+    return true;
+  }
+
+  private async retryDue(): Promise<void> {
+    if (this.retrying) return;
+    this.retrying = true;
+
+    try {
+      for (const entry of this.outbox.due()) {
+        const subscription = this.subscriptions.get(entry.channel);
+        if (!subscription) {
+          await this.outbox.update({ ...entry, status: 'dead', lastError: `Channel ${entry.channel} is no longer configured` });
+          continue;
+        }
+
+        try {
+          await subscription.channel.deliver(entry.notification);
+          await this.outbox.remove(entry.id);
+          console.log(`[Notifications] ✅ ${entry.notification.event} delivered via ${entry.channel} on attempt ${entry.attempts + 1}`);
+        } catch (error: any) {
+          const attempts = entry.attempts + 1;
+          const dead = attempts >= MAX_ATTEMPTS;
+          await this.outbox.update({
+            ...entry,
+            attempts,
+            status: dead ? 'dead' : 'pending',
+            nextAttemptAt: new Date(nextAttempt(attempts, error)).toISOString(),
+            lastError: error.message || String(error)
+          });
+          if (dead) {
+            console.error(`[Notifications] 💀 Giving up on ${entry.notification.event} via ${entry.channel} after ${attempts} attempts: ${error.message}`);
+          }
+        }
+      }
+    } finally {
+      this.retrying = false;
+      this.schedule();
+    }
+  }
+
+  /**
+   * Wake up for the earliest pending retry. The timer never keeps the process alive.
+   */
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const next = this.outbox.nextAttemptAt();
+    if (next === undefined) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.retryDue().catch(error => console.error('[Notifications] Outbox retry failed:', error));
+    }, Math.min(Math.max(0, next - Date.now()), 2 ** 31 - 1));
+    this.timer.unref();
+  }
+}
+
+/**
+ * "all" (or unset), "none", or a comma-separated list of events. Unknown names are ignored with a warning.
+ */
+export function parseEvents(value: string | undefined): Set<NotificationEvent> {
+  const spec = (value || 'all').trim().toLowerCase();
+  if (spec === 'all') return new Set(NOTIFICATION_EVENTS);
+  if (spec === 'none') return new Set();
+
+  const events = new Set<NotificationEvent>();
+  for (const name of spec.split(',').map(s => s.trim()).filter(Boolean)) {
+    if ((NOTIFICATION_EVENTS as string[]).includes(name)) {
+      events.add(name as NotificationEvent);
+    } else {
+      console.warn(`[Notifications] Unknown notification event "${name}" (expected ${NOTIFICATION_EVENTS.join(', ')})`);
+    }
+  }
+  return events;
+}
+
+/**
+ * Exponential backoff for outbox retries; a service outage waits at least until its breaker is retried
+ */
+function nextAttempt(attempts: number, error: unknown): number {
+  const backoff = Date.now() + Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1));
+  return error instanceof ServiceUnavailableError ? Math.max(backoff, error.retryAt.getTime()) : backoff;
+}
+
+// Singleton - one outbox per process
+export const notifications = NotificationDispatcher.fromEnvironment();
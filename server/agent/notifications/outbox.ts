@@ -0,0 +1,86 @@
+/**
+ * NOTIFICATION OUTBOX
+ * Failed deliveries, persisted as one JSON document (written atomically) so
+ * retries survive a restart. Entries that run out of attempts stay as "dead"
+ * until an operator retries or clears them.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { OutboxEntry } from './types';
+
+export class NotificationOutbox {
+  private entries: OutboxEntry[] = [];
+  private loaded?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  /**
+   * Read the persisted outbox (once)
+   */
+  load(): Promise<void> {
+    this.loaded = this.loaded || fs.readFile(this.filePath, 'utf-8')
+      .then(content => {
+        this.entries = JSON.parse(content);
+      })
+      .catch((error: any) => {
+        if (error.code !== 'ENOENT') {
+          console.error(`[Notifications] Failed to read outbox ${this.filePath}:`, error);
+        }
+      });
+    return this.loaded;
+  }
+
+  async add(entry: OutboxEntry): Promise<void> {
+    await this.load();
+    this.entries.push(entry);
+    await this.save();
+  }
+
+  async update(entry: OutboxEntry): Promise<void> {
+    await this.load();
+    const index = this.entries.findIndex(e => e.id === entry.id);
+    if (index !== -1) this.entries[index] = entry;
+    await this.save();
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.load();
+    this.entries = this.entries.filter(e => e.id !== id);
+    await this.save();
+  }
+
+  list(): OutboxEntry[] {
+    return this.entries.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Pending entries whose next attempt is due
+   */
+  due(now = Date.now()): OutboxEntry[] {
+    return this.list().filter(e => e.status === 'pending' && Date.parse(e.nextAttemptAt) <= now);
+  }
+
+  /**
+   * Earliest next attempt of a pending entry (epoch ms)
+   */
+  nextAttemptAt(): number | undefined {
+    const times = this.entries.filter(e => e.status === 'pending').map(e => Date.parse(e.nextAttemptAt));
+    return times.length ? Math.min(...times) : undefined;
+  }
+
+  /**
+   * Writes are chained so concurrent updates never interleave
+   */
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify(this.entries, null, 2);
+    this.writing = this.writing.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, snapshot, 'utf-8');
+      await fs.rename(tmpPath, this.filePath);
+    }).catch(error => console.error(`[Notifications] Failed to write outbox ${this.filePath}:`, error));
+    return this.writing;
+  }
+}
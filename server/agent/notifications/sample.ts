@@ -0,0 +1,72 @@
+/**
+ * Sample project for template previews. It fills every optional section
+ * and carries markup in customer-supplied fields, so a preview also shows
+ * that they are escaped.
+ */
+
+import { ProjectState } from '../types';
+
+export function sampleProjectState(): ProjectState {
+  const now = new Date();
+
+  return {
+    orderId: 'order_sample',
+    project_name: 'Acme <Coffee> & Co',
+    requirements: 'Landing page with a hero, a menu section and a Stripe checkout.\nUse the brand colour #6b4226. <script>alert("escaped")</script>',
+    status: 'awaiting_approval',
+    plan: [
+      { id: 'step-1', title: 'Scaffold landing page', description: 'Hero and layout', status: 'completed', retries: 0 },
+      { id: 'step-2', title: 'Menu section', description: 'Menu grid', status: 'completed', retries: 1 },
+      { id: 'step-3', title: 'Stripe checkout', description: 'Payment link', status: 'failed', retries: 3 }
+    ],
+    currentStep: 2,
+    failureCount: 1,
+    workspaceDir: 'projects/order_sample',
+    platforms: ['web', 'android'],
+    revision: 2,
+    webPreviewUrl: 'https://acme-coffee-preview.vercel.app',
+    androidPackageName: 'com.blackstar.acmecoffee',
+    stripePaymentLink: 'https://buy.stripe.com/test_sample',
+    stripePaymentLinks: [
+      { tier: 'Basic', url: 'https://buy.stripe.com/test_sample', priceIds: ['price_basic'] },
+      { tier: 'Pro', url: 'https://buy.stripe.com/test_sample_pro', priceIds: ['price_pro', 'price_setup'] }
+    ],
+    resolvedPricing: {
+      source: 'order',
+      currency: 'eur',
+      taxBehavior: 'inclusive',
+      tiers: [
+        { name: 'Basic', items: [{ amount: 9, interval: 'month' }] },
+        { name: 'Pro', items: [{ amount: 29, interval: 'month' }, { name: 'Setup fee', amount: 99 }] }
+      ]
+    },
+    webAccessibility: {
+      passed: true,
+      blocking: 0,
+      threshold: { failImpact: 'serious', maxViolations: 0 },
+      counts: { critical: 0, serious: 0, moderate: 1, minor: 0 },
+      violations: [
+        { rule: 'color-contrast', impact: 'moderate', message: 'Elements must meet minimum color contrast ratio thresholds', selector: '.menu-price', viewports: ['mobile', 'desktop'] }
+      ]
+    },
+    visualRevisions: [{
+      revision: 2,
+      capturedAt: now.toISOString(),
+      baselineRevision: 1,
+      snapshots: [
+        { viewport: 'desktop', width: 1440, height: 900, screenshotPath: 'sample-desktop.png', diffPath: 'sample-desktop-diff.png', diffPercent: 4.2 },
+        { viewport: 'mobile', width: 390, height: 844, screenshotPath: 'sample-mobile.png', diffPercent: 0 }
+      ]
+    }],
+    failures: [{
+      category: 'payment',
+      message: 'Stripe rejected the price: currency "usdd" is not supported',
+      retryable: false,
+      remediation: 'Check the Stripe dashboard for the failed request and the account status.',
+      stepId: 'step-3',
+      timestamp: now.toISOString()
+    }],
+    failureReason: 'Step "Stripe checkout" failed after 3 attempts',
+    customer: { email: 'owner@acme-coffee.example', name: 'Ada <Owner>' }
+  };
+}
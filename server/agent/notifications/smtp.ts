@@ -0,0 +1,57 @@
+/**
+ * Email channel (nodemailer)
+ */
+
+import nodemailer from 'nodemailer';
+import { intercept } from '../cassette';
+import { resilience } from '../resilience';
+import { Notification, NotificationChannel } from './types';
+
+// Signed approval and preference links: live tokens must not end up in cassettes
+const SIGNED_LINKS = /(\/api\/(?:approval|customer\/preferences)\/)[^"'\s<>?#]+/g;
+
+export class SmtpChannel implements NotificationChannel {
+  readonly name = 'smtp';
+  readonly directed = true;
+  private transporter: nodemailer.Transporter;
+
+  constructor(
+    private to: string = process.env.ADMIN_EMAIL || 'admin@blackstar.com',
+    private from: string | undefined = process.env.EMAIL_USER
+  ) {
+    // Supports any SMTP service
+    this.transporter = nodemailer.createTransport({
+      host: process.env.EMAIL_HOST || 'smtp.gmail.com',
+      port: parseInt(process.env.EMAIL_PORT || '587'),
+      secure: process.env.EMAIL_SECURE === 'true',
+      auth: {
+        user: process.env.EMAIL_USER,
+        pass: process.env.EMAIL_PASSWORD
+      }
+    });
+  }
+
+  /**
+   * Send one email to the notification's recipient, or to the admin
+   * (recorded/replayed with the run's cassette)
+   */
+  async deliver(notification: Notification): Promise<void> {
+    const { recipient } = notification;
+    const mail: nodemailer.SendMailOptions = {
+      from: this.from,
+      to: recipient ? (recipient.name ? { name: recipient.name, address: recipient.email } : recipient.email) : this.to,
+      subject: notification.subject,
+      html: notification.html,
+      text: notification.text || undefined,
+      attachments: notification.attachments,
+      headers: notification.headers
+    };
+
+    await intercept(
+      'smtp',
+      'sendMail',
+      { to: mail.to, subject: mail.subject, html: notification.html.replace(SIGNED_LINKS, '$1<token>') },
+      () => resilience.call('smtp', () => this.transporter.sendMail(mail))
+    );
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * NOTIFICATION TEMPLATES
+ * Handlebars templates for notification content, one directory per locale
+ * and template:
+ *   <locale>/<template>/subject.hbs   subject line
+ *   <locale>/<template>/summary.hbs   short plain text (chat, webhooks)
+ *   <locale>/<template>/html.hbs      email body
+ *   <locale>/<template>/text.hbs      plain-text alternative of the email
+ * HTML output escapes every {{value}}; only {{{value}}} is inserted raw.
+ * Subject, summary and text are not HTML and are never escaped.
+ * Partials are <locale>/_<name>.hbs (e.g. _layout.hbs for {{#> layout}}).
+ *
+ * Built-in templates live in server/agent/templates/notifications;
+ * NOTIFY_TEMPLATES_DIR overrides them file by file. A part missing in the
+ * requested locale (e.g. "pt-BR") falls back to its language ("pt"), then
+ * NOTIFY_LOCALE, then "en". Templates are recompiled when their file changes.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import Handlebars from 'handlebars';
+import { ConfigurationError } from '../errors';
+
+const BUILTIN_TEMPLATES_DIR = path.join(process.cwd(), 'server', 'agent', 'templates', 'notifications');
+const FALLBACK_LOCALE = 'en';
+
+const TEMPLATE_NAME = /^[a-z0-9][a-z0-9-]*$/;
+const LOCALE_NAME = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+export type TemplatePart = 'subject' | 'summary' | 'html' | 'text';
+
+const PARTS: TemplatePart[] = ['subject', 'summary', 'html', 'text'];
+
+export interface RenderedTemplate {
+  template: string;
+  locale: string; // Locale the subject was found in
+  subject: string;
+  summary: string;
+  html: string;
+  text: string;
+}
+
+interface CompiledFile {
+  mtimeMs: number;
+  render: Handlebars.TemplateDelegate;
+}
+
+export class NotificationTemplates {
+  private handlebars: typeof Handlebars;
+  private compiled: Map<string, CompiledFile> = new Map();
+  private defaultLocale: string;
+
+  constructor(
+    private dirs: string[] = [BUILTIN_TEMPLATES_DIR, ...(process.env.NOTIFY_TEMPLATES_DIR ? [process.env.NOTIFY_TEMPLATES_DIR] : [])]
+  ) {
+    this.defaultLocale = normalizeLocale(process.env.NOTIFY_LOCALE) || FALLBACK_LOCALE;
+    this.handlebars = Handlebars.create();
+    registerHelpers(this.handlebars);
+  }
+
+  /**
+   * Render every part of a template. context.locale is set to the locale
+   * asked for, so the date/number helpers format for the reader.
+   */
+  async render(template: string, context: Record<string, unknown>, locale?: string): Promise<RenderedTemplate> {
+    if (!TEMPLATE_NAME.test(template)) {
+      throw new ConfigurationError(`Invalid notification template name "${template}"`);
+    }
+
+    const locales = this.localeChain(locale);
+    const data = { ...context, locale: locales[0] };
+    const rendered: Partial<RenderedTemplate> = { template };
+
+    for (const part of PARTS) {
+      const found = await this.find(locales, path.join(template, `${part}.hbs`));
+      if (!found) {
+        if (part === 'subject' || part === 'html') {
+          throw new ConfigurationError(`Notification template "${template}" has no ${part}.hbs for locale ${locales.join(', ')}`);
+        }
+        rendered[part] = '';
+        continue;
+      }
+
+      if (part === 'subject') rendered.locale = found.locale;
+      const compiled = await this.compile(found.file, part !== 'html');
+      const partials = await this.partials(locales, part !== 'html');
+      rendered[part] = compiled({ ...data }, { partials }).trim();
+    }
+
+    // One line, whatever the template's whitespace
+    rendered.subject = rendered.subject!.replace(/\s+/g, ' ');
+    return rendered as RenderedTemplate;
+  }
+
+  /**
+   * Names of the templates available in any locale
+   */
+  async list(): Promise<string[]> {
+    const names = new Set<string>();
+    for (const dir of this.dirs) {
+      for (const locale of await readDir(dir)) {
+        for (const entry of await readDir(path.join(dir, locale))) {
+          if (TEMPLATE_NAME.test(entry)) names.add(entry);
+        }
+      }
+    }
+    return Array.from(names).sort();
+  }
+
+  /**
+   * Locales to try, most specific first
+   */
+  localeChain(locale?: string): string[] {
+    const requested = normalizeLocale(locale) || this.defaultLocale;
+    const chain = [requested, requested.split('-')[0], this.defaultLocale, this.defaultLocale.split('-')[0], FALLBACK_LOCALE];
+    return chain.filter((value, index) => chain.indexOf(value) === index);
+  }
+
+  /**
+   * The file for a relative path in the first locale that has it. Override directories win.
+   */
+  private async find(locales: string[], relativePath: string): Promise<{ file: string; locale: string } | undefined> {
+    for (const locale of locales) {
+      for (const dir of [...this.dirs].reverse()) {
+        const file = path.join(dir, locale, relativePath);
+        if (await exists(file)) return { file, locale };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Partials (_name.hbs) visible from a locale chain; more specific locales win
+   */
+  private async partials(locales: string[], noEscape: boolean): Promise<Record<string, Handlebars.TemplateDelegate>> {
+    const partials: Record<string, Handlebars.TemplateDelegate> = {};
+    for (const locale of [...locales].reverse()) {
+      for (const dir of this.dirs) {
+        for (const entry of await readDir(path.join(dir, locale))) {
+          const match = entry.match(/^_([a-z0-9-]+)(?:\.(text))?\.hbs$/);
+          // _name.text.hbs is the plain-text variant of a partial
+          if (!match || (match[2] === 'text') !== noEscape) continue;
+          partials[match[1]] = await this.compile(path.join(dir, locale, entry), noEscape);
+        }
+      }
+    }
+    return partials;
+  }
+
+  private async compile(file: string, noEscape: boolean): Promise<Handlebars.TemplateDelegate> {
+    const { mtimeMs } = await fs.stat(file);
+    const key = `${noEscape ? 'raw' : 'html'}:${file}`;
+    const cached = this.compiled.get(key);
+    if (cached && cached.mtimeMs === mtimeMs) return cached.render;
+
+    try {
+      const source = await fs.readFile(file, 'utf-8');
+      this.handlebars.parse(source); // Surface syntax errors now, with the file name
+      const render = this.handlebars.compile(source, { noEscape });
+      this.compiled.set(key, { mtimeMs, render });
+      return render;
+    } catch (error: any) {
+      throw new ConfigurationError(`Notification template ${file} is invalid: ${error.message}`, { cause: error });
+    }
+  }
+}
+
+/**
+ * Lower-case language with an upper-case region ("pt_br" -> "pt-BR"); undefined when not a locale
+ */
+export function normalizeLocale(locale?: string): string | undefined {
+  if (!locale) return undefined;
+  const [language, ...rest] = locale.trim().replace(/_/g, '-').split('-');
+  const normalized = [language.toLowerCase(), ...rest.map(part => part.length === 2 ? part.toUpperCase() : part)].join('-');
+  return LOCALE_NAME.test(normalized) ? normalized : undefined;
+}
+
+/**
+ * Formatting helpers. Each formats for the locale of the message being rendered.
+ */
+function registerHelpers(handlebars: typeof Handlebars): void {
+  const localeOf = (options: Handlebars.HelperOptions): string => {
+    try {
+      return Intl.getCanonicalLocales(options.data?.root?.locale || FALLBACK_LOCALE)[0];
+    } catch {
+      return FALLBACK_LOCALE; // Not a BCP 47 tag Intl accepts
+    }
+  };
+
+  // {{date value}} - date and time in UTC
+  handlebars.registerHelper('date', (value: unknown, options: Handlebars.HelperOptions) => {
+    const date = value instanceof Date ? value : new Date(String(value));
+    if (isNaN(date.getTime())) return '';
+    return new Intl.DateTimeFormat(localeOf(options), { dateStyle: 'long', timeStyle: 'long', timeZone: 'UTC' }).format(date);
+  });
+
+  // {{money amount "usd" digits}} - currency defaults to USD, fraction digits to the currency's
+  handlebars.registerHelper('money', (amount: unknown, ...args: unknown[]) => {
+    const options = args.pop() as Handlebars.HelperOptions;
+    const [currency = 'usd', digits] = args as [string?, number?];
+    return new Intl.NumberFormat(localeOf(options), {
+      style: 'currency',
+      currency: String(currency).toUpperCase(),
+      ...(typeof digits === 'number' ? { minimumFractionDigits: digits, maximumFractionDigits: digits } : {})
+    }).format(Number(amount) || 0);
+  });
+
+  // {{number value}}
+  handlebars.registerHelper('number', (value: unknown, options: Handlebars.HelperOptions) =>
+    new Intl.NumberFormat(localeOf(options)).format(Number(value) || 0));
+
+  // {{join list ", "}}
+  handlebars.registerHelper('join', (list: unknown, separator: unknown) =>
+    Array.isArray(list) ? list.join(typeof separator === 'string' ? separator : ', ') : '');
+
+  handlebars.registerHelper('upper', (value: unknown) => String(value ?? '').toUpperCase());
+
+  // {{firstLine message}} - first line of a multi-line message
+  handlebars.registerHelper('firstLine', (value: unknown) => String(value ?? '').split('\n')[0]);
+
+  // {{#if (eq a b)}}
+  handlebars.registerHelper('eq', (a: unknown, b: unknown) => a === b);
+  handlebars.registerHelper('min', (a: unknown, b: unknown) => Math.min(Number(a), Number(b)));
+}
+
+async function exists(file: string): Promise<boolean> {
+  return fs.access(file).then(() => true, () => false);
+}
+
+async function readDir(dir: string): Promise<string[]> {
+  return fs.readdir(dir).catch(() => []);
+}
+
+// Singleton - compiled templates are cached per process
+export const notificationTemplates = new NotificationTemplates();
@@ -0,0 +1,79 @@
+/**
+ * Notification types
+ */
+
+/**
+ * What a notification is about. Each channel subscribes to a subset.
+ * customer_milestone messages go to their recipient, never to subscribers.
+ */
+export type NotificationEvent = 'approval_needed' | 'error' | 'deployed' | 'budget_exceeded' | 'customer_milestone';
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = ['approval_needed', 'error', 'deployed', 'budget_exceeded'];
+
+export interface NotificationAttachment {
+  filename: string;
+  path: string;
+  cid?: string; // Referenced from the HTML as cid:...
+}
+
+export interface NotificationLink {
+  label: string;
+  url: string;
+}
+
+export interface NotificationRecipient {
+  email: string;
+  name?: string;
+}
+
+/**
+ * One message, rendered once and delivered to every subscribed channel.
+ * Email uses subject/html/text/attachments; chat uses subject/summary/links;
+ * webhooks get everything but the email bodies and attachments.
+ */
+export interface Notification {
+  id: string;
+  event: NotificationEvent;
+  orderId: string;
+  projectName: string;
+  subject: string;
+  summary: string; // A few plain-text lines
+  html: string;
+  text?: string; // Plain-text alternative of the HTML
+  attachments?: NotificationAttachment[];
+  links?: NotificationLink[];
+  data?: Record<string, unknown>; // Structured details for webhook consumers
+  recipient?: NotificationRecipient; // Set for messages to a customer instead of the operator
+  headers?: Record<string, string>; // Extra email headers (List-Unsubscribe)
+  createdAt: string;
+}
+
+export interface NotificationChannel {
+  readonly name: string;
+  readonly directed?: boolean; // Can deliver to a notification's recipient
+  deliver(notification: Notification): Promise<void>;
+}
+
+/**
+ * A delivery that failed, kept in the outbox until a retry succeeds or it runs out of attempts
+ */
+export interface OutboxEntry {
+  id: string;
+  channel: string;
+  notification: Notification;
+  status: 'pending' | 'dead';
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string;
+  createdAt: string;
+}
+
+/**
+ * Thrown by HTTP channels when the endpoint rejects a delivery
+ */
+export class DeliveryError extends Error {
+  constructor(readonly channel: string, message: string, readonly status?: number, readonly retryAfterMs?: number) {
+    super(`${channel}: ${message}`);
+    this.name = 'DeliveryError';
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Generic outgoing webhook. The JSON body is signed with HMAC-SHA256 over
+ * "<timestamp>.<body>" so receivers can check origin and reject replays:
+ *   X-BlackStar-Timestamp: 1767225600
+ *   X-BlackStar-Signature: sha256=<hex>
+ */
+
+import crypto from 'crypto';
+import { intercept } from '../cassette';
+import { resilience } from '../resilience';
+import { currentSignal } from '../run-control';
+import { parseRetryAfter } from '../models/types';
+import { DeliveryError, Notification, NotificationChannel } from './types';
+
+export class WebhookChannel implements NotificationChannel {
+  readonly name = 'webhook';
+
+  constructor(private url: string, private secret: string) {}
+
+  async deliver(notification: Notification): Promise<void> {
+    const body = JSON.stringify({
+      id: notification.id,
+      event: notification.event,
+      orderId: notification.orderId,
+      projectName: notification.projectName,
+      subject: notification.subject,
+      summary: notification.summary,
+      links: notification.links || [],
+      data: notification.data || {},
+      createdAt: notification.createdAt
+    });
+
+    // The URL may itself be a secret - only the message identity is recorded
+    await intercept(
+      'webhook',
+      `${this.name}:${notification.event}`,
+      { channel: this.name, event: notification.event, orderId: notification.orderId, subject: notification.subject },
+      () => resilience.call(this.name, () => this.post(body, notification))
+    );
+  }
+
+  /**
+   * Signature header value for a body sent at timestamp (seconds)
+   */
+  sign(timestamp: number, body: string): string {
+    return `sha256=${crypto.createHmac('sha256', this.secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  }
+
+  private async post(body: string, notification: Notification): Promise<void> {
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'BlackStar-Notifier',
+        'X-BlackStar-Event': notification.event,
+        'X-BlackStar-Delivery': notification.id,
+        'X-BlackStar-Timestamp': String(timestamp),
+        'X-BlackStar-Signature': this.sign(timestamp, body)
+      },
+      body,
+      signal: currentSignal()
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new DeliveryError(
+        this.name,
+        `HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+  }
+}
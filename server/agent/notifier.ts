@@ -1,274 +1,432 @@
 /**
  * THE NOTIFIER
- * Email notifications for project status and approvals
+ * Composes project status and approval notifications from templates
+ * (see notifications/templates.ts); the dispatcher delivers them to the
+ * configured channels (email, webhook, chat, file). This file only builds
+ * the data each template is rendered with.
+ *
+ * Customer milestone emails (customer-* templates) are built from
+ * customerContext alone, which whitelists what a customer may see: no
+ * failures, costs, internal status or revision feedback.
  */
 
-import nodemailer from 'nodemailer';
-import { ProjectState } from './types';
-import path from 'path';
+import { CustomerMilestone, ErrorCategory, ProjectState } from './types';
+import { ErrorHandler } from './error-handler';
+import { approvalLinks } from './approval-links';
+import { customerLinks } from './customer-links';
+import { describeTier } from './pricing';
+import { notifications, NotificationDispatcher, NotificationAttachment, NotificationEvent, NotificationLink } from './notifications';
+import { notificationTemplates, NotificationTemplates, RenderedTemplate } from './notifications/templates';
+
+const CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  model: 'Model provider',
+  model_output: 'Invalid model output',
+  validation: 'Validation',
+  build: 'Build',
+  deploy: 'Deployment',
+  payment: 'Payment',
+  notification: 'Notification',
+  configuration: 'Configuration',
+  budget: 'Budget',
+  internal: 'Internal error'
+};
+
+// Older failures of a category are summarized by the count in its heading
+const MAX_FAILURES_PER_CATEGORY = 10;
+const MAX_ACCESSIBILITY_VIOLATIONS = 10;
+
+const CUSTOMER_TEMPLATES: Record<CustomerMilestone, string> = {
+  order_accepted: 'customer-order-accepted',
+  plan_ready: 'customer-plan-ready',
+  preview_ready: 'customer-preview-ready',
+  deployed: 'customer-deployed'
+};
+
+const PRICING_SOURCES = {
+  order: 'the order',
+  requirements: 'the requirements',
+  config: 'the default price (STRIPE_DEFAULT_*)'
+};
+
+type ApprovalUrls = ReturnType<typeof approvalLinks.issue>;
+
+/**
+ * Template data plus what travels next to the rendered message
+ */
+interface Composed {
+  context: Record<string, unknown>;
+  attachments?: NotificationAttachment[];
+  links?: NotificationLink[];
+  data?: Record<string, unknown>;
+}
 
 export class Notifier {
-  private transporter: nodemailer.Transporter;
-
-  constructor() {
-    // Create transporter - supports multiple email services
-    this.transporter = nodemailer.createTransport({
-      host: process.env.EMAIL_HOST || 'smtp.gmail.com',
-      port: parseInt(process.env.EMAIL_PORT || '587'),
-      secure: process.env.EMAIL_SECURE === 'true',
-      auth: {
-        user: process.env.EMAIL_USER,
-        pass: process.env.EMAIL_PASSWORD
-      }
-    });
-  }
+  constructor(
+    private dispatcher: NotificationDispatcher = notifications,
+    private templates: NotificationTemplates = notificationTemplates
+  ) {}
 
   /**
-   * Send approval request email with screenshot attachments (multi-platform)
+   * Send approval request with screenshot attachments (multi-platform)
    */
   async sendApprovalRequest(projectState: ProjectState): Promise<void> {
-    const adminEmail = process.env.ADMIN_EMAIL || 'admin@blackstar.com';
-    
-    // Determine platforms
-    const platforms = projectState.platforms || ['web'];
-    const platformStr = platforms.length > 1 
-      ? 'Web + Android' 
-      : platforms[0] === 'android' ? 'Android' : 'Web';
-    
-    const subject = `🌟 [READY] Project: ${projectState.project_name} (${platformStr})`;
-    
-    let html = `
-      <h2>🎉 Project Ready for Deployment Approval</h2>
-      
-      <h3>Project Details</h3>
-      <ul>
-        <li><strong>Name:</strong> ${projectState.project_name}</li>
-        <li><strong>Order ID:</strong> ${projectState.orderId}</li>
-        <li><strong>Platforms:</strong> ${platforms.join(', ').toUpperCase()}</li>
-        <li><strong>Status:</strong> ${projectState.status}</li>
-      </ul>
-
-      <h3>Requirements</h3>
-      <p>${projectState.requirements}</p>
-
-      <h3>Implementation Summary</h3>
-      <ul>
-        ${projectState.plan.map(step => 
-          `<li><strong>${step.title}:</strong> ${step.status === 'completed' ? '✅' : '⏳'}</li>`
-        ).join('\n')}
-      </ul>
-    `;
-
-    // Web Platform Details
-    if (platforms.includes('web') && projectState.webPreviewUrl) {
-      html += `
-        <h3>🌐 Web Platform</h3>
-        <p><strong>Preview URL:</strong> <a href="${projectState.webPreviewUrl}">${projectState.webPreviewUrl}</a></p>
-        <p><em>Currently on Vercel Preview. Will deploy to Production on approval.</em></p>
-      `;
-    }
+    const approval = approvalLinks.issue(projectState);
+    await this.send('approval_needed', 'approval-request', projectState, approvalRequest(projectState, approval));
+  }
 
-    // Android Platform Details
-    if (platforms.includes('android')) {
-      html += `
-        <h3>🤖 Android Platform</h3>
-        <p><strong>Package:</strong> ${projectState.androidPackageName || 'N/A'}</p>
-        <p><em>AAB built and tested on emulator. Will deploy to Google Play Internal on approval.</em></p>
-      `;
-    }
+  /**
+   * Send error report. error is the failure that ended the run (a message or
+   * a thrown error); recorded failures are grouped by category. A run stopped
+   * by its budget goes to the budget_exceeded subscribers instead.
+   */
+  async sendErrorReport(projectState: ProjectState, error: unknown, event: 'error' | 'budget_exceeded' = 'error'): Promise<void> {
+    await this.send(event, 'error-report', projectState, errorReport(projectState, error, event));
+  }
 
-    if (projectState.stripePaymentLink) {
-      html += `
-        <h3>💳 Payment Integration</h3>
-        <p><strong>Stripe Payment Link:</strong> <a href="${projectState.stripePaymentLink}">${projectState.stripePaymentLink}</a></p>
-        <p><em>Note: Currently in TEST mode. Will switch to LIVE on deployment approval.</em></p>
-      `;
-    }
+  /**
+   * Send deployment confirmation (multi-platform)
+   */
+  async sendDeploymentConfirmation(projectState: ProjectState, deploymentUrl?: string): Promise<void> {
+    await this.send('deployed', 'deployment-confirmation', projectState, deploymentConfirmation(projectState, deploymentUrl));
+  }
 
-    html += `
-      <h3>🚀 Deployment Actions</h3>
-      <p><strong>To approve and deploy this project:</strong></p>
-      <pre>POST ${process.env.BASE_URL || 'http://localhost:5000'}/api/deploy-approval</pre>
-      <pre>{ "orderId": "${projectState.orderId}" }</pre>
-
-      <p><strong>Or reply "DEPLOY" to this email (if email hook configured)</strong></p>
-
-      <p><strong>To reject:</strong></p>
-      <pre>POST ${process.env.BASE_URL || 'http://localhost:5000'}/api/deploy-reject</pre>
-      <pre>{ "orderId": "${projectState.orderId}", "reason": "..." }</pre>
-    `;
-
-    const attachments = [];
-    
-    // Attach Web screenshot
-    if (projectState.webScreenshotPath) {
-      attachments.push({
-        filename: 'website-screenshot.png',
-        path: projectState.webScreenshotPath,
-        cid: 'web-screenshot@blackstar'
-      });
-      
-      html += `
-        <h3>📸 Website Preview</h3>
-        <p><img src="cid:web-screenshot@blackstar" alt="Website Screenshot" style="max-width: 800px; border: 2px solid #4A90E2; margin-bottom: 20px;" /></p>
-      `;
-    }
+  /**
+   * Tell the customer about a milestone, once per revision. Skipped without
+   * a customer, after they unsubscribed or when they muted the milestone.
+   * Returns whether a message was sent; the project records it, so persist after.
+   */
+  async notifyCustomer(projectState: ProjectState, milestone: CustomerMilestone, deploymentUrl?: string): Promise<boolean> {
+    const customer = projectState.customer;
+    if (!customer || customer.unsubscribedAt || customer.mutedMilestones?.includes(milestone)) return false;
 
-    // Attach Android screenshot
-    if (projectState.androidScreenshotPath) {
-      attachments.push({
-        filename: 'android-screenshot.png',
-        path: projectState.androidScreenshotPath,
-        cid: 'android-screenshot@blackstar'
-      });
-      
-      html += `
-        <h3>📱 Android App Preview</h3>
-        <p><img src="cid:android-screenshot@blackstar" alt="Android Screenshot" style="max-width: 400px; border: 2px solid #3DDC84; margin-bottom: 20px;" /></p>
-      `;
-    }
+    const revision = projectState.revision || 1;
+    if (customer.notified?.some(n => n.milestone === milestone && n.revision === revision)) return false;
 
-    // Legacy single screenshot support
-    if (projectState.screenshotPath && !projectState.webScreenshotPath && !projectState.androidScreenshotPath) {
-      attachments.push({
-        filename: 'visual-proof.png',
-        path: projectState.screenshotPath,
-        cid: 'screenshot@blackstar'
-      });
-      
-      html += `
-        <h3>📸 Visual Proof of Life</h3>
-        <p><img src="cid:screenshot@blackstar" alt="Screenshot" style="max-width: 800px; border: 2px solid #333;" /></p>
-      `;
-    }
+    const preferencesUrl = customerLinks.preferencesUrl(projectState);
+    const rendered = await this.templates.render(
+      CUSTOMER_TEMPLATES[milestone],
+      customerContext(projectState, milestone, preferencesUrl, deploymentUrl),
+      customer.locale
+    );
 
-    html += `
-      <hr>
-      <p><em>The Black Star Sweatshop - Autonomous Revenue Agent with Logistics Division</em></p>
-    `;
-
-    await this.transporter.sendMail({
-      from: process.env.EMAIL_USER,
-      to: adminEmail,
-      subject,
-      html,
-      attachments
+    await this.dispatcher.dispatch({
+      event: 'customer_milestone',
+      orderId: projectState.orderId,
+      projectName: projectState.project_name,
+      subject: rendered.subject,
+      summary: rendered.summary,
+      html: rendered.html,
+      text: rendered.text,
+      recipient: { email: customer.email, name: customer.name },
+      headers: {
+        'List-Unsubscribe': `<${preferencesUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+      },
+      data: { milestone, revision }
     });
+
+    customer.notified = [...(customer.notified || []), { milestone, revision, sentAt: new Date().toISOString() }];
+    return true;
   }
 
   /**
-   * Send error report email when validation fails repeatedly
+   * Render a template against a project without sending anything. Approval
+   * and preference links are placeholders, so previews never issue real ones.
    */
-  async sendErrorReport(projectState: ProjectState, error: string): Promise<void> {
-    const adminEmail = process.env.ADMIN_EMAIL || 'admin@blackstar.com';
-    
-    const subject = `🚨 [BLACK STAR] Project Failed: ${projectState.project_name}`;
-    
-    const html = `
-      <h2>Project Execution Failed</h2>
-      
-      <h3>Project Details</h3>
-      <ul>
-        <li><strong>Name:</strong> ${projectState.project_name}</li>
-        <li><strong>Order ID:</strong> ${projectState.orderId}</li>
-        <li><strong>Status:</strong> ${projectState.status}</li>
-        <li><strong>Failure Count:</strong> ${projectState.failureCount}</li>
-      </ul>
-
-      <h3>Requirements</h3>
-      <p>${projectState.requirements}</p>
-
-      <h3>Error Details</h3>
-      <pre style="background: #f5f5f5; padding: 15px; border-left: 3px solid red;">${error}</pre>
-
-      <h3>Progress</h3>
-      <ul>
-        ${projectState.plan.map(step => 
-          `<li><strong>${step.title}:</strong> ${step.status} (${step.retries} retries)</li>`
-        ).join('\n')}
-      </ul>
-
-      <p><em>The agent has stopped after 3 consecutive failures to prevent token burn.</em></p>
-
-      <hr>
-      <p><em>The Black Star Sweatshop - Autonomous Revenue Agent</em></p>
-    `;
-
-    await this.transporter.sendMail({
-      from: process.env.EMAIL_USER,
-      to: adminEmail,
-      subject,
-      html
+  async preview(template: string, projectState: ProjectState, locale?: string): Promise<RenderedTemplate> {
+    const composed = previewContext(template, projectState);
+    return this.templates.render(template, composed.context, locale ?? (template.startsWith('customer-') ? projectState.customer?.locale : undefined));
+  }
+
+  private async send(event: NotificationEvent, template: string, projectState: ProjectState, composed: Composed): Promise<void> {
+    const rendered = await this.templates.render(template, composed.context);
+
+    await this.dispatcher.dispatch({
+      event,
+      orderId: projectState.orderId,
+      projectName: projectState.project_name,
+      subject: rendered.subject,
+      summary: rendered.summary,
+      html: rendered.html,
+      text: rendered.text,
+      attachments: composed.attachments,
+      links: composed.links,
+      data: composed.data
     });
   }
+}
 
-  /**
-   * Send deployment confirmation (multi-platform)
-   */
-  async sendDeploymentConfirmation(projectState: ProjectState, deploymentUrl?: string): Promise<void> {
-    const adminEmail = process.env.ADMIN_EMAIL || 'admin@blackstar.com';
-    
-    const platforms = projectState.platforms || ['web'];
-    const platformStr = platforms.join(' + ').toUpperCase();
-    
-    const subject = `✅ [BLACK STAR] ${platformStr} Deployed: ${projectState.project_name}`;
-    
-    let html = `
-      <h2>🎉 Project Successfully Deployed to Production!</h2>
-      
-      <h3>Project Details</h3>
-      <ul>
-        <li><strong>Name:</strong> ${projectState.project_name}</li>
-        <li><strong>Order ID:</strong> ${projectState.orderId}</li>
-        <li><strong>Platforms:</strong> ${platformStr}</li>
-      </ul>
-    `;
-
-    if (deploymentUrl) {
-      // Parse multi-line deployment URLs
-      const urls = deploymentUrl.split('\n');
-      html += `<h3>🚀 Live Deployments</h3><ul>`;
-      urls.forEach(url => {
-        if (url.trim()) {
-          const [platform, link] = url.split(':').map(s => s.trim());
-          if (link && link.startsWith('http')) {
-            html += `<li><strong>${platform}:</strong> <a href="${link}">${link}</a></li>`;
-          } else {
-            html += `<li>${url}</li>`;
-          }
-        }
-      });
-      html += `</ul>`;
+/**
+ * Fields every template can use
+ */
+function projectContext(projectState: ProjectState): Record<string, unknown> {
+  const platforms = projectState.platforms || ['web'];
+  return {
+    name: projectState.project_name,
+    orderId: projectState.orderId,
+    status: projectState.status,
+    revision: projectState.revision || 1,
+    platforms,
+    platformLabel: platforms.length > 1 ? 'Web + Android' : platforms[0] === 'android' ? 'Android' : 'Web',
+    requirements: projectState.requirements,
+    planDegraded: projectState.planDegraded || false,
+    failureCount: projectState.failureCount,
+    plan: projectState.plan.map(step => ({
+      title: step.title,
+      status: step.status,
+      retries: step.retries,
+      completed: step.status === 'completed'
+    }))
+  };
+}
+
+/**
+ * Payment links with the price each charges, for the admin
+ */
+function paymentContext(projectState: ProjectState): Record<string, unknown> | undefined {
+  if (!projectState.stripePaymentLink) return undefined;
+  const pricing = projectState.resolvedPricing;
+
+  return {
+    link: projectState.stripePaymentLink,
+    tiers: (projectState.stripePaymentLinks || []).map(link => {
+      const tier = pricing?.tiers.find(t => t.name === link.tier);
+      return { name: link.tier, url: link.url, price: tier && describeTier(tier, pricing!.currency) };
+    }),
+    source: pricing && PRICING_SOURCES[pricing.source],
+    taxBehavior: pricing?.taxBehavior,
+    automaticTax: pricing?.automaticTax || false
+  };
+}
+
+function approvalRequest(projectState: ProjectState, approval: ApprovalUrls): Composed {
+  const platforms = projectState.platforms || ['web'];
+  const attachments: NotificationAttachment[] = [];
+  const screenshots: Record<string, unknown>[] = [];
+
+  // Platform screenshots, or the legacy single screenshot
+  if (projectState.webScreenshotPath) {
+    attachments.push({ filename: 'website-screenshot.png', path: projectState.webScreenshotPath, cid: 'web-screenshot@blackstar' });
+    screenshots.push({ kind: 'web', cid: 'web-screenshot@blackstar' });
+  }
+  if (projectState.androidScreenshotPath) {
+    attachments.push({ filename: 'android-screenshot.png', path: projectState.androidScreenshotPath, cid: 'android-screenshot@blackstar' });
+    screenshots.push({ kind: 'android', cid: 'android-screenshot@blackstar' });
+  }
+  if (projectState.screenshotPath && !projectState.webScreenshotPath && !projectState.androidScreenshotPath) {
+    attachments.push({ filename: 'visual-proof.png', path: projectState.screenshotPath, cid: 'screenshot@blackstar' });
+    screenshots.push({ kind: 'legacy', cid: 'screenshot@blackstar' });
+  }
+
+  // Revision screenshots and what changed since the previous revision sent for review
+  const visualRevision = projectState.visualRevisions?.find(r => r.revision === (projectState.revision || 1));
+  const visual = visualRevision && {
+    revision: visualRevision.revision,
+    baselineRevision: visualRevision.baselineRevision,
+    snapshots: visualRevision.snapshots.map(snapshot => {
+      const cid = `revision-${snapshot.viewport}@blackstar`;
+      const diffCid = snapshot.diffPath ? `revision-${snapshot.viewport}-diff@blackstar` : undefined;
+      attachments.push({ filename: `r${visualRevision.revision}-${snapshot.viewport}.png`, path: snapshot.screenshotPath, cid });
+      if (snapshot.diffPath) {
+        attachments.push({ filename: `r${visualRevision.revision}-${snapshot.viewport}-diff.png`, path: snapshot.diffPath, cid: diffCid });
+      }
+      return {
+        viewport: snapshot.viewport,
+        width: snapshot.width,
+        height: snapshot.height,
+        maxWidth: Math.min(snapshot.width, 800),
+        measured: snapshot.diffPercent !== undefined,
+        diffPercent: snapshot.diffPercent,
+        cid,
+        diffCid
+      };
+    })
+  };
+
+  const accessibility = projectState.webAccessibility;
+  const web = platforms.includes('web') && projectState.webPreviewUrl ? {
+    previewUrl: projectState.webPreviewUrl,
+    accessibility: accessibility && {
+      counts: accessibility.counts,
+      threshold: accessibility.threshold,
+      violations: accessibility.violations.slice(0, MAX_ACCESSIBILITY_VIOLATIONS).map(v => ({ ...v, viewports: v.viewports.join(', ') }))
     }
+  } : undefined;
 
-    if (platforms.includes('android')) {
-      html += `
-        <h3>🤖 Android Deployment</h3>
-        <p><strong>Status:</strong> Deployed to Google Play Internal Track</p>
-        <p><strong>Package:</strong> ${projectState.androidPackageName || 'N/A'}</p>
-        <p><em>Access via Google Play Console → Internal Testing</em></p>
-      `;
+  return {
+    context: {
+      project: projectContext(projectState),
+      web,
+      android: platforms.includes('android') ? { packageName: projectState.androidPackageName || 'N/A' } : undefined,
+      payment: paymentContext(projectState),
+      approval: { approveUrl: approval.approveUrl, rejectUrl: approval.rejectUrl, expiresAt: approval.expiresAt.toISOString() },
+      screenshots,
+      visual
+    },
+    attachments,
+    // The signed approve/reject links only go out by email - chat and webhooks get the status
+    links: [
+      ...(projectState.webPreviewUrl ? [{ label: 'Preview', url: projectState.webPreviewUrl }] : []),
+      { label: 'Project status', url: `${baseUrl()}/api/project-status/${encodeURIComponent(projectState.orderId)}` }
+    ],
+    data: {
+      status: projectState.status,
+      revision: projectState.revision || 1,
+      platforms,
+      previewUrl: projectState.webPreviewUrl,
+      paymentLink: projectState.stripePaymentLink,
+      paymentLinks: projectState.stripePaymentLinks,
+      planDegraded: projectState.planDegraded || false,
+      approvalExpiresAt: approval.expiresAt.toISOString()
     }
+  };
+}
+
+function errorReport(projectState: ProjectState, error: unknown, event: 'error' | 'budget_exceeded'): Composed {
+  const report = ErrorHandler.createErrorReport(projectState, error);
+  const budget = event === 'budget_exceeded' ? projectState.budgetExceeded : undefined;
 
-    if (projectState.stripePaymentLink) {
-      html += `
-        <h3>💳 Live Payment Link</h3>
-        <p><a href="${projectState.stripePaymentLink}">${projectState.stripePaymentLink}</a></p>
-        <p><em>✅ Stripe is now in LIVE mode.</em></p>
-      `;
+  return {
+    context: {
+      project: projectContext(projectState),
+      budget,
+      error: {
+        message: report.error,
+        category: report.category,
+        categoryLabel: report.category ? CATEGORY_LABELS[report.category] : undefined,
+        retryable: report.retryable,
+        remediation: report.remediation
+      },
+      failureGroups: report.failures.map(group => ({
+        label: CATEGORY_LABELS[group.category],
+        count: group.failures.length,
+        remediation: group.remediation,
+        failures: group.failures.slice(-MAX_FAILURES_PER_CATEGORY).map(failure => ({
+          step: projectState.plan.find(s => s.id === failure.stepId)?.title,
+          message: failure.message.split('\n')[0]
+        }))
+      }))
+    },
+    data: {
+      status: projectState.status,
+      error: report.error,
+      category: report.category,
+      retryable: report.retryable,
+      remediation: report.remediation,
+      failureCount: projectState.failureCount,
+      failures: report.failures.map(group => ({ category: group.category, count: group.failures.length })),
+      ...(budget ? { spentUsd: budget.spentUsd, budgetUsd: budget.budgetUsd } : {})
     }
+  };
+}
 
-    html += `
-      <hr>
-      <p><em>The Black Star Sweatshop - Autonomous Revenue Agent with Logistics Division</em></p>
-      <p><small>Multi-Platform Deployment: Web (Vercel) + Android (Google Play)</small></p>
-    `;
-
-    await this.transporter.sendMail({
-      from: process.env.EMAIL_USER,
-      to: adminEmail,
-      subject,
-      html
-    });
+function deploymentConfirmation(projectState: ProjectState, deploymentUrl?: string): Composed {
+  const platforms = projectState.platforms || ['web'];
+
+  // Multi-line "Platform: URL" deployment list
+  const deployments = (deploymentUrl || '').split('\n').filter(line => line.trim()).map(line => {
+    const separator = line.indexOf(':');
+    const url = line.slice(separator + 1).trim();
+    return separator !== -1 && url.startsWith('http')
+      ? { platform: line.slice(0, separator).trim(), url }
+      : { text: line.trim() };
+  });
+
+  const links: NotificationLink[] = deployments
+    .filter((d): d is { platform: string; url: string } => 'url' in d)
+    .map(d => ({ label: d.platform, url: d.url }));
+  if (projectState.stripePaymentLinks && projectState.stripePaymentLinks.length > 1) {
+    links.push(...projectState.stripePaymentLinks.map(l => ({ label: `Payment link (${l.tier})`, url: l.url })));
+  } else if (projectState.stripePaymentLink) {
+    links.push({ label: 'Payment link', url: projectState.stripePaymentLink });
   }
+
+  return {
+    context: {
+      project: projectContext(projectState),
+      deployments,
+      android: platforms.includes('android') ? { packageName: projectState.androidPackageName || 'N/A' } : undefined,
+      payment: paymentContext(projectState)
+    },
+    links,
+    data: {
+      platforms,
+      deployments: deployments.map(d => 'url' in d ? `${d.platform}: ${d.url}` : d.text),
+      androidPackageName: projectState.androidPackageName,
+      paymentLink: projectState.stripePaymentLink,
+      paymentLinks: projectState.stripePaymentLinks
+    }
+  };
+}
+
+/**
+ * Everything a customer template sees. Only add fields here that are safe
+ * to show the customer.
+ */
+function customerContext(projectState: ProjectState, milestone: CustomerMilestone, preferencesUrl: string, deploymentUrl?: string): Record<string, unknown> {
+  const platforms = projectState.platforms || ['web'];
+  const deployments = milestone === 'deployed'
+    ? (deploymentUrl || '').split('\n').map(line => {
+        const separator = line.indexOf(':');
+        const url = line.slice(separator + 1).trim();
+        return separator !== -1 && url.startsWith('http') ? { platform: line.slice(0, separator).trim(), url } : undefined;
+      }).filter(Boolean)
+    : [];
+
+  return {
+    customer: { name: projectState.customer?.name },
+    project: {
+      name: projectState.project_name,
+      orderId: projectState.orderId,
+      revision: projectState.revision || 1,
+      platformLabel: platforms.length > 1 ? 'Web + Android' : platforms[0] === 'android' ? 'Android' : 'Web'
+    },
+    plan: milestone === 'plan_ready' ? projectState.plan.map(step => ({ title: step.title })) : [],
+    previewUrl: milestone === 'preview_ready' ? projectState.webPreviewUrl : undefined,
+    deployments,
+    android: milestone === 'deployed' && platforms.includes('android') ? { packageName: projectState.androidPackageName } : undefined,
+    payments: milestone === 'deployed' ? customerPayments(projectState) : [],
+    preferencesUrl
+  };
+}
+
+/**
+ * Live payment links; tier names only when there is more than one
+ */
+function customerPayments(projectState: ProjectState): { name?: string; url: string }[] {
+  const links = projectState.stripePaymentLinks;
+  if (links && links.length > 1) return links.map(l => ({ name: l.tier, url: l.url }));
+  return projectState.stripePaymentLink ? [{ url: projectState.stripePaymentLink }] : [];
+}
+
+/**
+ * Data for previewing a template. Unknown (operator-added) templates get the project fields.
+ */
+function previewContext(template: string, projectState: ProjectState): Composed {
+  const base = baseUrl();
+  const milestone = (Object.keys(CUSTOMER_TEMPLATES) as CustomerMilestone[]).find(m => CUSTOMER_TEMPLATES[m] === template);
+
+  if (milestone) {
+    const deploymentUrl = projectState.webPreviewUrl ? `Web: ${projectState.webPreviewUrl}` : undefined;
+    return { context: customerContext(projectState, milestone, `${base}/api/customer/preferences/preview`, deploymentUrl) };
+  }
+
+  switch (template) {
+    case 'approval-request':
+      return approvalRequest(projectState, {
+        approveUrl: `${base}/api/approval/preview-approve`,
+        rejectUrl: `${base}/api/approval/preview-reject`,
+        expiresAt: new Date(Date.now() + 72 * 60 * 60 * 1000)
+      });
+    case 'error-report':
+      return errorReport(projectState, projectState.failureReason || 'Preview error', projectState.budgetExceeded ? 'budget_exceeded' : 'error');
+    case 'deployment-confirmation':
+      return deploymentConfirmation(projectState, projectState.webPreviewUrl ? `Web: ${projectState.webPreviewUrl}` : undefined);
+    default:
+      return { context: { project: projectContext(projectState) } };
+  }
+}
+
+function baseUrl(): string {
+  return (process.env.BASE_URL || 'http://localhost:5000').replace(/\/$/, '');
 }
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ProjectState } from './types';
+
+// Keep the orchestrator's projects directory, store and outbox out of the repo
+process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-test-')));
+process.env.PROJECT_STORE = 'memory';
+process.env.NOTIFY_FILE_DIR = path.join(process.cwd(), 'outbox');
+process.env.STRIPE_TEST_KEY = process.env.STRIPE_TEST_KEY || 'sk_test_unit';
+
+const { BlackStarOrchestrator } = await import('./orchestrator');
+
+interface Internals {
+  ready: Promise<void>;
+  activeProjects: Map<string, ProjectState>;
+  logisticsExecutor: { deployWebProduction(projectState: ProjectState): Promise<{ success: boolean; url?: string }> };
+  executor: { deployProject(projectState: ProjectState): Promise<{ success: boolean }> };
+  notifier: object;
+}
+
+function orchestratorWith(projectState: ProjectState) {
+  const orchestrator = new BlackStarOrchestrator();
+  const internals = orchestrator as unknown as Internals;
+  const deploys: string[] = [];
+
+  internals.activeProjects.set(projectState.orderId, projectState);
+  internals.logisticsExecutor = {
+    async deployWebProduction(state) {
+      deploys.push(state.orderId);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return { success: true, url: 'https://example.vercel.app' };
+    }
+  };
+  internals.executor = {
+    async deployProject(state) {
+      state.status = 'completed';
+      return { success: true };
+    }
+  };
+  internals.notifier = {
+    sendDeploymentConfirmation: async () => undefined,
+    sendErrorReport: async () => undefined,
+    notifyCustomer: async () => undefined
+  };
+
+  return { orchestrator, internals, deploys };
+}
+
+function project(status: ProjectState['status']): ProjectState {
+  return {
+    orderId: `order-${status}`,
+    project_name: 'Test project',
+    requirements: 'A landing page',
+    status,
+    plan: [],
+    currentStep: 0,
+    failureCount: 0,
+    workspaceDir: process.cwd(),
+    platforms: ['web'],
+    revision: 1
+  } as unknown as ProjectState;
+}
+
+test('two concurrent approvals deploy to production once', async () => {
+  const { orchestrator, internals, deploys } = orchestratorWith(project('awaiting_approval'));
+  await internals.ready;
+
+  const [first, second] = await Promise.all([
+    orchestrator.approveDeployment('order-awaiting_approval'),
+    orchestrator.approveDeployment('order-awaiting_approval')
+  ]);
+
+  assert.deepEqual(deploys, ['order-awaiting_approval']);
+  assert.equal(first.success, true);
+  assert.equal(second.success, false);
+  assert.match(second.error || '', /deploying state, not awaiting approval/);
+});
+
+test('rejection is refused unless the project awaits approval', async () => {
+  for (const status of ['queued', 'coding', 'deploying'] as const) {
+    const projectState = project(status);
+    const { orchestrator, internals } = orchestratorWith(projectState);
+    await internals.ready;
+
+    const result = await orchestrator.rejectDeployment(projectState.orderId, 'Make the logo bigger');
+
+    assert.equal(result.success, false);
+    assert.equal(projectState.revision, 1);
+    assert.equal(projectState.status, status);
+  }
+});
@@ -3,13 +3,26 @@
  * Main agent that coordinates all components
  */
 
-import { ProjectOrder, ProjectState } from './types';
+import { CustomerMilestone, ProjectOrder, ProjectState, UsageRecord, UsageTotals } from './types';
 import { Planner } from './planner';
 import { Executor } from './executor';
 import { Notifier } from './notifier';
 import { ErrorHandler } from './error-handler';
+import { BudgetError, BuildError, DeployError } from './errors';
+import { resilience, ServiceUnavailableError, BreakerState } from './resilience';
+import { approvalLinks, ApprovalCheck, refuse } from './approval-links';
+import { customerLinks, CustomerLinkCheck, CUSTOMER_MILESTONES } from './customer-links';
+import { notifications } from './notifications';
 import { LogisticsExecutor } from './logistics-executor';
+import { PerceptionLayer } from './perception-layer';
+import { IProjectStore, createProjectStore } from './project-store';
+import { JobQueue } from './job-queue';
+import { agentEvents } from './event-bus';
+import { RunController, RunInterruptedError, InterruptReason, runWithContext, checkpoint, currentContext } from './run-control';
+import { Cassette } from './cassette';
+import { summarizeUsage, resolveBudget, addUsage, emptyTotals } from './usage';
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
 import { nanoid } from 'nanoid';
 
@@ -18,36 +31,150 @@ export class BlackStarOrchestrator {
   private executor: Executor;
   private notifier: Notifier;
   private logisticsExecutor: LogisticsExecutor;
+  private perceptionLayer: PerceptionLayer;
   private projectsDir: string;
   private activeProjects: Map<string, ProjectState>;
+  private store: IProjectStore;
+  private queue: JobQueue;
+  private controllers: Map<string, RunController>;
+  private lastStatuses: Map<string, ProjectState['status']>;
+  private ready: Promise<void>;
+  private cassetteDir: string;
 
   constructor() {
     this.planner = new Planner();
     this.executor = new Executor();
     this.notifier = new Notifier();
-    this.logisticsExecutor = new LogisticsExecutor();
+    this.queue = JobQueue.fromEnvironment();
+    this.logisticsExecutor = new LogisticsExecutor(this.queue);
+    this.perceptionLayer = new PerceptionLayer();
     this.projectsDir = path.join(process.cwd(), 'projects');
     this.activeProjects = new Map();
+    this.controllers = new Map();
+    this.lastStatuses = new Map();
+    this.store = createProjectStore(this.projectsDir);
+    this.cassetteDir = process.env.AGENT_CASSETTE_DIR || path.join(this.projectsDir, '.cassettes');
+
+    resilience.onStateChange((service, state) => this.onServiceStateChange(service, state));
     
-    this.initializeWorkspace();
+    this.ready = this.initializeWorkspace();
   }
 
   /**
-   * Initialize workspace directory
+   * Initialize workspace directory and restore persisted projects
    */
   private async initializeWorkspace(): Promise<void> {
     try {
       await fs.mkdir(this.projectsDir, { recursive: true });
       console.log(`[Orchestrator] Workspace initialized: ${this.projectsDir}`);
+
+      await this.store.init();
+      await notifications.start();
+      await this.restoreProjects();
     } catch (error) {
       console.error('[Orchestrator] Failed to initialize workspace:', error);
     }
   }
 
+  /**
+   * Reload persisted projects and resume runs interrupted by a restart.
+   * Runs that were planning, coding or building start again at their first
+   * unfinished step; an interrupted deployment (marked deploying as soon as it
+   * is approved) goes back to awaiting approval (approving again retries it). Projects awaiting approval just keep waiting.
+   */
+  private async restoreProjects(): Promise<void> {
+    const projects = await this.store.list();
+
+    for (const projectState of projects) {
+      this.activeProjects.set(projectState.orderId, projectState);
+    }
+
+    const interrupted = projects.filter(p => ['queued', 'planning', 'coding', 'validating', 'building'].includes(p.status));
+    const deploying = projects.filter(p => p.status === 'deploying');
+
+    console.log(`[Orchestrator] Restored ${projects.length} projects (${interrupted.length} to resume)`);
+
+    // Runs paused by an outage resume on their own
+    projects
+      .filter(p => p.status === 'paused' && p.outage)
+      .forEach(p => this.scheduleOutageResume(p));
+
+    for (const projectState of deploying) {
+      console.warn(`[Orchestrator] ⚠️  Deployment of ${projectState.project_name} was interrupted by a restart`);
+      const failedBefore = projectState.failures?.length || 0;
+      ErrorHandler.recordFailure(projectState, new DeployError('Deployment interrupted by a server restart; approve again to retry it'));
+      await this.settleFailedDeployment(projectState, failedBefore, 'Deployment interrupted by a server restart');
+    }
+
+    for (const projectState of interrupted) {
+      console.log(`[Orchestrator] 🔄 Resuming ${projectState.project_name} at step ${projectState.currentStep + 1} (${projectState.status})`);
+      if (projectState.status === 'planning') {
+        // Planning never completed - start over with a fresh plan
+        projectState.plan = [];
+        projectState.currentStep = 0;
+      }
+      this.resetInterruptedSteps(projectState);
+      await this.enqueue(projectState);
+    }
+  }
+
+  /**
+   * A step left in progress did not finish - run it again from scratch
+   */
+  private resetInterruptedSteps(projectState: ProjectState): void {
+    for (const step of projectState.plan) {
+      if (step.status === 'in_progress') {
+        step.status = 'pending';
+      }
+    }
+  }
+
+  /**
+   * Put a project on the job queue. Execution starts when a worker is free.
+   */
+  private async enqueue(projectState: ProjectState): Promise<void> {
+    projectState.status = 'queued';
+    projectState.failureReason = undefined;
+    projectState.budgetExceeded = undefined;
+    await this.persist(projectState);
+
+    this.queue.enqueue(
+      projectState.orderId,
+      () => this.executeOrderAsync(projectState),
+      projectState.priority || 0
+    );
+  }
+
+  /**
+   * Write project state to the store. Persistence failures are logged, not fatal.
+   * Every status change passes through here, so this is also where phase events are emitted.
+   */
+  private async persist(projectState: ProjectState): Promise<void> {
+    const previous = this.lastStatuses.get(projectState.orderId);
+    if (previous !== projectState.status) {
+      this.lastStatuses.set(projectState.orderId, projectState.status);
+      agentEvents.emit(projectState.orderId, {
+        type: 'phase',
+        phase: projectState.status,
+        previous
+      });
+    }
+
+    // Replays run outside the project store
+    if (currentContext()?.cassette?.mode === 'replay') return;
+
+    try {
+      await this.store.save(projectState);
+    } catch (error) {
+      console.error(`[Orchestrator] Failed to persist project ${projectState.orderId}:`, error);
+    }
+  }
+
   /**
    * Receive and process a new project order
    */
   async receiveOrder(order: ProjectOrder): Promise<ProjectState> {
+    await this.ready;
     console.log(`\n[Orchestrator] 🌟 Received new order: ${order.project_name}`);
     
     // Create project workspace
@@ -61,44 +188,209 @@ export class BlackStarOrchestrator {
       requirements: order.requirements,
       plan: [],
       currentStep: 0,
-      status: 'planning',
+      status: 'queued',
       workspaceDir,
-      failureCount: 0
+      failureCount: 0,
+      priority: order.priority || 0,
+      budgetUsd: order.budgetUsd,
+      customer: order.customer && { ...order.customer },
+      pricing: order.pricing
     };
 
     this.activeProjects.set(order.orderId, projectState);
 
-    // Start autonomous execution
-    this.executeOrderAsync(projectState);
+    // Sent first, so it always arrives before the plan
+    await this.notifyCustomer(projectState, 'order_accepted');
+
+    // Queue for autonomous execution
+    await this.enqueue(projectState);
 
     return projectState;
   }
 
   /**
    * Autonomous execution pipeline (runs in background)
+   * Runs under a RunController so cancel/pause reach every phase.
+   * With AGENT_CASSETTE_MODE=record every run is recorded to <cassette dir>/<orderId>.json;
+   * a replay cassette serves the recorded responses instead of calling out.
    */
-  private async executeOrderAsync(projectState: ProjectState): Promise<void> {
+  private async executeOrderAsync(projectState: ProjectState, replay?: Cassette): Promise<void> {
+    const controller = new RunController();
+    const recording = !replay && process.env.AGENT_CASSETTE_MODE === 'record'
+      ? Cassette.record(path.join(this.cassetteDir, `${projectState.orderId}.json`), projectState)
+      : undefined;
+
+    if (!replay) {
+      this.controllers.set(projectState.orderId, controller);
+    }
+
     try {
-      // PHASE 1: PLANNING
-      console.log(`\n[Orchestrator] 📋 Phase 1: Planning`);
-      projectState.status = 'planning';
-      
-      const plan = await this.planner.generatePlan({
-        orderId: projectState.orderId,
-        project_name: projectState.project_name,
-        requirements: projectState.requirements
-      });
+      await runWithContext(
+        {
+          orderId: projectState.orderId,
+          controller,
+          cassette: replay || recording,
+          onUsage: record => this.recordUsage(projectState, controller, record),
+          onOutage: error => this.pauseForOutage(projectState, controller, error)
+        },
+        () => this.runPipeline(projectState)
+      );
+    } finally {
+      if (!replay) {
+        this.controllers.delete(projectState.orderId);
+      }
+      if (recording) {
+        recording.setFinalState(projectState);
+        await recording.save().then(
+          () => console.log(`[Orchestrator] 📼 Run recorded to ${recording.filePath}`),
+          error => console.error('[Orchestrator] Failed to save cassette:', error)
+        );
+      }
+    }
+  }
 
-      projectState.plan = plan;
-      await this.planner.savePlanToFile(projectState.workspaceDir, plan);
-      
-      console.log(`[Orchestrator] ✅ Plan generated with ${plan.length} steps`);
+  /**
+   * Add a model call to the order's ledger and stop the run once it is over budget
+   */
+  private recordUsage(projectState: ProjectState, controller: RunController, record: UsageRecord): void {
+    projectState.usage = projectState.usage || [];
+    projectState.usage.push(record);
+
+    const budget = resolveBudget(projectState.budgetUsd);
+    if (budget === undefined) return;
+
+    const spent = projectState.usage.reduce((sum, r) => sum + r.costUsd, 0);
+    if (spent > budget && !controller.reason) {
+      console.error(`[Orchestrator] 💸 ${projectState.project_name} exceeded its budget ($${spent.toFixed(4)} of $${budget.toFixed(2)})`);
+      projectState.budgetExceeded = { spentUsd: spent, budgetUsd: budget, exceededAt: new Date().toISOString() };
+      const failure = ErrorHandler.recordFailure(projectState, new BudgetError(
+        `Budget exceeded: spent $${spent.toFixed(4)} of $${budget.toFixed(2)} on model calls`
+      ));
+      controller.fail(failure.message);
+    }
+  }
+
+  /**
+   * Pause a run whose service is down instead of letting it burn retries.
+   * The run unwinds as paused and is re-queued when the service is retried.
+   */
+  private pauseForOutage(projectState: ProjectState, controller: RunController, error: ServiceUnavailableError): void {
+    if (controller.reason) return;
+
+    console.warn(`[Orchestrator] 🔌 Pausing ${projectState.project_name}: ${error.message}`);
+    projectState.outage = {
+      service: error.service,
+      message: error.message,
+      pausedAt: new Date().toISOString(),
+      retryAt: error.retryAt.toISOString()
+    };
+    agentEvents.emit(projectState.orderId, {
+      type: 'outage',
+      service: error.service,
+      retryAt: projectState.outage.retryAt,
+      error: error.message
+    });
+    controller.pause();
+  }
+
+  /**
+   * Re-queue a run paused by an outage once its retry time comes
+   */
+  private scheduleOutageResume(projectState: ProjectState): void {
+    const delay = Math.max(0, Date.parse(projectState.outage!.retryAt) - Date.now());
+
+    setTimeout(() => {
+      // Cancelled, or resumed by hand in the meantime
+      if (projectState.status !== 'paused' || !projectState.outage) return;
+
+      console.log(`[Orchestrator] 🔌 Retrying ${projectState.project_name} after the ${projectState.outage.service} outage`);
+      projectState.outage = undefined;
+      this.enqueue(projectState).catch(error => console.error('[Orchestrator] Failed to resume after outage:', error));
+    }, delay).unref();
+  }
+
+  /**
+   * No new orders start while a service's circuit is open
+   */
+  private onServiceStateChange(service: string, state: BreakerState): void {
+    if (state === 'open') {
+      this.queue.hold(`${service} unavailable`);
+    } else {
+      this.queue.release(`${service} unavailable`);
+    }
+  }
+
+  /**
+   * Re-run a recorded order offline in a fresh temporary workspace.
+   * Nothing is persisted; the final state, the state the recording ended with and
+   * the number of recordings the run did not use are returned.
+   */
+  async replayOrder(cassettePath: string): Promise<{
+    projectState: ProjectState;
+    recordedState?: ProjectState;
+    unusedInteractions: number;
+  }> {
+    await this.ready;
+
+    const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), 'blackstar-replay-'));
+    const cassette = await Cassette.load(cassettePath, workspaceDir);
+    const projectState = cassette.initialState();
+
+    console.log(`\n[Orchestrator] 📼 Replaying ${projectState.project_name} (${cassette.orderId}) in ${workspaceDir}`);
+    await this.executeOrderAsync(projectState, cassette);
+
+    const unused = cassette.unused();
+    if (unused.length > 0) {
+      console.warn(`[Orchestrator] ⚠️  Replay left ${unused.length} recorded interactions unused:`, unused.map(i => `${i.kind} ${i.label}`));
+    }
+
+    return { projectState, recordedState: cassette.finalState(), unusedInteractions: unused.length };
+  }
+
+  private async runPipeline(projectState: ProjectState): Promise<void> {
+    try {
+      // PHASE 1: PLANNING (skipped when resuming a run that already has a plan)
+      if (projectState.plan.length === 0) {
+        console.log(`\n[Orchestrator] 📋 Phase 1: Planning`);
+        projectState.status = 'planning';
+        await this.persist(projectState);
+        
+        const planResult = await this.queue.runPhase('planning', () =>
+          this.planner.generatePlan({
+            orderId: projectState.orderId,
+            project_name: projectState.project_name,
+            requirements: projectState.requirements
+          })
+        );
+
+        projectState.plan = planResult.steps;
+        projectState.currentStep = 0;
+        projectState.planDegraded = planResult.usedFallback;
+        projectState.planIssues = planResult.issues;
+        await this.planner.savePlanToFile(projectState.workspaceDir, planResult.steps);
+        
+        if (planResult.usedFallback) {
+          console.warn(`[Orchestrator] ⚠️  Using fallback plan (${planResult.issues.length} planning issues)`);
+        }
+        console.log(`[Orchestrator] ✅ Plan generated with ${planResult.steps.length} steps`);
+
+        projectState.status = 'coding';
+        await this.persist(projectState);
+        await this.notifyCustomer(projectState, 'plan_ready');
+      }
 
       // PHASE 2: EXECUTION
       console.log(`\n[Orchestrator] 🔨 Phase 2: Execution`);
       projectState.status = 'coding';
+      await this.persist(projectState);
       
-      const result = await this.executor.executeProject(projectState);
+      const result = await this.queue.runPhase('coding', () =>
+        this.executor.executeProject(
+          projectState,
+          (state) => this.persist(state)
+        )
+      );
+      await this.persist(result);
       
       // Check if execution failed
       if (result.status === 'failed') {
@@ -106,14 +398,9 @@ export class BlackStarOrchestrator {
         ErrorHandler.logProjectState(result, 'Failed Project State');
         
         // Send error report email
-        const errorReport = ErrorHandler.createErrorReport(
-          result,
-          `Project failed after ${result.failureCount} consecutive failures. Check the logs for details.`
-        );
-        
         await this.notifier.sendErrorReport(
           result,
-          errorReport.error
+          result.failureReason || `Project failed after ${result.failureCount} consecutive failures. Check the logs for details.`
         );
         
         return;
@@ -122,6 +409,7 @@ export class BlackStarOrchestrator {
       // PHASE 3: BUILD & DEPLOYMENT (Multi-Platform)
       console.log(`\n[Orchestrator] 🚀 Phase 3: Build & Deployment (Logistics)`);
       projectState.status = 'building';
+      await this.persist(projectState);
       
       // Detect platforms from requirements
       projectState.platforms = this.logisticsExecutor.detectPlatforms(projectState.requirements);
@@ -129,6 +417,8 @@ export class BlackStarOrchestrator {
       
       // Build all platforms
       const buildResult = await this.logisticsExecutor.buildAllPlatforms(projectState);
+      checkpoint();
+      await this.persist(projectState);
       
       if (!buildResult.overallSuccess) {
         console.error(`\n[Orchestrator] ❌ Build failed`);
@@ -141,7 +431,12 @@ export class BlackStarOrchestrator {
         if (buildResult.android && !buildResult.android.success) {
           errors.push(`Android: ${buildResult.android.error}`);
         }
+        errors.forEach(error => ErrorHandler.recordFailure(projectState, new BuildError(error)));
         
+        projectState.status = 'failed';
+        projectState.failureReason = `Build failed: ${errors.join('; ')}`;
+        await this.persist(projectState);
+
         await this.notifier.sendErrorReport(
           projectState,
           `Build failed:\n${errors.join('\n')}`
@@ -150,32 +445,289 @@ export class BlackStarOrchestrator {
         return;
       }
 
+      if (projectState.platforms.includes('web')) {
+        await this.captureVisualRevision(projectState);
+      }
+
       // PHASE 4: APPROVAL REQUEST
       console.log(`\n[Orchestrator] 📧 Phase 4: Requesting Approval`);
       projectState.status = 'awaiting_approval';
+      await this.persist(projectState);
       
       await this.notifier.sendApprovalRequest(projectState);
+      await this.persist(projectState); // Records the issued approval links
+      await this.notifyCustomer(projectState, 'preview_ready');
       
       console.log(`[Orchestrator] ✅ Approval request sent to admin`);
       console.log(`[Orchestrator] 🔄 Waiting for deployment approval...`);
 
     } catch (error: any) {
+      if (error instanceof RunInterruptedError) {
+        await this.handleInterruption(projectState, error.reason, error.detail);
+        return;
+      }
+
+      // An outage outside a checkpoint still pauses the run
+      if (error instanceof ServiceUnavailableError && projectState.outage) {
+        await this.handleInterruption(projectState, 'paused');
+        return;
+      }
+
       console.error(`\n[Orchestrator] 💥 Fatal error:`, error);
+      const failure = ErrorHandler.recordFailure(projectState, error);
       projectState.status = 'failed';
+      projectState.failureReason = failure.category === 'configuration'
+        ? `Configuration error: ${failure.message}`
+        : failure.message;
+      await this.persist(projectState);
       
       try {
-        await this.notifier.sendErrorReport(projectState, error.message);
+        await this.notifier.sendErrorReport(projectState, failure);
+      } catch (emailError) {
+        console.error('[Orchestrator] Failed to send error email:', emailError);
+      }
+    }
+  }
+
+  /**
+   * Record a cancelled, paused or failed run. A paused run keeps currentStep so
+   * resume picks up the exact step it stopped on.
+   */
+  private async handleInterruption(projectState: ProjectState, reason: InterruptReason, detail?: string): Promise<void> {
+    console.log(`[Orchestrator] ⏹️  ${projectState.project_name} ${reason} during ${projectState.status}`);
+
+    this.resetInterruptedSteps(projectState);
+
+    projectState.status = reason;
+    if (reason === 'failed') {
+      projectState.failureReason = detail;
+    }
+    if (reason !== 'paused') {
+      projectState.outage = undefined;
+    }
+    await this.persist(projectState);
+
+    if (reason === 'paused' && projectState.outage) {
+      this.scheduleOutageResume(projectState);
+    }
+
+    if (reason === 'failed') {
+      try {
+        await this.notifier.sendErrorReport(projectState, detail || 'Run stopped', projectState.budgetExceeded ? 'budget_exceeded' : 'error');
       } catch (emailError) {
         console.error('[Orchestrator] Failed to send error email:', emailError);
       }
     }
   }
 
+  /**
+   * Cancel a queued, running or paused order
+   */
+  async cancelProject(orderId: string): Promise<{ success: boolean; status?: string; error?: string }> {
+    await this.ready;
+    const projectState = this.activeProjects.get(orderId);
+
+    if (!projectState) {
+      return { success: false, error: 'Project not found' };
+    }
+
+    if (['completed', 'failed', 'cancelled', 'deploying'].includes(projectState.status)) {
+      return { success: false, error: `Project is in ${projectState.status} state and cannot be cancelled` };
+    }
+
+    const controller = this.controllers.get(orderId);
+    if (controller) {
+      // The pipeline records the final status once it unwinds
+      controller.cancel();
+      return { success: true, status: 'cancelling' };
+    }
+
+    this.queue.remove(orderId);
+    await this.handleInterruption(projectState, 'cancelled');
+    return { success: true, status: projectState.status };
+  }
+
+  /**
+   * Pause a queued or running order at its current step
+   */
+  async pauseProject(orderId: string): Promise<{ success: boolean; status?: string; error?: string }> {
+    await this.ready;
+    const projectState = this.activeProjects.get(orderId);
+
+    if (!projectState) {
+      return { success: false, error: 'Project not found' };
+    }
+
+    const controller = this.controllers.get(orderId);
+    if (controller) {
+      controller.pause();
+      return { success: true, status: 'pausing' };
+    }
+
+    if (projectState.status === 'queued' && this.queue.remove(orderId)) {
+      await this.handleInterruption(projectState, 'paused');
+      return { success: true, status: projectState.status };
+    }
+
+    return { success: false, error: `Project is in ${projectState.status} state and cannot be paused` };
+  }
+
+  /**
+   * Resume a paused order from the step it stopped on
+   */
+  async resumeProject(orderId: string): Promise<{ success: boolean; status?: string; error?: string }> {
+    await this.ready;
+    const projectState = this.activeProjects.get(orderId);
+
+    if (!projectState) {
+      return { success: false, error: 'Project not found' };
+    }
+
+    if (projectState.status !== 'paused') {
+      return { success: false, error: `Project is in ${projectState.status} state, not paused` };
+    }
+
+    console.log(`[Orchestrator] ▶️  Resuming ${projectState.project_name} at step ${projectState.currentStep + 1}`);
+    projectState.outage = undefined;
+    await this.enqueue(projectState);
+    return { success: true, status: projectState.status };
+  }
+
+  /**
+   * Screenshot the revision going to review and diff it against the last
+   * approved revision (the previous revision that went to review until one is
+   * approved). A failed capture does not block approval.
+   */
+  private async captureVisualRevision(projectState: ProjectState): Promise<void> {
+    const revision = projectState.revision || 1;
+    const history = (projectState.visualRevisions || []).filter(r => r.revision < revision);
+    const baseline = [...history].reverse().find(r => r.approved) || history[history.length - 1];
+
+    try {
+      const captured = await this.perceptionLayer.captureRevision(projectState.workspaceDir, revision, baseline);
+      if (captured) {
+        projectState.visualRevisions = [...history, captured];
+        await this.persist(projectState);
+      }
+    } catch (error: any) {
+      checkpoint();
+      console.warn(`[Orchestrator] ⚠️  Could not capture revision ${revision} screenshots: ${error.message}`);
+    }
+  }
+
+  /**
+   * Check an approval link for its confirmation page. Viewing does not spend
+   * the link (mail scanners open links too); refusals are audited.
+   */
+  async checkApprovalLink(token: string, requester: { ip?: string; userAgent?: string } = {}): Promise<ApprovalCheck> {
+    await this.ready;
+    const check = approvalLinks.verify(token, orderId => this.activeProjects.get(orderId) || null);
+    this.auditApprovalCheck(check, check.valid ? 'viewed' : 'refused', requester);
+    return check;
+  }
+
+  /**
+   * Spend an approval link and carry out its action. Approval starts the
+   * deployment in the background (the result arrives by email); rejection
+   * re-queues the project with the given reason.
+   */
+  async redeemApprovalLink(
+    token: string,
+    requester: { ip?: string; userAgent?: string } = {},
+    reason?: string
+  ): Promise<ApprovalCheck> {
+    await this.ready;
+    const check = approvalLinks.verify(token, orderId => this.activeProjects.get(orderId) || null);
+
+    if (!check.valid) {
+      this.auditApprovalCheck(check, 'refused', requester);
+      return check;
+    }
+
+    const { claims, projectState } = check;
+    if (claims.action === 'reject' && !reason?.trim()) {
+      return refuse('missing_reason', claims);
+    }
+
+    // Spent before anything is awaited, so a concurrent replay is refused
+    approvalLinks.spend(projectState, claims);
+    this.auditApprovalCheck(check, claims.action === 'approve' ? 'approved' : 'rejected', requester, reason);
+    await this.persist(projectState);
+
+    if (claims.action === 'approve') {
+      this.approveDeployment(claims.orderId)
+        .then(result => console.log(`[Orchestrator] Link approval of ${claims.orderId}: ${result.success ? 'deployed' : result.error}`))
+        .catch(error => console.error(`[Orchestrator] Link approval of ${claims.orderId} failed:`, error));
+    } else {
+      await this.rejectDeployment(claims.orderId, reason!.trim());
+    }
+
+    return check;
+  }
+
+  private auditApprovalCheck(
+    check: ApprovalCheck,
+    event: 'viewed' | 'approved' | 'rejected' | 'refused',
+    requester: { ip?: string; userAgent?: string },
+    reason?: string
+  ): void {
+    approvalLinks.audit({
+      event,
+      orderId: check.claims?.orderId,
+      revision: check.claims?.revision,
+      action: check.claims?.action,
+      nonce: check.claims?.nonce,
+      refusal: check.valid ? undefined : check.refusal,
+      reason,
+      ...requester
+    });
+  }
+
+  /**
+   * Send a customer milestone email and record it. A failure to compose one
+   * is logged and never affects the run.
+   */
+  private async notifyCustomer(projectState: ProjectState, milestone: CustomerMilestone, deploymentUrl?: string): Promise<void> {
+    try {
+      if (await this.notifier.notifyCustomer(projectState, milestone, deploymentUrl)) {
+        await this.persist(projectState);
+      }
+    } catch (error) {
+      console.error(`[Orchestrator] Failed to notify the customer of ${projectState.orderId} (${milestone}):`, error);
+    }
+  }
+
+  /**
+   * Check an email-preferences link from a customer email
+   */
+  async checkCustomerLink(token: string): Promise<CustomerLinkCheck> {
+    await this.ready;
+    return customerLinks.verify(token, orderId => this.activeProjects.get(orderId) || null);
+  }
+
+  /**
+   * Save a customer's email preferences: the milestones they still want.
+   * None at all unsubscribes them from the order.
+   */
+  async updateCustomerPreferences(token: string, subscribed: CustomerMilestone[]): Promise<CustomerLinkCheck> {
+    const check = await this.checkCustomerLink(token);
+    if (!check.valid) return check;
+
+    const customer = check.projectState.customer!;
+    customer.mutedMilestones = CUSTOMER_MILESTONES.filter(m => !subscribed.includes(m));
+    customer.unsubscribedAt = subscribed.length === 0 ? (customer.unsubscribedAt || new Date().toISOString()) : undefined;
+    await this.persist(check.projectState);
+
+    console.log(`[Orchestrator] ✉️  Customer of ${check.claims.orderId} ${customer.unsubscribedAt ? 'unsubscribed' : `updated preferences (${subscribed.join(', ')})`}`);
+    return check;
+  }
+
   /**
    * Handle deployment approval
    */
   async approveDeployment(orderId: string): Promise<{ success: boolean; url?: string; error?: string }> {
     console.log(`\n[Orchestrator] 🚀 Deployment approved for order: ${orderId}`);
+    await this.ready;
     
     const projectState = this.activeProjects.get(orderId);
     
@@ -190,6 +742,30 @@ export class BlackStarOrchestrator {
       };
     }
 
+    // Claimed before anything is awaited: a second approval is refused, and a
+    // restart mid-deploy is recognized by restoreProjects
+    projectState.status = 'deploying';
+
+    const visualRevision = projectState.visualRevisions?.find(r => r.revision === (projectState.revision || 1));
+    if (visualRevision) {
+      visualRevision.approved = true;
+    }
+    await this.persist(projectState);
+
+    // Deployment runs under its own context so build output and usage reach the order
+    const controller = new RunController();
+    return runWithContext(
+      { orderId, controller, onUsage: record => this.recordUsage(projectState, controller, record) },
+      () => this.deployAllPlatforms(projectState)
+    );
+  }
+
+  /**
+   * Production deployment for every platform of an approved project
+   */
+  private async deployAllPlatforms(projectState: ProjectState): Promise<{ success: boolean; url?: string; error?: string }> {
+    const failedBefore = projectState.failures?.length || 0;
+
     try {
       const platforms = projectState.platforms || ['web'];
       const deploymentUrls: string[] = [];
@@ -201,6 +777,7 @@ export class BlackStarOrchestrator {
         if (webDeploy.success && webDeploy.url) {
           deploymentUrls.push(`Web: ${webDeploy.url}`);
         } else {
+          ErrorHandler.recordFailure(projectState, new DeployError(`Web: ${webDeploy.error || 'Vercel production deployment failed'}`));
           allDeploymentsSucceeded = false;
         }
       }
@@ -211,42 +788,78 @@ export class BlackStarOrchestrator {
         if (androidDeploy) {
           deploymentUrls.push('Android: Google Play Internal Track');
         } else {
+          ErrorHandler.recordFailure(projectState, new DeployError('Android: Google Play upload failed'));
           allDeploymentsSucceeded = false;
         }
       }
 
       // Also run legacy Stripe deployment if needed
-      const legacyResult = await this.executor.deployProject(projectState);
+      const legacyResult = await this.queue.runPhase('deploy', () =>
+        this.executor.deployProject(projectState)
+      );
+      await this.persist(projectState);
       
       if (allDeploymentsSucceeded && legacyResult.success) {
         // Send deployment confirmation
         const deploymentUrl = deploymentUrls.join('\n');
         await this.notifier.sendDeploymentConfirmation(projectState, deploymentUrl);
+        await this.notifyCustomer(projectState, 'deployed', deploymentUrl);
         
         console.log(`[Orchestrator] ✅ All platforms deployed successfully!`);
         return { success: true, url: deploymentUrl };
       } else {
         const error = 'Some deployments failed. Check logs for details.';
-        await this.notifier.sendErrorReport(projectState, error);
+        await this.settleFailedDeployment(projectState, failedBefore, error);
         return { success: false, error };
       }
     } catch (error: any) {
       console.error('[Orchestrator] Deployment error:', error);
-      return { success: false, error: error.message };
+      const failure = ErrorHandler.recordFailure(projectState, error, { fallback: 'deploy' });
+      await this.settleFailedDeployment(projectState, failedBefore, failure.message);
+      return { success: false, error: failure.message };
+    }
+  }
+
+  /**
+   * After a failed deployment: when every failure can be retried the project
+   * goes back to awaiting approval (approving again retries the deployment),
+   * otherwise it fails. The admin gets the error report either way.
+   */
+  private async settleFailedDeployment(projectState: ProjectState, failedBefore: number, summary: string): Promise<void> {
+    const failures = (projectState.failures || []).slice(failedBefore);
+    const retryable = failures.length > 0 && failures.every(failure => failure.retryable);
+
+    projectState.status = retryable ? 'awaiting_approval' : 'failed';
+    projectState.failureReason = retryable ? undefined : summary;
+    await this.persist(projectState);
+
+    try {
+      await this.notifier.sendErrorReport(projectState, summary);
+    } catch (emailError) {
+      console.error('[Orchestrator] Failed to send error email:', emailError);
     }
   }
 
   /**
    * Handle deployment rejection
    */
-  async rejectDeployment(orderId: string, reason: string): Promise<{ success: boolean }> {
+  async rejectDeployment(orderId: string, reason: string): Promise<{ success: boolean; error?: string }> {
     console.log(`\n[Orchestrator] ❌ Deployment rejected for order: ${orderId}`);
     console.log(`[Orchestrator] Reason: ${reason}`);
+    await this.ready;
     
     const projectState = this.activeProjects.get(orderId);
     
     if (!projectState) {
-      return { success: false };
+      return { success: false, error: 'Project not found' };
+    }
+
+    // Only a finished revision can be sent back; the executor still owns anything else
+    if (projectState.status !== 'awaiting_approval') {
+      return {
+        success: false,
+        error: `Project is in ${projectState.status} state, not awaiting approval`
+      };
     }
 
     // Update project state for retry
@@ -255,18 +868,19 @@ export class BlackStarOrchestrator {
     }
     projectState.rejectionHistory.push(reason);
     projectState.rejectionReason = reason;
+    projectState.revision = (projectState.revision || 1) + 1;
 
     // Append feedback to requirements to guide the new plan
     projectState.requirements += `\n\n[REVISION REQUESTED]: ${reason}`;
 
     // Reset state for re-planning and execution
-    projectState.status = 'planning';
+    projectState.plan = [];
     projectState.currentStep = 0;
     
     console.log(`[Orchestrator] 🔄 Restarting execution with updated requirements...`);
 
-    // Trigger autonomous execution again
-    this.executeOrderAsync(projectState);
+    // Queue autonomous execution again
+    await this.enqueue(projectState);
     
     return { success: true };
   }
@@ -278,6 +892,13 @@ export class BlackStarOrchestrator {
     return this.activeProjects.get(orderId) || null;
   }
 
+  /**
+   * 1-based position in the job queue, or null if the order is not waiting
+   */
+  getQueuePosition(orderId: string): number | null {
+    return this.queue.getPosition(orderId);
+  }
+
   /**
    * List all active projects
    */
@@ -285,6 +906,30 @@ export class BlackStarOrchestrator {
     return Array.from(this.activeProjects.values());
   }
 
+  /**
+   * Usage totals across projects, per model, and the most expensive orders
+   */
+  private aggregateUsage(projects: ProjectState[]) {
+    const total = emptyTotals();
+    const byModel: Record<string, UsageTotals> = {};
+
+    const perOrder = projects.map(project => {
+      const summary = summarizeUsage(project.usage);
+      addUsage(total, summary.total);
+      for (const [model, totals] of Object.entries(summary.byModel)) {
+        addUsage(byModel[model] = byModel[model] || emptyTotals(), totals);
+      }
+      return { orderId: project.orderId, name: project.project_name, costUsd: summary.total.costUsd };
+    });
+
+    return {
+      ...total,
+      averageCostUsd: projects.length ? total.costUsd / projects.length : 0,
+      byModel,
+      topOrders: perOrder.filter(o => o.costUsd > 0).sort((a, b) => b.costUsd - a.costUsd).slice(0, 5)
+    };
+  }
+
   /**
    * Get project statistics
    */
@@ -293,13 +938,18 @@ export class BlackStarOrchestrator {
     
     return {
       total: projects.length,
+      queued: projects.filter(p => p.status === 'queued').length,
       planning: projects.filter(p => p.status === 'planning').length,
       coding: projects.filter(p => p.status === 'coding').length,
       validating: projects.filter(p => p.status === 'validating').length,
       awaiting_approval: projects.filter(p => p.status === 'awaiting_approval').length,
       deploying: projects.filter(p => p.status === 'deploying').length,
       completed: projects.filter(p => p.status === 'completed').length,
-      failed: projects.filter(p => p.status === 'failed').length
+      failed: projects.filter(p => p.status === 'failed').length,
+      paused: projects.filter(p => p.status === 'paused').length,
+      cancelled: projects.filter(p => p.status === 'cancelled').length,
+      queue: this.queue.getStats(),
+      usage: this.aggregateUsage(projects)
     };
   }
 }
@@ -0,0 +1,266 @@
+/**
+ * PAGE AUDIT
+ * Shared Puppeteer pass for visual proof and deployment verification:
+ * renders a page at each configured viewport, screenshots it and runs an
+ * in-page accessibility audit (alt text, contrast, form labels, heading order).
+ *
+ * VISUAL_VIEWPORTS lists the viewports as name:WIDTHxHEIGHT, comma separated.
+ * A11Y_FAIL_IMPACT is the lowest impact that counts against the threshold and
+ * A11Y_MAX_VIOLATIONS how many of those are tolerated (-1 only reports).
+ */
+
+import { Browser, Page } from 'puppeteer';
+import { AccessibilityImpact, AccessibilityReport, AccessibilityViolation } from './types';
+import { currentSignal } from './run-control';
+
+export interface Viewport {
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface ViewportRender {
+  viewport: string;
+  width: number;
+  height: number;
+  screenshotPath: string;
+  violations: AccessibilityViolation[];
+}
+
+const DEFAULT_VIEWPORTS = 'mobile:390x844,tablet:768x1024,desktop:1920x1080';
+
+const IMPACTS: AccessibilityImpact[] = ['minor', 'moderate', 'serious', 'critical'];
+
+// Per viewport, so one badly styled page cannot flood the report
+const MAX_VIOLATIONS_PER_RULE = 25;
+
+/**
+ * Viewports from VISUAL_VIEWPORTS (invalid entries are ignored), widest last
+ */
+export function configuredViewports(): Viewport[] {
+  const parse = (spec: string) => spec
+    .split(',')
+    .map(entry => entry.trim().match(/^([\w-]+):(\d+)x(\d+)$/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(match => ({ name: match[1], width: parseInt(match[2], 10), height: parseInt(match[3], 10) }));
+
+  const viewports = parse(process.env.VISUAL_VIEWPORTS || DEFAULT_VIEWPORTS);
+  if (viewports.length === 0) {
+    console.warn(`[PageAudit] VISUAL_VIEWPORTS has no valid entries - using ${DEFAULT_VIEWPORTS}`);
+    return parse(DEFAULT_VIEWPORTS);
+  }
+  return viewports.sort((a, b) => a.width - b.width);
+}
+
+/**
+ * Render url at every viewport. screenshotFor names each screenshot file;
+ * onPage runs before navigation (e.g. to collect console errors).
+ */
+export async function renderViewports(
+  browser: Browser,
+  url: string,
+  screenshotFor: (viewport: Viewport) => string,
+  options: { timeoutMs?: number; settleMs?: number; audit?: boolean; onPage?: (page: Page) => void } = {}
+): Promise<ViewportRender[]> {
+  const renders: ViewportRender[] = [];
+
+  for (const viewport of configuredViewports()) {
+    currentSignal()?.throwIfAborted();
+
+    const page = await browser.newPage();
+    try {
+      options.onPage?.(page);
+      await page.setViewport({ width: viewport.width, height: viewport.height });
+      await page.goto(url, { waitUntil: 'networkidle0', timeout: options.timeoutMs ?? 30000 });
+
+      // Wait a bit for dynamic content
+      await new Promise(resolve => setTimeout(resolve, options.settleMs ?? 2000));
+
+      const screenshotPath = screenshotFor(viewport);
+      await page.screenshot({ path: screenshotPath, fullPage: true });
+
+      const violations = options.audit === false ? [] : await auditAccessibility(page);
+      renders.push({ viewport: viewport.name, width: viewport.width, height: viewport.height, screenshotPath, violations });
+    } finally {
+      await page.close();
+    }
+  }
+
+  return renders;
+}
+
+/**
+ * Run the accessibility audit in the page
+ */
+export async function auditAccessibility(page: Page): Promise<AccessibilityViolation[]> {
+  // Passed as a string so the bundler cannot inject helpers the page does not have
+  const found = await page.evaluate(AUDIT_SCRIPT) as Omit<AccessibilityViolation, 'viewports'>[];
+  return found.map(violation => ({ ...violation, viewports: [] }));
+}
+
+/**
+ * Merge the renders' violations (one entry per rule and element, listing the
+ * viewports it appears at) and apply the configured threshold
+ */
+export function summarizeAccessibility(renders: ViewportRender[]): AccessibilityReport {
+  const merged = new Map<string, AccessibilityViolation>();
+
+  for (const render of renders) {
+    for (const violation of render.violations) {
+      const key = `${violation.rule}|${violation.selector}`;
+      const existing = merged.get(key);
+      if (existing) {
+        existing.viewports.push(render.viewport);
+      } else {
+        merged.set(key, { ...violation, viewports: [render.viewport] });
+      }
+    }
+  }
+
+  const violations = Array.from(merged.values())
+    .sort((a, b) => IMPACTS.indexOf(b.impact) - IMPACTS.indexOf(a.impact));
+
+  const counts = Object.fromEntries(IMPACTS.map(impact => [impact, 0])) as Record<AccessibilityImpact, number>;
+  violations.forEach(violation => counts[violation.impact]++);
+
+  const failImpact = IMPACTS.includes(process.env.A11Y_FAIL_IMPACT as AccessibilityImpact)
+    ? process.env.A11Y_FAIL_IMPACT as AccessibilityImpact
+    : 'serious';
+  const parsedMax = parseInt(process.env.A11Y_MAX_VIOLATIONS || '', 10);
+  const maxViolations = Number.isNaN(parsedMax) ? 5 : parsedMax;
+
+  const blocking = violations.filter(v => IMPACTS.indexOf(v.impact) >= IMPACTS.indexOf(failImpact)).length;
+
+  return {
+    passed: maxViolations < 0 || blocking <= maxViolations,
+    blocking,
+    threshold: { failImpact, maxViolations },
+    counts,
+    violations
+  };
+}
+
+/**
+ * Readable summary of a failed report, listing the first blocking violations
+ */
+export function describeAccessibility(report: AccessibilityReport): string {
+  const { failImpact, maxViolations } = report.threshold;
+  const listed = report.violations
+    .filter(v => IMPACTS.indexOf(v.impact) >= IMPACTS.indexOf(failImpact))
+    .slice(0, 10)
+    .map(v => `  [${v.impact}] ${v.rule}: ${v.message} (${v.selector}; ${v.viewports.join(', ')})`);
+
+  return [`Accessibility audit: ${report.blocking} ${failImpact}+ violation(s), at most ${maxViolations} allowed`, ...listed].join('\n');
+}
+
+const AUDIT_SCRIPT = `(() => {
+  const violations = [];
+  const perRule = {};
+
+  const selectorOf = (el) => {
+    const parts = [];
+    let node = el;
+    while (node && node.nodeType === 1 && parts.length < 4) {
+      if (node.id) {
+        parts.unshift('#' + CSS.escape(node.id));
+        break;
+      }
+      let part = node.tagName.toLowerCase();
+      const parent = node.parentElement;
+      if (parent) {
+        const siblings = Array.from(parent.children).filter(child => child.tagName === node.tagName);
+        if (siblings.length > 1) part += ':nth-of-type(' + (siblings.indexOf(node) + 1) + ')';
+      }
+      parts.unshift(part);
+      node = parent;
+    }
+    return parts.join(' > ');
+  };
+
+  const visible = (el) => {
+    const style = getComputedStyle(el);
+    const rect = el.getBoundingClientRect();
+    return style.display !== 'none' && style.visibility !== 'hidden' && rect.width > 0 && rect.height > 0;
+  };
+
+  const add = (rule, impact, message, el) => {
+    perRule[rule] = (perRule[rule] || 0) + 1;
+    if (perRule[rule] > ${MAX_VIOLATIONS_PER_RULE}) return;
+    violations.push({ rule, impact, message, selector: selectorOf(el) });
+  };
+
+  // Images need alternative text (alt="" marks decorative images)
+  document.querySelectorAll('img').forEach(img => {
+    if (img.hasAttribute('alt') || img.getAttribute('aria-label') || img.getAttribute('aria-labelledby')) return;
+    if (img.getAttribute('role') === 'presentation' || img.getAttribute('aria-hidden') === 'true') return;
+    add('image-alt', 'serious', 'Image has no alt text', img);
+  });
+
+  // Form controls need an accessible name (a placeholder is not a label)
+  document.querySelectorAll('input, select, textarea').forEach(el => {
+    const type = (el.getAttribute('type') || '').toLowerCase();
+    if (['hidden', 'submit', 'button', 'reset', 'image'].includes(type) || !visible(el)) return;
+    const labelled = (el.getAttribute('aria-label') || '').trim() ||
+      el.getAttribute('aria-labelledby') ||
+      (el.getAttribute('title') || '').trim() ||
+      (el.id && document.querySelector('label[for="' + CSS.escape(el.id) + '"]')) ||
+      el.closest('label');
+    if (!labelled) add('label', 'critical', 'Form control has no label', el);
+  });
+
+  // Heading levels should not skip (h2 -> h4)
+  let previous = 0;
+  document.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach(heading => {
+    if (!visible(heading)) return;
+    const level = parseInt(heading.tagName[1], 10);
+    if (previous && level > previous + 1) {
+      add('heading-order', 'moderate', 'Heading level jumps from h' + previous + ' to h' + level, heading);
+    }
+    previous = level;
+  });
+
+  // Text contrast (WCAG AA: 4.5:1, 3:1 for large text)
+  const parseColor = (value) => {
+    const match = value.match(/rgba?\\(([^)]+)\\)/);
+    if (!match) return null;
+    const parts = match[1].split(/[\\s,\\/]+/).filter(Boolean).map(Number);
+    return { r: parts[0], g: parts[1], b: parts[2], a: parts.length > 3 ? parts[3] : 1 };
+  };
+  const luminance = (color) => {
+    const [r, g, b] = [color.r, color.g, color.b].map(v => {
+      v /= 255;
+      return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  };
+  const backgroundOf = (el) => {
+    for (let node = el; node; node = node.parentElement) {
+      const style = getComputedStyle(node);
+      if (style.backgroundImage !== 'none') return null; // Text over images cannot be judged
+      const color = parseColor(style.backgroundColor);
+      if (color && color.a >= 1) return color;
+    }
+    return { r: 255, g: 255, b: 255, a: 1 };
+  };
+
+  document.querySelectorAll('body *').forEach(el => {
+    if (!Array.from(el.childNodes).some(node => node.nodeType === 3 && node.textContent.trim())) return;
+    if (!visible(el)) return;
+    const style = getComputedStyle(el);
+    const foreground = parseColor(style.color);
+    const background = backgroundOf(el);
+    if (!foreground || !background || foreground.a < 1) return;
+
+    const light = Math.max(luminance(foreground), luminance(background));
+    const dark = Math.min(luminance(foreground), luminance(background));
+    const ratio = (light + 0.05) / (dark + 0.05);
+    const size = parseFloat(style.fontSize);
+    const large = size >= 24 || (parseInt(style.fontWeight, 10) >= 700 && size >= 18.66);
+    const required = large ? 3 : 4.5;
+    if (ratio < required) {
+      add('color-contrast', 'serious', 'Text contrast ' + ratio.toFixed(2) + ':1 is below ' + required + ':1', el);
+    }
+  });
+
+  return violations;
+})()`;
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applySearchReplace, applyUnifiedDiff, PatchConflictError } from './patch';
+
+const SOURCE = [
+  "import express from 'express';",
+  '',
+  'const app = express();',
+  "app.get('/', (req, res) => res.send('hello'));",
+  'app.listen(3000);'
+].join('\n');
+
+test('applies search/replace edits in order', () => {
+  const patched = applySearchReplace('server.js', SOURCE, [
+    { search: "res.send('hello')", replace: "res.send('hi')" },
+    { search: 'app.listen(3000);', replace: 'app.listen(process.env.PORT || 3000);' }
+  ]);
+
+  assert.equal(patched, SOURCE.replace("'hello'", "'hi'").replace('listen(3000)', 'listen(process.env.PORT || 3000)'));
+});
+
+test('rejects search blocks that are missing, empty or ambiguous', () => {
+  for (const search of ['app.use(cors());', '', 'app.']) {
+    assert.throws(() => applySearchReplace('server.js', SOURCE, [{ search, replace: 'x' }]), PatchConflictError);
+  }
+});
+
+test('applies a unified diff whose hunk has drifted', () => {
+  const diff = [
+    '--- a/server.js',
+    '+++ b/server.js',
+    '@@ -1,3 +1,4 @@',
+    ' const app = express();',
+    "+app.use(express.json());",
+    " app.get('/', (req, res) => res.send('hello'));",
+    ' app.listen(3000);'
+  ].join('\n');
+
+  assert.equal(
+    applyUnifiedDiff('server.js', SOURCE, diff),
+    SOURCE.replace('const app = express();', 'const app = express();\napp.use(express.json());')
+  );
+});
+
+test('rejects a unified diff whose context does not match', () => {
+  const diff = ['@@ -3,2 +3,2 @@', ' const app = express();', '-app.listen(8080);', '+app.listen(80);'].join('\n');
+
+  assert.throws(() => applyUnifiedDiff('server.js', SOURCE, diff), /Patch for server\.js does not apply: hunk at line 3/);
+  assert.throws(() => applyUnifiedDiff('server.js', SOURCE, 'not a diff'), PatchConflictError);
+});
@@ -0,0 +1,140 @@
+/**
+ * PATCH APPLICATION
+ * Applies model-generated search/replace blocks and unified diffs to file contents.
+ * Nothing is applied "approximately": anything ambiguous is reported as a conflict.
+ */
+
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+}
+
+/**
+ * Thrown when a patch does not match the current file contents
+ */
+export class PatchConflictError extends Error {
+  constructor(readonly filePath: string, reason: string) {
+    super(`Patch for ${filePath} does not apply: ${reason}`);
+    this.name = 'PatchConflictError';
+  }
+}
+
+/**
+ * Apply search/replace edits in order. Each search block must match exactly once.
+ */
+export function applySearchReplace(filePath: string, content: string, edits: SearchReplaceEdit[]): string {
+  let result = content;
+
+  edits.forEach((edit, index) => {
+    if (!edit.search) {
+      throw new PatchConflictError(filePath, `edit ${index + 1} has an empty search block`);
+    }
+
+    const first = result.indexOf(edit.search);
+    if (first === -1) {
+      throw new PatchConflictError(filePath, `search block ${index + 1} not found`);
+    }
+    if (result.indexOf(edit.search, first + 1) !== -1) {
+      throw new PatchConflictError(filePath, `search block ${index + 1} matches more than once`);
+    }
+
+    result = result.slice(0, first) + edit.replace + result.slice(first + edit.search.length);
+  });
+
+  return result;
+}
+
+interface Hunk {
+  oldStart: number;
+  lines: string[]; // Prefixed with ' ', '-' or '+'
+}
+
+/**
+ * Apply a unified diff (single file). Hunks may have drifted by a few lines,
+ * but their context and removed lines must match exactly.
+ */
+export function applyUnifiedDiff(filePath: string, content: string, diff: string): string {
+  const hunks = parseHunks(filePath, diff);
+  const lines = content.split('\n');
+  let offset = 0;
+
+  for (const hunk of hunks) {
+    const expected = hunk.lines.filter(l => !l.startsWith('+')).map(l => l.slice(1));
+    const replacement = hunk.lines.filter(l => !l.startsWith('-')).map(l => l.slice(1));
+
+    const anchor = Math.max(0, hunk.oldStart - 1 + offset);
+    const position = findBlock(lines, expected, anchor);
+
+    if (position === -1) {
+      throw new PatchConflictError(filePath, `hunk at line ${hunk.oldStart} does not match the current file`);
+    }
+
+    lines.splice(position, expected.length, ...replacement);
+    offset += replacement.length - expected.length + (position - anchor);
+  }
+
+  return lines.join('\n');
+}
+
+function parseHunks(filePath: string, diff: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+
+  for (const line of diff.replace(/\r\n/g, '\n').split('\n')) {
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+
+    if (header) {
+      current = { oldStart: parseInt(header[1], 10), lines: [] };
+      hunks.push(current);
+    } else if (line.startsWith('---') || line.startsWith('+++') || line.startsWith('diff ') || line.startsWith('index ')) {
+      continue;
+    } else if (current && (line.startsWith(' ') || line.startsWith('-') || line.startsWith('+'))) {
+      current.lines.push(line);
+    } else if (current && line === '') {
+      // Some models drop the leading space on blank context lines
+      current.lines.push(' ');
+    } else if (line.startsWith('\\')) {
+      // "\ No newline at end of file"
+      continue;
+    }
+  }
+
+  if (hunks.length === 0) {
+    throw new PatchConflictError(filePath, 'diff contains no hunks');
+  }
+
+  // Trailing blank context picked up after the last hunk is not part of it
+  for (const hunk of hunks) {
+    while (hunk.lines.length && hunk.lines[hunk.lines.length - 1] === ' ') {
+      hunk.lines.pop();
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Find block in lines, searching outward from anchor. Returns -1 if absent or ambiguous
+ * at the nearest distance.
+ */
+function findBlock(lines: string[], block: string[], anchor: number): number {
+  if (block.length === 0) return Math.min(anchor, lines.length);
+
+  const matchesAt = (start: number) =>
+    start >= 0 &&
+    start + block.length <= lines.length &&
+    block.every((line, i) => lines[start + i] === line);
+
+  const maxDistance = Math.max(anchor, lines.length - anchor);
+
+  for (let distance = 0; distance <= maxDistance; distance++) {
+    const before = matchesAt(anchor - distance);
+    const after = distance > 0 && matchesAt(anchor + distance);
+
+    if (before && after) return -1;
+    if (before) return anchor - distance;
+    if (after) return anchor + distance;
+  }
+
+  return -1;
+}
@@ -3,51 +3,62 @@
  * The gatekeeper for all AI actions
  */
 
-import { spawn } from 'child_process';
 import puppeteer from 'puppeteer';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import fs from 'fs/promises';
 import path from 'path';
-import { ValidationResult, SixEyesResult } from './types';
+import { ValidationResult, SixEyesResult, ValidationPolicy, VisualRevision, VisualSnapshot } from './types';
+import { checkpoint, currentSignal } from './run-control';
+import { ServiceUnavailableError } from './resilience';
+import { spawnProcess } from './process';
+import { intercept } from './cassette';
+import { AGENT_DIR, listWorkspaceFiles } from './workspace';
+import { models, hasVerdict, imagePart } from './models';
+import { DevServer, DevServerError } from './dev-server';
+import { TestRunner } from './test-runner';
+import { DeprecationRules } from './deprecations';
+import { StaticAnalyzer } from './static-analysis';
+import { diffScreenshots } from './visual-diff';
+import { renderViewports, summarizeAccessibility, describeAccessibility, ViewportRender } from './page-audit';
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+// Revision screenshots and diffs, inside the workspace so cassettes can restore them
+// (the Vercel deployer keeps the agent directory out of uploads)
+const REVISIONS_DIR = path.join(AGENT_DIR, 'visual');
+
+// Screenshots of the latest visual proof, next to the revisions (never deployed or shown to the models)
+const PROOF_DIR = path.join(AGENT_DIR, 'visual-proof');
 
 export class PerceptionLayer {
+  private testRunner = new TestRunner();
+  private staticAnalyzer = new StaticAnalyzer();
+  private deprecationRules = new DeprecationRules();
+
   /**
    * The Infinity Barrier - Doc Verify
-   * Verifies function signatures against API documentation
+   * Checks the code against the deprecation rule packs for the workspace's
+   * dependencies, then asks the reviewer model about API usage.
+   * files limits the rule packs to the files a step wrote.
    */
-  async docVerify(code: string, apiType: 'stripe' | 'firebase' | 'general'): Promise<ValidationResult> {
+  async docVerify(code: string, workspaceDir: string, files?: string[]): Promise<ValidationResult> {
     try {
-      // Simple knowledge base of common deprecated patterns
-      const deprecatedPatterns: Record<string, string[]> = {
-        stripe: [
-          'source:', // Deprecated in favor of payment_method
-          'bitcoin_receiver', // Deprecated API
-          'card:', // Should use payment_method
-        ],
-        firebase: [
-          'firebase.database()', // Old SDK pattern
-        ],
-        general: []
-      };
+      const { active, findings } = await this.deprecationRules.check(workspaceDir, files);
 
-      const patterns = deprecatedPatterns[apiType] || [];
-      
-      for (const pattern of patterns) {
-        if (code.includes(pattern)) {
-          return {
-            passed: false,
-            error: `Deprecated API pattern detected: ${pattern}`,
-            details: { pattern, apiType }
-          };
-        }
+      if (findings.length > 0) {
+        return {
+          passed: false,
+          error: [
+            `Deprecated API usage detected (${findings.length})`,
+            ...findings.map(finding =>
+              `  ${finding.file}:${finding.line} [${finding.pack}/${finding.rule}] ${finding.message}` +
+              (finding.replacement ? `. Use instead: ${finding.replacement}` : ''))
+          ].join('\n'),
+          details: { findings }
+        };
       }
 
-      // Use Gemini to analyze the code for potential API issues
-      const model = genAI.getGenerativeModel({ model: 'gemini-1.5-pro' });
-      
-      const prompt = `Analyze this code for deprecated or incorrect API usage for ${apiType}. 
+      const apis = active.map(({ packageName, declaredVersion }) => `${packageName}@${declaredVersion}`);
+
+      // Ask the reviewer model to analyze the code for potential API issues
+      const prompt = `Analyze this code for deprecated or incorrect API usage${apis.length > 0 ? ` of ${apis.join(', ')}` : ''}. 
       Focus on function signatures and parameters.
       
       Code:
@@ -55,19 +66,20 @@ export class PerceptionLayer {
       
       Respond with "VALID" if the code looks correct, or describe the issue if there's a problem.`;
       
-      const result = await model.generateContent(prompt);
-      const response = result.response.text();
+      const result = await models.generate('reviewer', prompt);
+      const response = result.text;
       
-      if (response.toUpperCase().includes('VALID')) {
-        return { passed: true };
+      if (hasVerdict(response, 'VALID')) {
+        return { passed: true, details: { rulePacks: active.map(({ pack }) => pack.name) } };
       }
       
       return {
-        passed: response.toUpperCase().includes('VALID'),
-        error: response.includes('VALID') ? undefined : `API verification issue: ${response}`,
+        passed: false,
+        error: `API verification issue: ${response}`,
         details: { response }
       };
     } catch (error: any) {
+      rethrowInterruption(error);
       return {
         passed: false,
         error: `Doc verification error: ${error.message}`,
@@ -76,14 +88,33 @@ export class PerceptionLayer {
     }
   }
 
+  /**
+   * Static Analysis
+   * ESLint, hard-coded secrets and dangerous patterns; blocks on high severity only
+   */
+  async staticAnalysis(workspaceDir: string): Promise<ValidationResult> {
+    return this.staticAnalyzer.analyze(workspaceDir);
+  }
+
   /**
    * Spectral Analysis - Syntax Gate
    * TypeScript compilation must pass with zero errors
    */
   async syntaxGate(workspaceDir: string): Promise<ValidationResult> {
+    // Without a tsconfig, check the TypeScript sources directly
+    const hasTsConfig = await fs.access(path.join(workspaceDir, 'tsconfig.json')).then(() => true, () => false);
+    const args = hasTsConfig
+      ? ['tsc', '--noEmit', '--project', workspaceDir]
+      : ['tsc', '--noEmit', '--skipLibCheck', '--esModuleInterop', '--jsx', 'preserve', ...(await this.findTypeScriptFiles(workspaceDir))];
+
+    // Dependencies are not installed until the project is served, so unresolved
+    // package imports are not syntax errors yet
+    const hasNodeModules = await fs.access(path.join(workspaceDir, 'node_modules')).then(() => true, () => false);
+
     return new Promise((resolve) => {
-      const tsc = spawn('npx', ['tsc', '--noEmit', '--project', workspaceDir], {
-        cwd: workspaceDir
+      const tsc = spawnProcess('npx', args, {
+        cwd: workspaceDir,
+        signal: currentSignal()
       });
 
       let stderr = '';
@@ -100,13 +131,24 @@ export class PerceptionLayer {
       tsc.on('close', (code) => {
         if (code === 0) {
           resolve({ passed: true });
-        } else {
-          resolve({
-            passed: false,
-            error: `TypeScript compilation failed with code ${code}`,
-            details: { stdout, stderr }
-          });
+          return;
         }
+
+        const diagnostics = stdout
+          .split('\n')
+          .filter(line => / error TS\d+:/.test(line))
+          .filter(line => hasNodeModules || !/error TS(2307|7016):/.test(line));
+
+        if (diagnostics.length === 0 && stdout.includes('error TS')) {
+          resolve({ passed: true, details: { ignored: 'unresolved package imports only' } });
+          return;
+        }
+
+        resolve({
+          passed: false,
+          error: `TypeScript compilation failed with code ${code}${diagnostics.length ? `:\n${diagnostics.slice(0, 20).join('\n')}` : ''}`,
+          details: { stdout, stderr, diagnostics }
+        });
       });
 
       tsc.on('error', (error) => {
@@ -119,9 +161,18 @@ export class PerceptionLayer {
     });
   }
 
+  /**
+   * TypeScript sources in the workspace (relative paths)
+   */
+  private async findTypeScriptFiles(workspaceDir: string): Promise<string[]> {
+    const files = await listWorkspaceFiles(workspaceDir);
+    return files.filter(file => /\.tsx?$/.test(file) && !file.endsWith('.d.ts'));
+  }
+
   /**
    * Domain Expansion - Visual Proof
-   * Puppeteer screenshot + Gemini Vision verification
+   * Puppeteer screenshots at every configured viewport, vision model
+   * verification and an accessibility audit judged by the configured threshold
    */
   async visualProof(url: string, workspaceDir: string): Promise<ValidationResult> {
     let browser;
@@ -131,65 +182,60 @@ export class PerceptionLayer {
         args: ['--no-sandbox', '--disable-setuid-sandbox']
       });
 
-      const page = await browser.newPage();
-      await page.setViewport({ width: 1920, height: 1080 });
+      // The widest viewport keeps the visual-proof.png name
+      const outputDir = path.join(workspaceDir, PROOF_DIR);
+      await fs.mkdir(outputDir, { recursive: true });
+      const screenshotPath = path.join(outputDir, 'visual-proof.png');
+      const renders = await renderViewports(browser, url, viewport => path.join(outputDir, `visual-proof-${viewport.name}.png`));
+      await fs.copyFile(renders[renders.length - 1].screenshotPath, screenshotPath);
 
-      // Navigate with timeout
-      await page.goto(url, { 
-        waitUntil: 'networkidle0',
-        timeout: 30000 
-      });
-
-      // Wait a bit for dynamic content
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await browser.close();
 
-      // Take screenshot
-      const screenshotPath = path.join(workspaceDir, 'visual-proof.png');
-      await page.screenshot({ path: screenshotPath, fullPage: true });
+      const viewports = renders.map(({ violations, ...render }) => render);
+      const accessibility = summarizeAccessibility(renders);
 
-      await browser.close();
+      // Use the vision model to analyze the screenshots
+      const images = await Promise.all(renders.map(render => fs.readFile(render.screenshotPath)));
 
-      // Use Gemini Vision to analyze the screenshot
-      const model = genAI.getGenerativeModel({ model: 'gemini-1.5-pro' });
-      
-      const imageData = await fs.readFile(screenshotPath);
-      const base64Image = imageData.toString('base64');
-
-      const result = await model.generateContent([
-        {
-          inlineData: {
-            data: base64Image,
-            mimeType: 'image/png'
-          }
-        },
-        `Analyze this screenshot of a web application. Is this a valid, working page? 
+      const result = await models.generate('vision', [
+        ...images.map(image => imagePart(image)),
+        `These are screenshots of the same web application at these viewports, in order: ${renders.map(r => `${r.viewport} (${r.width}x${r.height})`).join(', ')}.
+        Is this a valid, working page at every viewport? 
         Look for:
         - Is the page completely blank?
         - Does it show a 404 error?
         - Does it show a 500 error?
         - Does it show any error messages?
         - Is there actual content visible?
+        - Is the layout broken at any viewport (overlapping or cut-off content, horizontal overflow)?
         
         Respond with "VALID" if the page looks functional, or describe the issue if there's a problem.`
       ]);
 
-      const response = result.response.text();
-      
-      if (response.toUpperCase().includes('VALID')) {
-        return { 
-          passed: true,
-          details: { screenshotPath, analysis: response }
+      const response = result.text;
+      const details = { screenshotPath, viewports, accessibility, analysis: response };
+
+      if (!hasVerdict(response, 'VALID')) {
+        return {
+          passed: false,
+          error: `Visual verification failed: ${response}`,
+          details
         };
       }
 
-      return {
-        passed: false,
-        error: `Visual verification failed: ${response}`,
-        details: { screenshotPath, analysis: response }
-      };
+      if (!accessibility.passed) {
+        return {
+          passed: false,
+          error: describeAccessibility(accessibility),
+          details
+        };
+      }
+
+      return { passed: true, details };
 
     } catch (error: any) {
       if (browser) await browser.close();
+      rethrowInterruption(error);
       return {
         passed: false,
         error: `Visual proof error: ${error.message}`,
@@ -199,37 +245,195 @@ export class PerceptionLayer {
   }
 
   /**
-   * Run all Six Eyes checks
+   * Visual proof against the workspace itself: boots it on a free port,
+   * screenshots it and tears it down. Boot failures and crashes are reported
+   * with the captured server output.
+   */
+  async visualProofWorkspace(workspaceDir: string): Promise<ValidationResult> {
+    return intercept(
+      'browser',
+      'visual proof',
+      { workspaceDir },
+      () => this.runVisualProofWorkspace(workspaceDir),
+      result => [result.details?.screenshotPath, ...((result.details?.viewports || []) as Omit<ViewportRender, 'violations'>[]).map(v => v.screenshotPath)]
+    );
+  }
+
+  private async runVisualProofWorkspace(workspaceDir: string): Promise<ValidationResult> {
+    let server: DevServer | null;
+    try {
+      server = await DevServer.start(workspaceDir);
+    } catch (error: any) {
+      currentSignal()?.throwIfAborted();
+      return {
+        passed: false,
+        error: `Dev server failed to start: ${error.message}`,
+        details: { output: error instanceof DevServerError ? error.output : undefined }
+      };
+    }
+
+    if (!server) {
+      return { passed: true, skipped: true, details: { reason: 'Nothing to serve yet (no dev/start script or index.html)' } };
+    }
+
+    try {
+      const result = await this.visualProof(server.url, workspaceDir);
+
+      if (server.hasCrashed()) {
+        return {
+          passed: false,
+          error: 'Dev server crashed during visual proof',
+          details: { ...result.details, output: server.getOutput() }
+        };
+      }
+
+      return result.passed
+        ? result
+        : { ...result, details: { ...result.details, output: server.getOutput() } };
+    } finally {
+      await server.stop();
+    }
+  }
+
+  /**
+   * Screenshot a revision at every viewport and diff it against the baseline
+   * revision's screenshots. Returns null when the workspace has nothing to serve.
+   */
+  async captureRevision(workspaceDir: string, revision: number, baseline?: VisualRevision): Promise<VisualRevision | null> {
+    return intercept(
+      'browser',
+      'visual revision',
+      { workspaceDir, revision, baselineRevision: baseline?.revision },
+      () => this.runCaptureRevision(workspaceDir, revision, baseline),
+      result => (result?.snapshots || []).flatMap(snapshot => [snapshot.screenshotPath, snapshot.diffPath])
+    );
+  }
+
+  private async runCaptureRevision(workspaceDir: string, revision: number, baseline?: VisualRevision): Promise<VisualRevision | null> {
+    const server = await DevServer.start(workspaceDir);
+    if (!server) return null;
+
+    const outputDir = path.join(workspaceDir, REVISIONS_DIR, `r${revision}`);
+    await fs.mkdir(outputDir, { recursive: true });
+
+    let browser;
+    try {
+      browser = await puppeteer.launch({
+        headless: true,
+        args: ['--no-sandbox', '--disable-setuid-sandbox']
+      });
+
+      const renders = await renderViewports(
+        browser,
+        server.url,
+        viewport => path.join(outputDir, `${viewport.name}.png`),
+        { audit: false }
+      );
+
+      const snapshots: VisualSnapshot[] = [];
+
+      for (const render of renders) {
+        const snapshot: VisualSnapshot = {
+          viewport: render.viewport,
+          width: render.width,
+          height: render.height,
+          screenshotPath: render.screenshotPath
+        };
+
+        const previous = baseline?.snapshots.find(s => s.viewport === render.viewport);
+        if (previous && await fs.access(previous.screenshotPath).then(() => true, () => false)) {
+          snapshot.diffPath = path.join(outputDir, `${render.viewport}.diff.png`);
+          const diff = await diffScreenshots(previous.screenshotPath, snapshot.screenshotPath, snapshot.diffPath);
+          snapshot.diffPercent = diff.diffPercent;
+        }
+
+        snapshots.push(snapshot);
+      }
+
+      console.log(`[PerceptionLayer] 📸 Captured revision ${revision}: ${snapshots
+        .map(s => s.diffPercent === undefined ? s.viewport : `${s.viewport} ${s.diffPercent}% changed`)
+        .join(', ')}`);
+
+      return {
+        revision,
+        capturedAt: new Date().toISOString(),
+        baselineRevision: snapshots.some(s => s.diffPath) ? baseline?.revision : undefined,
+        snapshots
+      };
+    } finally {
+      if (browser) await browser.close();
+      await server.stop();
+    }
+  }
+
+  /**
+   * Test Runner
+   * The generated tests must pass; skipped when the workspace has none
+   */
+  async testRunnerEye(workspaceDir: string): Promise<ValidationResult> {
+    return this.testRunner.run(workspaceDir);
+  }
+
+  /**
+   * Run the Six Eyes checks that the policy enables.
+   * Checks run in order and stop at the first failure; eyes that did not run are marked skipped.
+   * files are the workspace paths the step wrote (all sources when omitted).
    */
   async runSixEyes(
     code: string,
     workspaceDir: string,
-    serverUrl: string,
-    apiType: 'stripe' | 'firebase' | 'general' = 'general'
+    files?: string[],
+    policy: ValidationPolicy = { docVerify: true, staticAnalysis: true, syntaxGate: true, testRunner: true, visualProof: true }
   ): Promise<SixEyesResult> {
+    const skipped: ValidationResult = { passed: true, skipped: true };
+
     // Run checks sequentially
-    const docVerify = await this.docVerify(code, apiType);
+    const docVerify = policy.docVerify ? await this.docVerify(code, workspaceDir, files) : skipped;
     
-    let syntaxGate: ValidationResult = { passed: true };
-    let visualProof: ValidationResult = { passed: true };
+    let staticAnalysis: ValidationResult = skipped;
+    let syntaxGate: ValidationResult = skipped;
+    let testRunner: ValidationResult = skipped;
+    let visualProof: ValidationResult = skipped;
 
-    // Only proceed to syntax check if doc verify passed
-    if (docVerify.passed) {
-      syntaxGate = await this.syntaxGate(workspaceDir);
+    // Only proceed to static analysis if doc verify passed
+    if (docVerify.passed && policy.staticAnalysis) {
+      staticAnalysis = await this.staticAnalysis(workspaceDir);
+    }
+
+    // Only proceed to syntax check if static analysis passed
+    if (docVerify.passed && staticAnalysis.passed) {
+      if (policy.syntaxGate) {
+        syntaxGate = await this.syntaxGate(workspaceDir);
+      }
       
-      // Only proceed to visual check if syntax passed
-      if (syntaxGate.passed) {
-        visualProof = await this.visualProof(serverUrl, workspaceDir);
+      // Only run the tests if syntax passed
+      if (syntaxGate.passed && policy.testRunner) {
+        testRunner = await this.testRunnerEye(workspaceDir);
+      }
+
+      // Only proceed to visual check if the tests passed
+      if (syntaxGate.passed && testRunner.passed && policy.visualProof) {
+        visualProof = await this.visualProofWorkspace(workspaceDir);
       }
     }
 
-    const overallPassed = docVerify.passed && syntaxGate.passed && visualProof.passed;
+    const overallPassed = docVerify.passed && staticAnalysis.passed && syntaxGate.passed && testRunner.passed && visualProof.passed;
 
     return {
       docVerify,
+      staticAnalysis,
       syntaxGate,
+      testRunner,
       visualProof,
       overallPassed
     };
   }
 }
+
+/**
+ * A stopped run or a service outage is not a failed check - let the run pause or stop
+ */
+function rethrowInterruption(error: unknown): void {
+  checkpoint();
+  if (error instanceof ServiceUnavailableError) throw error;
+}
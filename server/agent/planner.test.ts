@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Planner } from './planner';
+import { models } from './models';
+import { ConfigurationError } from './errors';
+
+const ORDER = { orderId: 'order-plan', project_name: 'Test project', requirements: 'A landing page' };
+
+function modelReplying(...replies: Array<string | Error>): { calls: () => number } {
+  let calls = 0;
+  models.generate = (async () => {
+    const reply = replies[Math.min(calls++, replies.length - 1)];
+    if (reply instanceof Error) throw reply;
+    return { text: reply };
+  }) as unknown as typeof models.generate;
+  return { calls: () => calls };
+}
+
+test('a configuration error stops planning instead of using the fallback plan', async () => {
+  modelReplying(new ConfigurationError('ANTHROPIC_API_KEY is not set'));
+  await assert.rejects(new Planner().generatePlan(ORDER), ConfigurationError);
+});
+
+test('reports the repair attempts actually made before falling back', async () => {
+  const model = modelReplying('not json', new Error('socket hang up'));
+  const result = await new Planner().generatePlan(ORDER);
+
+  assert.equal(model.calls(), 2);
+  assert.equal(result.usedFallback, true);
+  assert.equal(result.repairAttempts, 1);
+  assert.match(result.issues.at(-1) || '', /Model request failed: socket hang up/);
+});
@@ -3,21 +3,61 @@
  * Breaks down project requirements into atomic coding steps
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { PlanStep, ProjectOrder } from './types';
+import { checkpoint } from './run-control';
+import { BudgetError, ConfigurationError } from './errors';
+import { ServiceUnavailableError } from './resilience';
+import { models } from './models';
+import { z } from 'zod';
 import fs from 'fs/promises';
 import path from 'path';
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+const MAX_PLAN_STEPS = 40;
+const MAX_TITLE_LENGTH = 120;
+const MAX_REPAIR_ATTEMPTS = Math.max(0, parseInt(process.env.AGENT_PLAN_REPAIR_ATTEMPTS || '2', 10) || 0);
+
+const planStepSchema = z.object({
+  id: z.string().trim().min(1, 'id is required'),
+  title: z.string().trim().min(1, 'title is required').max(MAX_TITLE_LENGTH, `title must be at most ${MAX_TITLE_LENGTH} characters`),
+  description: z.string().trim().min(1, 'description is required'),
+  dependsOn: z.array(z.string()).default([]),
+  produces: z.array(z.string()).default([]),
+  consumes: z.array(z.string()).default([])
+});
+
+const planSchema = z
+  .array(planStepSchema)
+  .min(1, 'plan must contain at least one step')
+  .max(MAX_PLAN_STEPS, `plan must contain at most ${MAX_PLAN_STEPS} steps`)
+  .superRefine((steps, ctx) => {
+    const seen = new Set<string>();
+    steps.forEach((step, index) => {
+      if (seen.has(step.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'id'],
+          message: `duplicate step id "${step.id}"`
+        });
+      }
+      seen.add(step.id);
+    });
+  });
+
+export interface PlanResult {
+  steps: PlanStep[];
+  usedFallback: boolean;
+  repairAttempts: number;
+  issues: string[]; // Validation/model errors seen while planning
+}
 
 export class Planner {
   /**
-   * Generate a detailed plan from project requirements
+   * Generate a detailed plan from project requirements.
+   * Invalid output is sent back to the model for repair before falling back
+   * to the generic plan.
    */
-  async generatePlan(order: ProjectOrder): Promise<PlanStep[]> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-1.5-pro' });
-
-    const prompt = `You are a senior software architect. Break down this project into atomic, sequential coding steps.
+  async generatePlan(order: ProjectOrder): Promise<PlanResult> {
+    const prompt = `You are a senior software architect. Break down this project into atomic coding steps that form a dependency graph.
 
 Project: ${order.project_name}
 Requirements: ${order.requirements}
@@ -26,77 +66,239 @@ Generate a detailed implementation plan with these characteristics:
 1. Each step should be small and focused on one specific task
 2. Steps should be in logical order (setup -> implementation -> integration -> validation)
 3. If the project involves payments, include Stripe integration steps
-4. Include testing and validation steps
-5. Each step should be completable independently
+4. Include steps that write automated tests (*.test.ts / *.test.js files next to the code); they are run after every step and must pass
+5. "dependsOn" lists the ids of steps that must finish first; independent steps get an empty list so they can run in parallel
+6. "produces" lists workspace file paths the step creates, "consumes" lists files it needs from other steps
+7. Dependencies must not form a cycle and must only reference ids in this plan
 
 Format your response as a JSON array of steps:
 [
   {
     "id": "step-1",
     "title": "Setup Project Structure",
-    "description": "Initialize Node.js project with TypeScript, create folder structure, setup package.json"
+    "description": "Initialize Node.js project with TypeScript, create folder structure, setup package.json",
+    "dependsOn": [],
+    "produces": ["package.json", "tsconfig.json"],
+    "consumes": []
   },
   {
     "id": "step-2", 
     "title": "Create Express Server",
-    "description": "Setup Express server with basic routes and middleware"
+    "description": "Setup Express server with basic routes and middleware",
+    "dependsOn": ["step-1"],
+    "produces": ["src/server.ts"],
+    "consumes": ["package.json"]
   }
 ]
 
 Important: Return ONLY the JSON array, no markdown formatting or explanations.`;
 
-    try {
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
-      
-      // Clean the response (remove markdown code blocks if present)
-      let jsonText = responseText.trim();
-      if (jsonText.startsWith('```json')) {
-        jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      } else if (jsonText.startsWith('```')) {
-        jsonText = jsonText.replace(/```\n?/g, '').trim();
+    const issues: string[] = [];
+    let request = prompt;
+    let repairAttempts = 0;
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      let responseText: string;
+      repairAttempts = attempt;
+
+      try {
+        const result = await models.generate('planner', request);
+        responseText = result.text;
+      } catch (error: any) {
+        // Never fall back to a default plan for a run that was cancelled or
+        // paused, or one that no model can serve until an operator steps in
+        checkpoint();
+        if (error instanceof ConfigurationError || error instanceof BudgetError || error instanceof ServiceUnavailableError) {
+          throw error;
+        }
+        console.error('Planning error:', error);
+        issues.push(`Model request failed: ${error.message}`);
+        break;
       }
 
-      const rawSteps = JSON.parse(jsonText);
-      
-      // Convert to PlanStep format
-      const steps: PlanStep[] = rawSteps.map((step: any) => ({
-        id: step.id,
-        title: step.title,
-        description: step.description,
-        status: 'pending',
-        retries: 0
-      }));
+      const parsed = Planner.parsePlan(responseText);
+      if (parsed.steps) {
+        if (attempt > 0) {
+          console.log(`[Planner] ✅ Plan repaired after ${attempt} attempt(s)`);
+        }
+        return { steps: parsed.steps, usedFallback: false, repairAttempts: attempt, issues };
+      }
+
+      console.warn(`[Planner] Plan failed validation (attempt ${attempt + 1}):`, parsed.errors);
+      issues.push(...parsed.errors);
+
+      // Send the errors back so the model can fix its own output
+      request = `${prompt}
+
+Your previous response was:
+${responseText}
+
+It failed validation with these errors:
+${parsed.errors.map(e => `- ${e}`).join('\n')}
 
-      return steps;
+Return the corrected JSON array only.`;
+    }
+
+    console.warn(`[Planner] ⚠️  Falling back to the default plan for ${order.project_name}`);
+
+    return {
+      steps: this.fallbackPlan(order),
+      usedFallback: true,
+      repairAttempts,
+      issues
+    };
+  }
+
+  /**
+   * Parse and validate a model response. Returns either steps or human-readable errors.
+   */
+  static parsePlan(responseText: string): { steps?: PlanStep[]; errors: string[] } {
+    // Clean the response (remove markdown code blocks if present)
+    let jsonText = responseText.trim();
+    const fenced = jsonText.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (fenced) {
+      jsonText = fenced[1].trim();
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(jsonText);
     } catch (error: any) {
-      console.error('Planning error:', error);
-      
-      // Fallback: create a basic plan
-      return [
-        {
-          id: 'step-1',
-          title: 'Setup Project',
-          description: 'Initialize project structure and dependencies',
-          status: 'pending',
-          retries: 0
-        },
-        {
-          id: 'step-2',
-          title: 'Implement Core Features',
-          description: order.requirements,
-          status: 'pending',
-          retries: 0
-        },
-        {
-          id: 'step-3',
-          title: 'Add Validation',
-          description: 'Add error handling and validation',
-          status: 'pending',
-          retries: 0
+      return { errors: [`Response is not valid JSON: ${error.message}`] };
+    }
+
+    const result = planSchema.safeParse(raw);
+    if (!result.success) {
+      return {
+        errors: result.error.issues.map(issue =>
+          issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+        )
+      };
+    }
+
+    // Convert to PlanStep format
+    const steps: PlanStep[] = result.data.map(step => ({
+      ...step,
+      status: 'pending',
+      retries: 0
+    }));
+
+    Planner.linkFileDependencies(steps);
+
+    const graphErrors = Planner.validatePlanGraph(steps);
+    if (graphErrors.length > 0) {
+      return { errors: graphErrors };
+    }
+
+    return { steps, errors: [] };
+  }
+
+  /**
+   * Generic 3-step plan used when the model cannot produce a valid one
+   */
+  private fallbackPlan(order: ProjectOrder): PlanStep[] {
+    return [
+      {
+        id: 'step-1',
+        title: 'Setup Project',
+        description: 'Initialize project structure and dependencies',
+        status: 'pending',
+        retries: 0,
+        dependsOn: []
+      },
+      {
+        id: 'step-2',
+        title: 'Implement Core Features',
+        description: order.requirements,
+        status: 'pending',
+        retries: 0,
+        dependsOn: ['step-1']
+      },
+      {
+        id: 'step-3',
+        title: 'Add Validation',
+        description: 'Add error handling and validation',
+        status: 'pending',
+        retries: 0,
+        dependsOn: ['step-2']
+      }
+    ];
+  }
+
+  /**
+   * Add an implicit dependency from every consumer of a file to the step that produces it
+   */
+  static linkFileDependencies(steps: PlanStep[]): void {
+    const producers = new Map<string, string>();
+    for (const step of steps) {
+      for (const file of step.produces || []) {
+        producers.set(path.posix.normalize(file), step.id);
+      }
+    }
+
+    for (const step of steps) {
+      const dependsOn = new Set(step.dependsOn || []);
+      for (const file of step.consumes || []) {
+        const producer = producers.get(path.posix.normalize(file));
+        if (producer && producer !== step.id) {
+          dependsOn.add(producer);
+        }
+      }
+      step.dependsOn = Array.from(dependsOn);
+    }
+  }
+
+  /**
+   * Check the step graph: unique ids, no dangling or self references, no cycles.
+   * Returns a list of problems (empty when the graph is valid).
+   */
+  static validatePlanGraph(steps: PlanStep[]): string[] {
+    const errors: string[] = [];
+    const ids = new Set<string>();
+
+    for (const step of steps) {
+      if (ids.has(step.id)) {
+        errors.push(`Duplicate step id "${step.id}"`);
+      }
+      ids.add(step.id);
+    }
+
+    for (const step of steps) {
+      for (const dep of step.dependsOn || []) {
+        if (dep === step.id) {
+          errors.push(`Step "${step.id}" depends on itself`);
+        } else if (!ids.has(dep)) {
+          errors.push(`Step "${step.id}" depends on unknown step "${dep}"`);
+        }
+      }
+    }
+
+    // Depth-first search for back edges
+    const byId = new Map(steps.map(step => [step.id, step]));
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (id: string, trail: string[]): void => {
+      if (state.get(id) === 'done') return;
+      if (state.get(id) === 'visiting') {
+        const cycle = trail.slice(trail.indexOf(id)).concat(id);
+        errors.push(`Dependency cycle: ${cycle.join(' -> ')}`);
+        return;
+      }
+
+      state.set(id, 'visiting');
+      for (const dep of byId.get(id)?.dependsOn || []) {
+        if (byId.has(dep) && dep !== id) {
+          visit(dep, trail.concat(id));
         }
-      ];
+      }
+      state.set(id, 'done');
+    };
+
+    for (const step of steps) {
+      visit(step.id, []);
     }
+
+    return errors;
   }
 
   /**
@@ -111,6 +313,7 @@ Important: Return ONLY the JSON array, no markdown formatting or explanations.`;
     steps.forEach((step, index) => {
       markdown += `## Step ${index + 1}: ${step.title}\n\n`;
       markdown += `**ID:** ${step.id}\n\n`;
+      markdown += `**Depends On:** ${step.dependsOn?.length ? step.dependsOn.join(', ') : 'none'}\n\n`;
       markdown += `**Description:** ${step.description}\n\n`;
       markdown += `**Status:** ${step.status}\n\n`;
       markdown += '---\n\n';
@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { pricingFromRequirements, toMinorUnits, validatePricing } from './pricing';
+import { ConfigurationError } from './errors';
+import { PricingPlan } from './types';
+
+function plan(currency: string, amount: number): PricingPlan {
+  return { currency, tiers: [{ name: 'Standard', items: [{ amount }] }] };
+}
+
+test('toMinorUnits converts two-decimal currencies to cents without float drift', () => {
+  assert.equal(toMinorUnits(19.99, 'usd'), 1999); // 19.99 * 100 is 1998.9999999999998
+  assert.equal(toMinorUnits(0.29, 'EUR'), 29);
+  assert.equal(toMinorUnits(1299.99, 'gbp'), 129999);
+  assert.throws(() => toMinorUnits(19.999, 'usd'), ConfigurationError);
+});
+
+test('toMinorUnits takes zero-decimal currencies in whole units', () => {
+  assert.equal(toMinorUnits(1500, 'jpy'), 1500);
+  assert.equal(toMinorUnits(9900, 'KRW'), 9900);
+  assert.throws(() => toMinorUnits(1500.5, 'jpy'), ConfigurationError);
+});
+
+test('toMinorUnits takes three-decimal currencies in thousandths, in multiples of 10', () => {
+  assert.equal(toMinorUnits(12.34, 'kwd'), 12340);
+  assert.equal(toMinorUnits(5, 'bhd'), 5000);
+  assert.throws(() => toMinorUnits(12.345, 'kwd'), ConfigurationError);
+  assert.ok(Number.isNaN(toMinorUnits(12.345, 'kwd', false)));
+});
+
+test('toMinorUnits sends ISK and UGX whole amounts with two decimals', () => {
+  assert.equal(toMinorUnits(500, 'isk'), 50000);
+  assert.equal(toMinorUnits(37000, 'ugx'), 3700000);
+  assert.throws(() => toMinorUnits(500.5, 'isk'), ConfigurationError);
+  assert.throws(() => toMinorUnits(0.01, 'ugx'), ConfigurationError);
+});
+
+test('validatePricing rejects amounts the currency cannot express', () => {
+  assert.equal(validatePricing(plan('usd', 19.99)), undefined);
+  assert.equal(validatePricing(plan('jpy', 1500)), undefined);
+  assert.equal(validatePricing(plan('kwd', 12.34)), undefined);
+  assert.equal(validatePricing(plan('isk', 500)), undefined);
+
+  assert.equal(validatePricing(plan('jpy', 1500.5)), 'tier "Standard": 1500.5 has more decimals than JPY allows');
+  assert.equal(validatePricing(plan('kwd', 12.345)), 'tier "Standard": 12.345 has more decimals than KWD allows');
+  assert.equal(validatePricing(plan('ugx', 0.5)), 'tier "Standard": 0.5 has more decimals than UGX allows');
+  assert.equal(validatePricing(plan('usd', 0)), 'tier "Standard": amount must be a positive number');
+  assert.equal(validatePricing(plan('dollars', 5)), 'currency "dollars" is not an ISO 4217 code');
+});
+
+test('validatePricing rejects tiers that mix billing intervals', () => {
+  const mixed: PricingPlan = {
+    currency: 'usd',
+    tiers: [{ name: 'Pro', items: [{ amount: 29, interval: 'month' }, { amount: 290, interval: 'year' }] }]
+  };
+  assert.equal(validatePricing(mixed), 'tier "Pro" mixes billing intervals (1 month, 1 year)');
+});
+
+test('pricingFromRequirements reads a single price', () => {
+  assert.deepEqual(
+    pricingFromRequirements('Create a landing page. Include Stripe payment for $19.99.'),
+    { currency: 'usd', tiers: [{ name: 'Standard', items: [{ amount: 19.99 }] }] }
+  );
+});
+
+test('pricingFromRequirements reads named recurring tiers', () => {
+  assert.deepEqual(
+    pricingFromRequirements('Pricing plans: Basic: €9/month, Pro: €29 per month, Team: €1,299.99 yearly'),
+    {
+      currency: 'eur',
+      tiers: [
+        { name: 'Basic', items: [{ amount: 9, interval: 'month' }] },
+        { name: 'Pro', items: [{ amount: 29, interval: 'month' }] },
+        { name: 'Team', items: [{ amount: 1299.99, interval: 'year' }] }
+      ]
+    }
+  );
+});
+
+test('pricingFromRequirements keeps currency precision', () => {
+  assert.deepEqual(
+    pricingFromRequirements('Sell the course for ¥1500 with Stripe checkout.'),
+    { currency: 'jpy', tiers: [{ name: 'Standard', items: [{ amount: 1500 }] }] }
+  );
+  assert.deepEqual(
+    pricingFromRequirements('Charge KWD 12.345 or KWD 12.340 per month.'),
+    { currency: 'kwd', tiers: [{ name: 'Standard', items: [{ amount: 12.34, interval: 'month' }] }] }
+  );
+  assert.deepEqual(
+    pricingFromRequirements('Tickets sell for ISK 500.50 or ISK 500.'),
+    { currency: 'isk', tiers: [{ name: 'Standard', items: [{ amount: 500 }] }] }
+  );
+});
+
+test('pricingFromRequirements ignores amounts outside payment sentences', () => {
+  assert.equal(pricingFromRequirements('Our budget is $5,000. Build a portfolio site.'), undefined);
+  assert.equal(pricingFromRequirements('Build an API 42 times faster.'), undefined);
+});
@@ -0,0 +1,260 @@
+/**
+ * PRICING
+ * What a generated product sells for. The order's own pricing wins; without
+ * one, prices named in the requirements ("Pro: $29/month") are used, and
+ * without those the configured default:
+ *   STRIPE_DEFAULT_AMOUNT (99), STRIPE_DEFAULT_CURRENCY (usd),
+ *   STRIPE_DEFAULT_INTERVAL (unset = one-time; day, week, month or year)
+ * STRIPE_TAX_BEHAVIOR and STRIPE_AUTOMATIC_TAX apply when the plan does not set its own.
+ */
+
+import { ConfigurationError } from './errors';
+import { PriceInterval, PriceItem, PricingPlan, PricingTier, ProjectState, ResolvedPricing } from './types';
+
+const INTERVALS: PriceInterval[] = ['day', 'week', 'month', 'year'];
+const TAX_BEHAVIORS = ['inclusive', 'exclusive', 'unspecified'] as const;
+
+// Stripe limits: 20 line items per payment link; more tiers would mean more links than a page can use
+const MAX_TIERS = 5;
+const MAX_ITEMS = 20;
+
+// Currencies Stripe takes in whole units, or in thousandths
+// (https://docs.stripe.com/currencies#zero-decimal)
+const ZERO_DECIMAL = new Set(['bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga', 'pyg', 'rwf', 'vnd', 'vuv', 'xaf', 'xof', 'xpf']);
+const THREE_DECIMAL = new Set(['bhd', 'jod', 'kwd', 'omr', 'tnd']);
+// Whole units for display, but sent with two decimals for backwards compatibility
+const WHOLE_TWO_DECIMAL = new Set(['isk', 'ugx']);
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'usd', '€': 'eur', '£': 'gbp', '¥': 'jpy', '₹': 'inr', '₩': 'krw'
+};
+const CURRENCY_CODES = new Set(Intl.supportedValuesOf('currency'));
+
+// "per month", "/mo", "monthly"
+const RECURRING: Record<string, PriceInterval | undefined> = {
+  day: 'day', daily: 'day',
+  week: 'week', weekly: 'week',
+  month: 'month', mo: 'month', monthly: 'month',
+  year: 'year', yr: 'year', annum: 'year', yearly: 'year', annually: 'year'
+};
+
+/**
+ * The plan to set payments up with for a project, as described above
+ */
+export function resolvePricing(projectState: ProjectState): ResolvedPricing {
+  const taxDefaults = {
+    taxBehavior: parseTaxBehavior(process.env.STRIPE_TAX_BEHAVIOR),
+    automaticTax: process.env.STRIPE_AUTOMATIC_TAX === 'true' || undefined
+  };
+
+  if (projectState.pricing) {
+    return { ...taxDefaults, ...stripUndefined(projectState.pricing), source: 'order' };
+  }
+
+  const fromRequirements = pricingFromRequirements(projectState.requirements);
+  if (fromRequirements) {
+    return { ...taxDefaults, ...fromRequirements, source: 'requirements' };
+  }
+
+  return { ...taxDefaults, ...defaultPricing(), source: 'config' };
+}
+
+/**
+ * STRIPE_DEFAULT_* as a single-tier plan. Throws ConfigurationError when they are invalid.
+ */
+export function defaultPricing(): PricingPlan {
+  const amount = parseFloat(process.env.STRIPE_DEFAULT_AMOUNT || '99');
+  const interval = process.env.STRIPE_DEFAULT_INTERVAL?.trim().toLowerCase() || undefined;
+  const plan: PricingPlan = {
+    currency: (process.env.STRIPE_DEFAULT_CURRENCY || 'usd').trim().toLowerCase(),
+    tiers: [{ name: 'Standard', items: [{ amount, interval: interval as PriceInterval | undefined }] }]
+  };
+
+  const error = validatePricing(plan);
+  if (error) {
+    throw new ConfigurationError(`Invalid default price (STRIPE_DEFAULT_AMOUNT, STRIPE_DEFAULT_CURRENCY, STRIPE_DEFAULT_INTERVAL): ${error}`);
+  }
+  return plan;
+}
+
+/**
+ * Parse the pricing field of an API order (snake_case). Accepts the full form
+ * ({currency, tiers: [{name, items: [{amount, interval}]}]}) or a single
+ * price ({amount, currency, interval}).
+ */
+export function parsePricing(raw: unknown): { pricing?: PricingPlan; error?: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'pricing must be an object' };
+  }
+  const input = raw as Record<string, any>;
+
+  const item = (value: Record<string, any>): PriceItem => stripUndefined({
+    name: typeof value?.name === 'string' ? value.name.trim() || undefined : undefined,
+    amount: value?.amount,
+    interval: value?.interval,
+    intervalCount: value?.interval_count,
+    quantity: value?.quantity
+  });
+
+  const tiers: PricingTier[] = Array.isArray(input.tiers)
+    ? input.tiers.map((tier: Record<string, any>, index: number) => ({
+        name: typeof tier?.name === 'string' && tier.name.trim() ? tier.name.trim() : `Option ${index + 1}`,
+        items: Array.isArray(tier?.items) ? tier.items.map(item) : []
+      }))
+    : [{ name: 'Standard', items: [item(input)] }];
+
+  const pricing: PricingPlan = stripUndefined({
+    currency: typeof input.currency === 'string' ? input.currency.trim().toLowerCase() : 'usd',
+    tiers,
+    taxBehavior: input.tax_behavior,
+    automaticTax: input.automatic_tax
+  });
+
+  const error = validatePricing(pricing);
+  return error ? { error: `pricing: ${error}` } : { pricing };
+}
+
+/**
+ * Why a plan cannot be set up in Stripe, or undefined when it can
+ */
+export function validatePricing(plan: PricingPlan): string | undefined {
+  if (!/^[a-z]{3}$/.test(plan.currency)) return `currency "${plan.currency}" is not an ISO 4217 code`;
+  if (plan.taxBehavior !== undefined && !TAX_BEHAVIORS.includes(plan.taxBehavior)) {
+    return `tax_behavior must be one of ${TAX_BEHAVIORS.join(', ')}`;
+  }
+  if (plan.automaticTax !== undefined && typeof plan.automaticTax !== 'boolean') return 'automatic_tax must be a boolean';
+  if (plan.tiers.length === 0 || plan.tiers.length > MAX_TIERS) return `between 1 and ${MAX_TIERS} tiers are supported`;
+
+  const names = new Set<string>();
+  for (const tier of plan.tiers) {
+    if (names.has(tier.name)) return `tier "${tier.name}" appears twice`;
+    names.add(tier.name);
+    if (tier.items.length === 0 || tier.items.length > MAX_ITEMS) return `tier "${tier.name}" needs between 1 and ${MAX_ITEMS} items`;
+
+    for (const item of tier.items) {
+      if (typeof item.amount !== 'number' || !Number.isFinite(item.amount) || item.amount <= 0) {
+        return `tier "${tier.name}": amount must be a positive number`;
+      }
+      if (!Number.isInteger(toMinorUnits(item.amount, plan.currency, false))) {
+        return `tier "${tier.name}": ${item.amount} has more decimals than ${plan.currency.toUpperCase()} allows`;
+      }
+      if (item.interval !== undefined && !INTERVALS.includes(item.interval)) {
+        return `tier "${tier.name}": interval must be one of ${INTERVALS.join(', ')}`;
+      }
+      if (item.intervalCount !== undefined && (!Number.isInteger(item.intervalCount) || item.intervalCount < 1 || item.interval === undefined)) {
+        return `tier "${tier.name}": interval_count must be a positive integer next to an interval`;
+      }
+      if (item.quantity !== undefined && (!Number.isInteger(item.quantity) || item.quantity < 1)) {
+        return `tier "${tier.name}": quantity must be a positive integer`;
+      }
+    }
+
+    // A subscription bills every recurring item on the same schedule
+    const schedules = new Set(tier.items.filter(i => i.interval).map(i => `${i.intervalCount || 1} ${i.interval}`));
+    if (schedules.size > 1) return `tier "${tier.name}" mixes billing intervals (${Array.from(schedules).join(', ')})`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Amount in the smallest unit Stripe expects for the currency: cents for
+ * USD, whole yen for JPY, thousandths (a multiple of ten) for KWD. Throws
+ * ConfigurationError for an amount the currency cannot express; with exact
+ * false it returns a non-integer instead (validation uses that).
+ */
+export function toMinorUnits(amount: number, currency: string, exact: boolean = true): number {
+  const code = currency.toLowerCase();
+  let units: number;
+
+  if (ZERO_DECIMAL.has(code)) {
+    units = amount;
+  } else if (WHOLE_TWO_DECIMAL.has(code)) {
+    units = amount * 100;
+    if (!Number.isInteger(amount)) units = NaN;
+  } else if (THREE_DECIMAL.has(code)) {
+    units = Math.round(amount * 1000 * 1e6) / 1e6;
+    if (units % 10 !== 0) units = NaN; // Stripe requires a multiple of 10
+  } else {
+    units = Math.round(amount * 100 * 1e6) / 1e6; // 19.99 * 100 is 1998.9999999999998
+  }
+
+  if (!exact) return units;
+  if (!Number.isInteger(units)) {
+    throw new ConfigurationError(`${amount} ${code.toUpperCase()} cannot be charged: too many decimals for the currency`);
+  }
+  return units;
+}
+
+/**
+ * Prices named in free-text requirements, one tier per price: "Stripe
+ * payment for $99", "Basic: €9/month, Pro: €29/month". Only sentences that
+ * talk about paying are read, so a mentioned budget is not taken for a price.
+ * Undefined when nothing usable is found.
+ */
+export function pricingFromRequirements(requirements: string): PricingPlan | undefined {
+  const money = /(?:([$€£¥₹₩])\s?|\b([A-Z]{3})\s)(\d{1,3}(?:,\d{3})+|\d+)(\.\d{1,3})?(?:\s?(?:\/|per |a )\s?(day|week|month|mo|year|yr|annum)\b|\s(daily|weekly|monthly|yearly|annually)\b)?/g;
+  const paymentContext = /\b(pay|payment|price|pricing|plan|tier|subscri\w*|checkout|buy|purchase|stripe|charge|sell|fee)\b/i;
+
+  let currency: string | undefined;
+  const tiers: PricingTier[] = [];
+
+  for (const sentence of requirements.split(/\n|(?<=[.!?])\s+/)) {
+    if (!paymentContext.test(sentence)) continue;
+
+    for (const match of Array.from(sentence.matchAll(money))) {
+      if (!match[1] && !CURRENCY_CODES.has(match[2])) continue; // "API 42" is not a price
+      const code = match[1] ? CURRENCY_SYMBOLS[match[1]] : match[2].toLowerCase();
+      if (currency && code !== currency) continue; // One currency per plan; the first one named wins
+
+      const amount = parseFloat(match[3].replace(/,/g, '') + (match[4] || ''));
+      if (!(amount > 0) || !Number.isInteger(toMinorUnits(amount, code, false))) continue;
+      currency = code;
+      const period = (match[5] || match[6] || '').toLowerCase();
+      const interval = RECURRING[period];
+
+      // "Pro: $29" or "Pro plan - $29" names the tier
+      const label = sentence.slice(0, match.index).match(/([A-Z][\w+ ]{0,30}?)\s*(?:tier|plan)?\s*[:\-–]\s*$/);
+      const name = label?.[1].trim() || `Option ${tiers.length + 1}`;
+      if (tiers.some(t => t.name === name)) continue;
+
+      tiers.push({ name, items: [interval ? { amount, interval } : { amount }] });
+    }
+  }
+
+  if (!currency || tiers.length === 0) return undefined;
+  if (tiers.length === 1 && tiers[0].name.startsWith('Option ')) tiers[0].name = 'Standard';
+
+  const plan: PricingPlan = { currency, tiers: tiers.slice(0, MAX_TIERS) };
+  return validatePricing(plan) ? undefined : plan;
+}
+
+/**
+ * "Pro: 29 EUR / month + Setup fee 99 EUR" per tier, for logs
+ */
+export function describePricing(plan: PricingPlan): string[] {
+  return plan.tiers.map(tier => `${tier.name}: ${describeTier(tier, plan.currency)}`);
+}
+
+/**
+ * "29 EUR / month + Setup fee 99 EUR"
+ */
+export function describeTier(tier: PricingTier, currency: string): string {
+  return tier.items.map(item => {
+    const price = `${item.quantity && item.quantity > 1 ? `${item.quantity} x ` : ''}${item.amount} ${currency.toUpperCase()}`;
+    const every = item.interval ? ` / ${item.intervalCount && item.intervalCount > 1 ? `${item.intervalCount} ${item.interval}s` : item.interval}` : '';
+    return `${item.name ? `${item.name} ` : ''}${price}${every}`;
+  }).join(' + ');
+}
+
+function parseTaxBehavior(value?: string): PricingPlan['taxBehavior'] {
+  const behavior = value?.trim().toLowerCase();
+  if (!behavior) return undefined;
+  if ((TAX_BEHAVIORS as readonly string[]).includes(behavior)) return behavior as PricingPlan['taxBehavior'];
+  console.warn(`[Pricing] Ignoring STRIPE_TAX_BEHAVIOR="${value}" (expected ${TAX_BEHAVIORS.join(', ')})`);
+  return undefined;
+}
+
+function stripUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
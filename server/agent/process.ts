@@ -0,0 +1,119 @@
+/**
+ * CHILD PROCESSES
+ * spawn() for agent tools (tsc, npm, gradle, adb, vercel, fastlane) that goes
+ * through the run's cassette: output and exit code are recorded, and replayed
+ * by a stand-in process that emits the same streams and events.
+ */
+
+import { spawn, ChildProcessWithoutNullStreams, SpawnOptionsWithoutStdio } from 'child_process';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { currentCassette, Interaction } from './cassette';
+
+interface RecordedOutput {
+  chunks: { stream: 'stdout' | 'stderr'; data: string }[]; // Base64 - output may be binary (screencap)
+  code: number | null;
+}
+
+// Inherited by commands that run generated code. Nothing else from the agent's
+// environment (API keys, tokens, database URLs) reaches them.
+const SANDBOX_ENV_KEYS = ['PATH', 'HOME', 'TMPDIR', 'LANG', 'npm_config_cache', 'npm_config_registry'];
+
+/**
+ * Minimal environment for commands that run generated code (installs, dev
+ * servers, tests), plus the given variables
+ */
+export function sandboxEnv(extra: Record<string, string> = {}): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const key of SANDBOX_ENV_KEYS) {
+    if (process.env[key] !== undefined) env[key] = process.env[key];
+  }
+  return { ...env, ...extra };
+}
+
+/**
+ * Drop-in replacement for child_process.spawn with record/replay support.
+ * Only the command, arguments and working directory identify a recording.
+ */
+export function spawnProcess(command: string, args: string[], options: SpawnOptionsWithoutStdio = {}): ChildProcessWithoutNullStreams {
+  const cassette = currentCassette();
+  const label = [command, ...args.slice(0, 2)].join(' ');
+  const request = { command, args, cwd: options.cwd ? String(options.cwd) : undefined };
+
+  if (!cassette) {
+    return spawn(command, args, options);
+  }
+
+  if (cassette.mode === 'replay') {
+    return replayProcess(cassette.take('process', label, request));
+  }
+
+  const child = spawn(command, args, options);
+  const output: RecordedOutput = { chunks: [], code: null };
+
+  child.stdout.on('data', (data: Buffer) => output.chunks.push({ stream: 'stdout', data: Buffer.from(data).toString('base64') }));
+  child.stderr.on('data', (data: Buffer) => output.chunks.push({ stream: 'stderr', data: Buffer.from(data).toString('base64') }));
+
+  child.on('close', code => {
+    output.code = code;
+    void cassette.add('process', label, request, { response: output });
+  });
+  child.on('error', error => {
+    if (error.name === 'AbortError') return;
+    void cassette.add('process', label, request, { error });
+  });
+
+  return child;
+}
+
+/**
+ * Stand-in child process that plays back a recording
+ */
+function replayProcess(recording: Promise<Interaction>): ChildProcessWithoutNullStreams {
+  const child = new EventEmitter();
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+
+  Object.assign(child, {
+    stdout,
+    stderr,
+    stdin: null,
+    pid: undefined,
+    kill: () => true
+  });
+
+  // Let the caller attach listeners before anything is emitted
+  setImmediate(async () => {
+    try {
+      const interaction = await recording;
+
+      if (interaction.error) {
+        const error = new Error(interaction.error.message);
+        error.name = interaction.error.name;
+        child.emit('error', error);
+        return;
+      }
+
+      const output: RecordedOutput = interaction.response;
+      for (const chunk of output.chunks) {
+        (chunk.stream === 'stdout' ? stdout : stderr).write(Buffer.from(chunk.data, 'base64'));
+      }
+
+      const ended = [stdout, stderr].map(stream => new Promise(resolve => stream.once('end', resolve)));
+      stdout.end();
+      stderr.end();
+      // Drain streams nobody reads, or 'end' never fires
+      for (const stream of [stdout, stderr]) {
+        if (stream.readableFlowing !== true) stream.resume();
+      }
+      await Promise.all(ended);
+
+      child.emit('exit', output.code, null);
+      child.emit('close', output.code, null);
+    } catch (error) {
+      child.emit('error', error);
+    }
+  });
+
+  return child as ChildProcessWithoutNullStreams;
+}
@@ -0,0 +1,201 @@
+/**
+ * PROJECT STORE
+ * Durable persistence for ProjectState so orders survive server restarts
+ */
+
+import { Pool } from 'pg';
+import { drizzle, type NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { eq, sql } from 'drizzle-orm';
+import { agentProjects } from '@shared/schema';
+import { ProjectState } from './types';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface IProjectStore {
+  init(): Promise<void>;
+  get(orderId: string): Promise<ProjectState | undefined>;
+  save(projectState: ProjectState): Promise<void>;
+  list(): Promise<ProjectState[]>;
+}
+
+/**
+ * Volatile store - state is lost on restart (tests, throwaway environments)
+ */
+export class MemProjectStore implements IProjectStore {
+  private projects: Map<string, ProjectState>;
+
+  constructor() {
+    this.projects = new Map();
+  }
+
+  async init(): Promise<void> {}
+
+  async get(orderId: string): Promise<ProjectState | undefined> {
+    const projectState = this.projects.get(orderId);
+    return projectState ? structuredClone(projectState) : undefined;
+  }
+
+  async save(projectState: ProjectState): Promise<void> {
+    this.projects.set(projectState.orderId, structuredClone(projectState));
+  }
+
+  async list(): Promise<ProjectState[]> {
+    return Array.from(this.projects.values()).map(p => structuredClone(p));
+  }
+}
+
+/**
+ * Local fallback - one JSON document per order, written atomically.
+ * Kept outside the order workspace so it is never shipped with a deployment.
+ */
+export class FileProjectStore implements IProjectStore {
+  private stateDir: string;
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(stateDir: string) {
+    this.stateDir = stateDir;
+  }
+
+  async init(): Promise<void> {
+    await fs.mkdir(this.stateDir, { recursive: true });
+  }
+
+  async get(orderId: string): Promise<ProjectState | undefined> {
+    try {
+      const content = await fs.readFile(this.statePath(orderId), 'utf-8');
+      return JSON.parse(content);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Writes of one order are chained (parallel steps persist at the same time),
+   * so the last save always wins and never shares a tmp file with another
+   */
+  async save(projectState: ProjectState): Promise<void> {
+    const orderId = projectState.orderId;
+    const target = this.statePath(orderId);
+    const snapshot = JSON.stringify(projectState, null, 2);
+
+    const write = (this.writes.get(orderId) || Promise.resolve())
+      .catch(() => undefined) // A failed earlier write was reported to its own caller
+      .then(async () => {
+        const tmp = `${target}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+        await fs.writeFile(tmp, snapshot, 'utf-8');
+        await fs.rename(tmp, target);
+      });
+
+    this.writes.set(orderId, write);
+    const settle = () => {
+      if (this.writes.get(orderId) === write) this.writes.delete(orderId);
+    };
+    write.then(settle, settle);
+    return write;
+  }
+
+  async list(): Promise<ProjectState[]> {
+    const entries = await fs.readdir(this.stateDir);
+    const projects: ProjectState[] = [];
+
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) continue;
+
+      try {
+        const content = await fs.readFile(path.join(this.stateDir, entry), 'utf-8');
+        projects.push(JSON.parse(content));
+      } catch (error: any) {
+        console.error(`[ProjectStore] Skipping unreadable state file ${entry}:`, error.message);
+      }
+    }
+
+    return projects;
+  }
+
+  private statePath(orderId: string): string {
+    // Order IDs are nanoids, but never trust them as path segments
+    return path.join(this.stateDir, `${path.basename(orderId)}.json`);
+  }
+}
+
+/**
+ * Production store - Postgres via drizzle (see drizzle.config.ts)
+ */
+export class PostgresProjectStore implements IProjectStore {
+  private pool: Pool;
+  private db: NodePgDatabase;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({ connectionString });
+    this.db = drizzle(this.pool);
+  }
+
+  async init(): Promise<void> {
+    // Same shape as shared/schema.ts so a fresh database works before `npm run db:push`
+    await this.db.execute(sql`
+      CREATE TABLE IF NOT EXISTS agent_projects (
+        order_id text PRIMARY KEY,
+        status text NOT NULL,
+        state jsonb NOT NULL,
+        updated_at timestamp NOT NULL DEFAULT now()
+      )
+    `);
+  }
+
+  async get(orderId: string): Promise<ProjectState | undefined> {
+    const rows = await this.db
+      .select()
+      .from(agentProjects)
+      .where(eq(agentProjects.orderId, orderId));
+
+    return rows[0] ? (rows[0].state as ProjectState) : undefined;
+  }
+
+  async save(projectState: ProjectState): Promise<void> {
+    const row = {
+      orderId: projectState.orderId,
+      status: projectState.status,
+      state: projectState,
+      updatedAt: new Date()
+    };
+
+    await this.db
+      .insert(agentProjects)
+      .values(row)
+      .onConflictDoUpdate({
+        target: agentProjects.orderId,
+        set: { status: row.status, state: row.state, updatedAt: row.updatedAt }
+      });
+  }
+
+  async list(): Promise<ProjectState[]> {
+    const rows = await this.db.select().from(agentProjects);
+    return rows.map(row => row.state as ProjectState);
+  }
+}
+
+/**
+ * Pick a store from the environment.
+ * PROJECT_STORE=postgres|file|memory, defaulting to Postgres when DATABASE_URL is set.
+ */
+export function createProjectStore(projectsDir: string): IProjectStore {
+  const kind = process.env.PROJECT_STORE || (process.env.DATABASE_URL ? 'postgres' : 'file');
+
+  switch (kind) {
+    case 'postgres':
+      if (!process.env.DATABASE_URL) {
+        throw new Error('PROJECT_STORE=postgres requires DATABASE_URL');
+      }
+      console.log('[ProjectStore] Using Postgres project store');
+      return new PostgresProjectStore(process.env.DATABASE_URL);
+    case 'memory':
+      console.warn('[ProjectStore] Using in-memory project store - orders will not survive a restart');
+      return new MemProjectStore();
+    case 'file':
+    default:
+      console.log('[ProjectStore] Using file project store');
+      return new FileProjectStore(path.join(projectsDir, '.state'));
+  }
+}
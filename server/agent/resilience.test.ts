@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RunController, RunInterruptedError, runWithContext } from './run-control';
+
+// One failure opens a breaker, which half-opens almost at once; "flaky" gets one call a minute
+process.env.AGENT_BREAKER_THRESHOLD = '1';
+process.env.AGENT_BREAKER_COOLDOWN_MS = '20';
+process.env.AGENT_RETRY_ATTEMPTS = '1';
+process.env.AGENT_RATE_LIMITS = 'flaky=1';
+
+const { Resilience, ServiceUnavailableError } = await import('./resilience');
+
+interface Internals {
+  breakers: Map<string, { state: string; allow(): boolean }>;
+}
+
+const connectionReset = () => Promise.reject(Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' }));
+
+test('a half-open trial aborted while waiting for the rate limiter is released', async () => {
+  const resilience = new Resilience();
+  const breakers = (resilience as unknown as Internals).breakers;
+
+  // Spends the only token of the minute and opens the breaker
+  await assert.rejects(resilience.call('flaky', connectionReset), ServiceUnavailableError);
+  await new Promise(resolve => setTimeout(resolve, 40));
+  assert.equal(breakers.get('flaky')!.state, 'half_open');
+
+  const controller = new RunController();
+  const trial = runWithContext({ orderId: 'order-1', controller }, () =>
+    resilience.call('flaky', async () => 'never sent')
+  );
+  controller.pause();
+
+  await assert.rejects(trial, RunInterruptedError);
+  assert.equal(breakers.get('flaky')!.allow(), true, 'the next call may be the trial');
+});
@@ -0,0 +1,393 @@
+/**
+ * RESILIENCE
+ * Shared guard for calls to external services (model providers, Stripe,
+ * Vercel, fastlane, SMTP): a rate limiter per service, retries with
+ * exponential backoff and full jitter on transient errors, and a circuit
+ * breaker that stops calling a service after repeated transient failures.
+ *
+ * AGENT_RETRY_ATTEMPTS / AGENT_RETRY_BASE_MS / AGENT_RETRY_MAX_MS tune the backoff,
+ * AGENT_BREAKER_THRESHOLD / AGENT_BREAKER_COOLDOWN_MS the breakers and
+ * AGENT_RATE_LIMITS ("gemini=60,stripe=1500") the calls per minute per service.
+ */
+
+import { ErrorCategory } from './types';
+import { AgentError } from './errors';
+import { currentContext, currentSignal } from './run-control';
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export interface ServiceHealth {
+  state: BreakerState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalCalls: number;
+  openedAt?: string;
+  retryAt?: string; // When an open breaker lets a trial call through
+  lastError?: string;
+  ratePerMinute?: number;
+}
+
+interface GuardOptions<T> {
+  // Whether a thrown error is worth retrying; defaults to isTransientError
+  transient?: (error: unknown) => boolean;
+  // Failure message of a result that reports a transient failure instead of throwing
+  // (CLI results); such failures are retried like thrown ones
+  transientResult?: (result: T) => string | undefined;
+}
+
+const RETRY_ATTEMPTS = Math.max(1, parseInt(process.env.AGENT_RETRY_ATTEMPTS || '4', 10) || 4);
+const RETRY_BASE_MS = parseInt(process.env.AGENT_RETRY_BASE_MS || '500', 10) || 500;
+const RETRY_MAX_MS = parseInt(process.env.AGENT_RETRY_MAX_MS || '30000', 10) || 30000;
+const BREAKER_THRESHOLD = Math.max(1, parseInt(process.env.AGENT_BREAKER_THRESHOLD || '5', 10) || 5);
+const BREAKER_COOLDOWN_MS = parseInt(process.env.AGENT_BREAKER_COOLDOWN_MS || '60000', 10) || 60000;
+
+// Calls per minute; services without a limit are not throttled
+const DEFAULT_RATE_LIMITS: Record<string, number> = {
+  gemini: 60,
+  openai: 60,
+  anthropic: 50,
+  stripe: 1500,
+  vercel: 30,
+  fastlane: 10,
+  smtp: 30,
+  chat: 60
+};
+
+// Category of the error raised when a service is unavailable
+const SERVICE_CATEGORIES: Record<string, ErrorCategory> = {
+  stripe: 'payment',
+  vercel: 'deploy',
+  fastlane: 'deploy',
+  smtp: 'notification',
+  webhook: 'notification',
+  chat: 'notification'
+};
+
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504, 529]);
+const TRANSIENT_CODES = /^(ECONNRESET|ECONNREFUSED|ECONNABORTED|ETIMEDOUT|ESOCKET|ECONNECTION|EPIPE|ENOTFOUND|EAI_AGAIN)$/;
+const TRANSIENT_STRIPE_TYPES = new Set(['StripeRateLimitError', 'StripeConnectionError', 'StripeAPIError']);
+
+/**
+ * Output of CLI tools (vercel, fastlane) that points at a network or service problem
+ */
+export const TRANSIENT_OUTPUT = /ETIMEDOUT|ECONNRESET|ECONNREFUSED|EAI_AGAIN|socket hang up|rate limit|too many requests|\b(429|502|503|504)\b|service unavailable|temporarily unavailable|timed out/i;
+
+/**
+ * Thrown instead of calling a service whose breaker is open, and when a call
+ * still fails transiently after every retry. The run is paused, not failed.
+ */
+export class ServiceUnavailableError extends AgentError {
+  readonly category: ErrorCategory;
+
+  constructor(readonly service: string, message: string, readonly retryAt: Date, cause?: unknown) {
+    super(message, {
+      retryable: true,
+      remediation: `${service} is unavailable; the order resumes automatically once it recovers (next attempt ${retryAt.toISOString()}).`
+    }, { cause });
+    this.category = SERVICE_CATEGORIES[service] || 'model';
+  }
+}
+
+/**
+ * Whether an error is a network problem, timeout, rate limit or server error
+ */
+export function isTransientError(error: unknown): boolean {
+  const err = error as any;
+  if (!err || err.name === 'AbortError' || err.name === 'RunInterruptedError') return false;
+
+  const status = err.status ?? err.statusCode ?? err.responseCode;
+  if (typeof status === 'number') {
+    // SMTP 4xx replies are temporary by definition
+    return TRANSIENT_STATUSES.has(status) || (err.responseCode !== undefined && status >= 400 && status < 500);
+  }
+
+  if (typeof err.type === 'string' && err.type.startsWith('Stripe')) {
+    return TRANSIENT_STRIPE_TYPES.has(err.type);
+  }
+
+  return TRANSIENT_CODES.test(err.code || '') ||
+    err.name === 'TimeoutError' ||
+    /fetch failed|socket hang up|network|timed? ?out/i.test(err.message || '');
+}
+
+/**
+ * Token bucket refilled continuously at ratePerMinute
+ */
+class RateLimiter {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(readonly ratePerMinute: number) {
+    this.tokens = ratePerMinute;
+  }
+
+  async acquire(signal?: AbortSignal): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      this.tokens = Math.min(this.ratePerMinute, this.tokens + ((now - this.updatedAt) / 60000) * this.ratePerMinute);
+      this.updatedAt = now;
+
+      if (this.tokens >= 1) {
+        this.tokens--;
+        return;
+      }
+
+      await sleep(Math.ceil(((1 - this.tokens) / this.ratePerMinute) * 60000), signal);
+    }
+  }
+}
+
+class CircuitBreaker {
+  state: BreakerState = 'closed';
+  consecutiveFailures = 0;
+  totalFailures = 0;
+  totalCalls = 0;
+  openedAt?: number;
+  lastError?: string;
+  private trialInFlight = false;
+  private cooldown?: NodeJS.Timeout;
+
+  constructor(readonly service: string, private onChange: (service: string, state: BreakerState) => void) {}
+
+  get retryAt(): number | undefined {
+    return this.openedAt === undefined ? undefined : this.openedAt + BREAKER_COOLDOWN_MS;
+  }
+
+  /**
+   * Whether a call may go out now. Half-open lets one trial call through.
+   */
+  allow(): boolean {
+    if (this.state === 'closed') return true;
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.totalCalls++;
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    if (this.state !== 'closed') {
+      this.openedAt = undefined;
+      this.transition('closed');
+    }
+  }
+
+  /**
+   * A call that was aborted tells nothing; let the next one be the trial
+   */
+  abandonTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(message: string): void {
+    this.totalCalls++;
+    this.totalFailures++;
+    this.consecutiveFailures++;
+    this.lastError = message;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || (this.state === 'closed' && this.consecutiveFailures >= BREAKER_THRESHOLD)) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    this.openedAt = Date.now();
+    this.transition('open');
+
+    // After the cooldown one trial call decides whether the service is back
+    clearTimeout(this.cooldown);
+    this.cooldown = setTimeout(() => this.transition('half_open'), BREAKER_COOLDOWN_MS);
+    this.cooldown.unref();
+  }
+
+  private transition(state: BreakerState): void {
+    if (this.state === state) return;
+    this.state = state;
+    const icon = state === 'open' ? '🔴' : state === 'half_open' ? '🟡' : '🟢';
+    console.log(`[Resilience] ${icon} ${this.service} circuit ${state}${state === 'open' ? ` after: ${this.lastError}` : ''}`);
+    this.onChange(this.service, state);
+  }
+}
+
+export class Resilience {
+  private breakers = new Map<string, CircuitBreaker>();
+  private limiters = new Map<string, RateLimiter>();
+  private listeners: ((service: string, state: BreakerState) => void)[] = [];
+  private rateLimits: Record<string, number>;
+
+  constructor() {
+    this.rateLimits = { ...DEFAULT_RATE_LIMITS, ...parseRateLimits() };
+  }
+
+  /**
+   * Call a service with rate limiting, retries and its circuit breaker.
+   * Errors that are not transient are rethrown unchanged on the first attempt.
+   */
+  async call<T>(service: string, operation: () => Promise<T>, options: GuardOptions<T> = {}): Promise<T> {
+    const breaker = this.breaker(service);
+    const transient = options.transient || isTransientError;
+    const signal = currentSignal();
+
+    for (let attempt = 1; ; attempt++) {
+      if (!breaker.allow()) {
+        throw this.unavailable(breaker, `${service} is unavailable (circuit open after ${breaker.consecutiveFailures} failures: ${breaker.lastError})`);
+      }
+
+      try {
+        await this.limiter(service)?.acquire(signal);
+      } catch (error) {
+        // Aborted while waiting for a slot - the trial call never went out
+        breaker.abandonTrial();
+        throw error;
+      }
+
+      let failure: string | undefined;
+      let thrown: unknown;
+      try {
+        const result = await operation();
+        failure = options.transientResult?.(result);
+        if (!failure) {
+          breaker.recordSuccess();
+          return result;
+        }
+      } catch (error: any) {
+        if (!transient(error)) {
+          // The service answered; a rejected request says nothing about its health
+          if (error?.name === 'AbortError' || error?.name === 'RunInterruptedError') {
+            breaker.abandonTrial();
+          } else {
+            breaker.recordSuccess();
+          }
+          throw error;
+        }
+        thrown = error;
+        failure = error.message || String(error);
+      }
+
+      breaker.recordFailure(failure!);
+
+      if (breaker.state === 'open' || attempt >= RETRY_ATTEMPTS) {
+        throw this.unavailable(breaker, `${service} failed ${attempt} time(s): ${failure}`, thrown);
+      }
+
+      const delay = backoffDelay(attempt, thrown);
+      console.warn(`[Resilience] ${service} attempt ${attempt}/${RETRY_ATTEMPTS} failed (${failure!.split('\n')[0].slice(0, 200)}), retrying in ${delay}ms`);
+      await sleep(delay, signal);
+    }
+  }
+
+  /**
+   * Be told when a service's breaker opens, half-opens or closes
+   */
+  onStateChange(listener: (service: string, state: BreakerState) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Services whose breaker is not closed
+   */
+  unavailableServices(): string[] {
+    return Array.from(this.breakers.values()).filter(b => b.state !== 'closed').map(b => b.service);
+  }
+
+  /**
+   * Breaker state and counters of every service called so far
+   */
+  getHealth(): Record<string, ServiceHealth> {
+    const health: Record<string, ServiceHealth> = {};
+    this.breakers.forEach((breaker, service) => {
+      const retryAt = breaker.state === 'closed' ? undefined : breaker.retryAt;
+      health[service] = {
+        state: breaker.state,
+        consecutiveFailures: breaker.consecutiveFailures,
+        totalFailures: breaker.totalFailures,
+        totalCalls: breaker.totalCalls,
+        openedAt: breaker.openedAt ? new Date(breaker.openedAt).toISOString() : undefined,
+        retryAt: retryAt ? new Date(retryAt).toISOString() : undefined,
+        lastError: breaker.lastError,
+        ratePerMinute: this.rateLimits[service]
+      };
+    });
+    return health;
+  }
+
+  private breaker(service: string): CircuitBreaker {
+    let breaker = this.breakers.get(service);
+    if (!breaker) {
+      breaker = new CircuitBreaker(service, (name, state) => this.listeners.forEach(listener => listener(name, state)));
+      this.breakers.set(service, breaker);
+    }
+    return breaker;
+  }
+
+  private limiter(service: string): RateLimiter | undefined {
+    const rate = this.rateLimits[service];
+    if (!rate || rate <= 0) return undefined;
+
+    let limiter = this.limiters.get(service);
+    if (!limiter) {
+      limiter = new RateLimiter(rate);
+      this.limiters.set(service, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Build the outage error and tell the current run, which pauses itself
+   */
+  private unavailable(breaker: CircuitBreaker, message: string, cause?: unknown): ServiceUnavailableError {
+    // A half-open breaker's retry time has passed; wait for its trial call to settle
+    const retryAt = new Date(Math.max(breaker.retryAt ?? Date.now() + BREAKER_COOLDOWN_MS, Date.now() + BREAKER_COOLDOWN_MS / 4));
+    const error = new ServiceUnavailableError(breaker.service, message, retryAt, cause);
+    currentContext()?.onOutage?.(error);
+    return error;
+  }
+}
+
+function parseRateLimits(): Record<string, number> {
+  const limits: Record<string, number> = {};
+  for (const entry of (process.env.AGENT_RATE_LIMITS || '').split(',')) {
+    const [service, limit] = entry.split('=').map(s => s.trim());
+    if (service && limit && !isNaN(parseInt(limit, 10))) {
+      limits[service] = parseInt(limit, 10);
+    }
+  }
+  return limits;
+}
+
+/**
+ * Exponential backoff with full jitter; a Retry-After from the service wins
+ */
+function backoffDelay(attempt: number, error: any): number {
+  const retryAfterMs = error?.retryAfterMs ?? (error?.headers?.['retry-after'] ? parseFloat(error.headers['retry-after']) * 1000 : NaN);
+  if (!isNaN(retryAfterMs) && retryAfterMs > 0) {
+    return Math.min(RETRY_MAX_MS, retryAfterMs);
+  }
+  const ceiling = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Singleton shared by every caller, so one service has one breaker
+export const resilience = new Resilience();
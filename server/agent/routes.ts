@@ -2,11 +2,40 @@
  * API Routes for the Black Star Autonomous Agent
  */
 
-import { Router } from 'express';
+import { Router, Request } from 'express';
+import crypto from 'crypto';
 import { orchestrator } from './orchestrator';
 import { nanoid } from 'nanoid';
+import { agentEvents, AgentEventEnvelope } from './event-bus';
+import { summarizeUsage, resolveBudget } from './usage';
+import { ErrorHandler } from './error-handler';
+import { resilience } from './resilience';
+import { notifications } from './notifications';
+import { notificationTemplates, normalizeLocale } from './notifications/templates';
+import { sampleProjectState } from './notifications/sample';
+import { Notifier } from './notifier';
+import { renderConfirmationPage, renderRefusalPage, renderResultPage } from './approval-pages';
+import { renderCustomerRefusalPage, renderPreferencesPage } from './customer-pages';
+import { CUSTOMER_MILESTONES } from './customer-links';
+import { parsePricing } from './pricing';
 
 const router = Router();
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+const previewNotifier = new Notifier();
+
+/**
+ * Whether the request carries ORDER_API_SECRET as a bearer token. Orders that
+ * make the agent email someone must come from a trusted caller, and only
+ * trusted callers see the customer's contact details.
+ */
+function isTrustedCaller(req: Request): boolean {
+  const secret = process.env.ORDER_API_SECRET;
+  if (!secret) return false;
+
+  const expected = crypto.createHash('sha256').update(secret).digest();
+  const actual = crypto.createHash('sha256').update(req.get('authorization')?.replace(/^Bearer\s+/i, '') || '').digest();
+  return crypto.timingSafeEqual(expected, actual);
+}
 
 /**
  * POST /api/receive-order
@@ -14,7 +43,7 @@ const router = Router();
  */
 router.post('/receive-order', async (req, res) => {
   try {
-    const { project_name, requirements } = req.body;
+    const { project_name, requirements, priority, budget_usd, customer_email, customer_name, locale, pricing } = req.body;
 
     if (!project_name || !requirements) {
       return res.status(400).json({
@@ -22,13 +51,66 @@ router.post('/receive-order', async (req, res) => {
       });
     }
 
+    if (priority !== undefined && !Number.isInteger(priority)) {
+      return res.status(400).json({
+        error: 'priority must be an integer'
+      });
+    }
+
+    if (budget_usd !== undefined && (typeof budget_usd !== 'number' || !(budget_usd > 0))) {
+      return res.status(400).json({
+        error: 'budget_usd must be a positive number'
+      });
+    }
+
+    if (customer_email !== undefined && (typeof customer_email !== 'string' || !EMAIL_PATTERN.test(customer_email.trim()))) {
+      return res.status(400).json({
+        error: 'customer_email must be an email address'
+      });
+    }
+
+    if (customer_email !== undefined && !isTrustedCaller(req)) {
+      return res.status(process.env.ORDER_API_SECRET ? 401 : 403).json({
+        error: process.env.ORDER_API_SECRET
+          ? 'customer_email requires Authorization: Bearer <ORDER_API_SECRET>'
+          : 'customer_email is disabled: set ORDER_API_SECRET to accept orders that email customers'
+      });
+    }
+
+    if (customer_name !== undefined && (typeof customer_name !== 'string' || customer_name.length > 200)) {
+      return res.status(400).json({
+        error: 'customer_name must be a string of at most 200 characters'
+      });
+    }
+
+    if (locale !== undefined && (typeof locale !== 'string' || !normalizeLocale(locale))) {
+      return res.status(400).json({
+        error: 'locale must be a language tag such as "en" or "pt-BR"'
+      });
+    }
+
+    const parsedPricing = pricing !== undefined ? parsePricing(pricing) : {};
+    if (parsedPricing.error) {
+      return res.status(400).json({
+        error: parsedPricing.error
+      });
+    }
+
     // Generate unique order ID
     const orderId = nanoid();
 
     const projectState = await orchestrator.receiveOrder({
       orderId,
       project_name,
-      requirements
+      requirements,
+      priority,
+      budgetUsd: budget_usd,
+      customer: customer_email ? {
+        email: customer_email.trim(),
+        name: customer_name?.trim() || undefined,
+        locale: normalizeLocale(locale)
+      } : undefined,
+      pricing: parsedPricing.pricing
     });
 
     res.json({
@@ -39,7 +121,8 @@ router.post('/receive-order', async (req, res) => {
       project: {
         name: projectState.project_name,
         orderId: projectState.orderId,
-        status: projectState.status
+        status: projectState.status,
+        queuePosition: orchestrator.getQueuePosition(orderId)
       }
     });
   } catch (error: any) {
@@ -115,7 +198,7 @@ router.post('/deploy-reject', async (req, res) => {
     } else {
       res.status(400).json({
         success: false,
-        error: 'Failed to reject deployment'
+        error: result.error || 'Failed to reject deployment'
       });
     }
   } catch (error: any) {
@@ -127,6 +210,247 @@ router.post('/deploy-reject', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/approval/:token
+ * Confirmation page for a signed approve/reject link from the approval email
+ */
+router.get('/approval/:token', async (req, res) => {
+  try {
+    const check = await orchestrator.checkApprovalLink(req.params.token, requesterOf(req));
+    res.set('Cache-Control', 'no-store');
+
+    if (!check.valid) {
+      return res.status(refusalStatus(check.refusal)).type('html').send(renderRefusalPage(check));
+    }
+    res.type('html').send(renderConfirmationPage(check, req.params.token));
+  } catch (error: any) {
+    console.error('[API] Error checking approval link:', error);
+    res.status(500).type('html').send('Failed to check approval link');
+  }
+});
+
+/**
+ * POST /api/approval/:token
+ * Submit the confirmation form: spends the link, then approves or rejects
+ */
+router.post('/approval/:token', async (req, res) => {
+  try {
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : undefined;
+    const check = await orchestrator.redeemApprovalLink(req.params.token, requesterOf(req), reason);
+    res.set('Cache-Control', 'no-store');
+
+    if (check.valid) {
+      return res.type('html').send(renderResultPage(check));
+    }
+    if (check.refusal === 'missing_reason') {
+      // Still valid - show the form again
+      const retry = await orchestrator.checkApprovalLink(req.params.token, requesterOf(req));
+      if (retry.valid) {
+        return res.status(400).type('html').send(renderConfirmationPage(retry, req.params.token, check.message));
+      }
+    }
+    res.status(refusalStatus(check.refusal)).type('html').send(renderRefusalPage(check));
+  } catch (error: any) {
+    console.error('[API] Error redeeming approval link:', error);
+    res.status(500).type('html').send('Failed to process approval link');
+  }
+});
+
+/**
+ * GET /api/customer/preferences/:token
+ * Email-preferences page linked from every customer email
+ */
+router.get('/customer/preferences/:token', async (req, res) => {
+  try {
+    const check = await orchestrator.checkCustomerLink(req.params.token);
+    res.set('Cache-Control', 'no-store');
+
+    if (!check.valid) {
+      return res.status(404).type('html').send(renderCustomerRefusalPage(check));
+    }
+    res.type('html').send(renderPreferencesPage(check, req.params.token));
+  } catch (error: any) {
+    console.error('[API] Error checking customer link:', error);
+    res.status(500).type('html').send('Failed to load email preferences');
+  }
+});
+
+/**
+ * POST /api/customer/preferences/:token
+ * Save the preferences form. "unsubscribe=all" or a one-click unsubscribe
+ * from the mail client (List-Unsubscribe=One-Click) stops every email.
+ */
+router.post('/customer/preferences/:token', async (req, res) => {
+  try {
+    const body = req.body || {};
+    const unsubscribe = body['List-Unsubscribe'] === 'One-Click' || body.unsubscribe === 'all';
+    const selected = ([] as unknown[]).concat(body.milestones ?? []);
+    const subscribed = unsubscribe
+      ? []
+      : CUSTOMER_MILESTONES.filter(m => selected.includes(m));
+
+    const check = await orchestrator.updateCustomerPreferences(req.params.token, subscribed);
+    res.set('Cache-Control', 'no-store');
+
+    if (!check.valid) {
+      return res.status(404).type('html').send(renderCustomerRefusalPage(check));
+    }
+    res.type('html').send(renderPreferencesPage(
+      check,
+      req.params.token,
+      subscribed.length === 0 ? 'You have been unsubscribed. You will not get any more emails about this order.' : 'Your preferences have been saved.'
+    ));
+  } catch (error: any) {
+    console.error('[API] Error saving customer preferences:', error);
+    res.status(500).type('html').send('Failed to save email preferences');
+  }
+});
+
+function requesterOf(req: { ip?: string; get(name: string): string | undefined }) {
+  return { ip: req.ip, userAgent: req.get('user-agent') };
+}
+
+function refusalStatus(refusal: string): number {
+  if (refusal === 'malformed' || refusal === 'bad_signature') return 400;
+  if (refusal === 'unknown_order' || refusal === 'unknown_link') return 404;
+  if (refusal === 'missing_reason') return 400;
+  return 410; // Expired, used or superseded
+}
+
+/**
+ * POST /api/projects/:orderId/cancel
+ * Cancel a queued, running or paused project
+ */
+router.post('/projects/:orderId/cancel', async (req, res) => {
+  try {
+    const result = await orchestrator.cancelProject(req.params.orderId);
+
+    if (result.success) {
+      res.json({
+        success: true,
+        status: result.status
+      });
+    } else {
+      res.status(result.error === 'Project not found' ? 404 : 400).json({
+        success: false,
+        error: result.error
+      });
+    }
+  } catch (error: any) {
+    console.error('[API] Error during project cancellation:', error);
+    res.status(500).json({
+      error: 'Failed to cancel project',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:orderId/pause
+ * Pause a project at its current step
+ */
+router.post('/projects/:orderId/pause', async (req, res) => {
+  try {
+    const result = await orchestrator.pauseProject(req.params.orderId);
+
+    if (result.success) {
+      res.json({
+        success: true,
+        status: result.status
+      });
+    } else {
+      res.status(result.error === 'Project not found' ? 404 : 400).json({
+        success: false,
+        error: result.error
+      });
+    }
+  } catch (error: any) {
+    console.error('[API] Error during project pause:', error);
+    res.status(500).json({
+      error: 'Failed to pause project',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:orderId/resume
+ * Resume a paused project from the step it stopped on
+ */
+router.post('/projects/:orderId/resume', async (req, res) => {
+  try {
+    const result = await orchestrator.resumeProject(req.params.orderId);
+
+    if (result.success) {
+      res.json({
+        success: true,
+        status: result.status
+      });
+    } else {
+      res.status(result.error === 'Project not found' ? 404 : 400).json({
+        success: false,
+        error: result.error
+      });
+    }
+  } catch (error: any) {
+    console.error('[API] Error during project resume:', error);
+    res.status(500).json({
+      error: 'Failed to resume project',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/projects/:orderId/events
+ * Server-Sent Events stream of project progress.
+ * Reconnecting clients send Last-Event-ID (or ?lastEventId=) to replay missed events.
+ */
+router.get('/projects/:orderId/events', (req, res) => {
+  const { orderId } = req.params;
+
+  if (!orchestrator.getProjectStatus(orderId)) {
+    return res.status(404).json({
+      error: 'Project not found'
+    });
+  }
+
+  const lastEventId = agentEvents.sequenceOf(
+    String(req.header('Last-Event-ID') ?? req.query.lastEventId ?? '')
+  );
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  const send = (event: AgentEventEnvelope) => {
+    res.write(`id: ${event.eventId}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Subscribe before replaying so nothing emitted in between is lost
+  let replayedUpTo = lastEventId;
+  const unsubscribe = agentEvents.subscribe(orderId, (event) => {
+    if (event.id > replayedUpTo) send(event);
+  });
+
+  for (const event of agentEvents.replay(orderId, lastEventId)) {
+    send(event);
+    replayedUpTo = event.id;
+  }
+
+  // Keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
 /**
  * GET /api/project-status/:orderId
  * Get status of a specific project
@@ -149,14 +473,49 @@ router.get('/project-status/:orderId', (req, res) => {
         orderId: project.orderId,
         name: project.project_name,
         status: project.status,
+        queuePosition: orchestrator.getQueuePosition(orderId),
         currentStep: project.currentStep,
         totalSteps: project.plan.length,
+        planDegraded: project.planDegraded || false,
+        planIssues: project.planIssues,
+        failureReason: project.failureReason,
+        outage: project.outage,
+        failures: ErrorHandler.groupFailures(project.failures).map(group => ({
+          category: group.category,
+          count: group.failures.length,
+          remediation: group.remediation,
+          latest: group.failures[group.failures.length - 1].message
+        })),
+        revision: project.revision || 1,
+        // Anyone with the order id can read this - the customer's contact only goes to trusted callers
+        customer: project.customer && {
+          ...(isTrustedCaller(req) ? { email: project.customer.email, name: project.customer.name } : {}),
+          locale: project.customer.locale,
+          unsubscribed: Boolean(project.customer.unsubscribedAt),
+          mutedMilestones: project.customer.mutedMilestones || [],
+          notified: project.customer.notified || []
+        },
+        visualChanges: project.visualRevisions?.map(r => ({
+          revision: r.revision,
+          baselineRevision: r.baselineRevision,
+          approved: r.approved || false,
+          viewports: r.snapshots.map(s => ({ viewport: s.viewport, diffPercent: s.diffPercent }))
+        })),
+        usage: {
+          ...summarizeUsage(project.usage),
+          budgetUsd: resolveBudget(project.budgetUsd) ?? null
+        },
         plan: project.plan.map(step => ({
+          id: step.id,
           title: step.title,
           status: step.status,
-          retries: step.retries
+          retries: step.retries,
+          dependsOn: step.dependsOn,
+          skipReason: step.skipReason
         })),
-        stripePaymentLink: project.stripePaymentLink
+        stripePaymentLink: project.stripePaymentLink,
+        stripePaymentLinks: project.stripePaymentLinks,
+        pricing: project.resolvedPricing || project.pricing
       }
     });
   } catch (error: any) {
@@ -217,15 +576,106 @@ router.get('/statistics', (req, res) => {
   }
 });
 
+/**
+ * POST /api/notifications/retry
+ * Retry every delivery in the notification outbox now, including ones that ran out of attempts
+ */
+router.post('/notifications/retry', async (req, res) => {
+  try {
+    const retried = await notifications.retryAll();
+
+    res.json({
+      success: true,
+      retried,
+      ...notifications.getStatus()
+    });
+  } catch (error: any) {
+    console.error('[API] Error retrying notifications:', error);
+    res.status(500).json({
+      error: 'Failed to retry notifications',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/notifications/templates
+ * Names of the notification templates (built-in and NOTIFY_TEMPLATES_DIR)
+ */
+router.get('/notifications/templates', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      templates: await notificationTemplates.list(),
+      locales: notificationTemplates.localeChain()
+    });
+  } catch (error: any) {
+    console.error('[API] Error listing notification templates:', error);
+    res.status(500).json({
+      error: 'Failed to list notification templates',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/notifications/preview/:template?locale=de&format=html|text|json&orderId=...
+ * Render a template against a sample project (or an existing order) without sending it
+ */
+router.get('/notifications/preview/:template', async (req, res) => {
+  try {
+    const { locale, format = 'html', orderId } = req.query as Record<string, string | undefined>;
+
+    if (!['html', 'text', 'json'].includes(format)) {
+      return res.status(400).json({
+        error: 'format must be html, text or json'
+      });
+    }
+
+    if (!(await notificationTemplates.list()).includes(req.params.template)) {
+      return res.status(404).json({
+        error: `Unknown notification template: ${req.params.template}`
+      });
+    }
+
+    const projectState = orderId ? orchestrator.getProjectStatus(orderId) : sampleProjectState();
+    if (!projectState) {
+      return res.status(404).json({
+        error: 'Project not found'
+      });
+    }
+
+    const rendered = await previewNotifier.preview(req.params.template, projectState, locale);
+
+    if (format === 'json') {
+      return res.json({ success: true, ...rendered });
+    }
+    res.type(format === 'html' ? 'html' : 'text').send(format === 'html' ? rendered.html : `Subject: ${rendered.subject}\n\n${rendered.text}`);
+  } catch (error: any) {
+    // Usually a template syntax error - the message names the file
+    console.error('[API] Error previewing notification:', error);
+    res.status(500).json({
+      error: 'Failed to preview notification',
+      details: error.message
+    });
+  }
+});
+
 /**
  * GET /api/health
- * Health check endpoint
+ * Health check endpoint, with the circuit breaker state of every external service
+ * and the notification channels and outbox
  */
 router.get('/health', (req, res) => {
+  const unavailable = resilience.unavailableServices();
+
   res.json({
     success: true,
     service: 'Black Star Sweatshop',
-    status: 'operational',
+    status: unavailable.length ? 'degraded' : 'operational',
+    unavailable,
+    breakers: resilience.getHealth(),
+    notifications: notifications.getStatus(),
     timestamp: new Date().toISOString()
   });
 });
@@ -0,0 +1,114 @@
+/**
+ * RUN CONTROL
+ * Cancellation and pause signals for a running order.
+ * The active controller is carried through async calls so deep callers
+ * (model requests, child processes) can honor it without extra parameters.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Cassette } from './cassette';
+import type { UsageRecord } from './types';
+import type { ServiceUnavailableError } from './resilience';
+
+// 'failed' stops a run for good from the inside (e.g. budget exceeded)
+export type InterruptReason = 'cancelled' | 'paused' | 'failed';
+
+/**
+ * Thrown when an order is cancelled, paused or failed mid-run
+ */
+export class RunInterruptedError extends Error {
+  constructor(readonly reason: InterruptReason, readonly detail?: string) {
+    super(detail ? `Run ${reason}: ${detail}` : `Run ${reason}`);
+    this.name = 'RunInterruptedError';
+  }
+}
+
+export class RunController {
+  private abortController = new AbortController();
+  private interruptReason?: InterruptReason;
+  private interruptDetail?: string;
+
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get reason(): InterruptReason | undefined {
+    return this.interruptReason;
+  }
+
+  cancel(): void {
+    this.interrupt('cancelled');
+  }
+
+  pause(): void {
+    this.interrupt('paused');
+  }
+
+  /**
+   * Stop the run as failed, with a reason for the project state
+   */
+  fail(detail: string): void {
+    this.interrupt('failed', detail);
+  }
+
+  /**
+   * Throw if the run has been cancelled or paused
+   */
+  throwIfStopped(): void {
+    if (this.interruptReason) {
+      throw new RunInterruptedError(this.interruptReason, this.interruptDetail);
+    }
+  }
+
+  private interrupt(reason: InterruptReason, detail?: string): void {
+    // First request wins - a cancel after a pause must not turn into a pause
+    if (this.interruptReason) return;
+    this.interruptReason = reason;
+    this.interruptDetail = detail;
+    this.abortController.abort(new RunInterruptedError(reason, detail));
+  }
+}
+
+export interface RunContext {
+  orderId: string;
+  controller: RunController;
+  cassette?: Cassette; // Set when the run is being recorded or replayed
+  stepId?: string; // Plan step being executed, for attributing usage
+  onUsage?: (record: UsageRecord) => void;
+  onOutage?: (error: ServiceUnavailableError) => void; // A service this run depends on is down
+}
+
+const runContext = new AsyncLocalStorage<RunContext>();
+
+/**
+ * Run fn with the given context visible to everything it awaits
+ */
+export function runWithContext<T>(context: RunContext, fn: () => Promise<T>): Promise<T> {
+  return runContext.run(context, fn);
+}
+
+export function currentContext(): RunContext | undefined {
+  return runContext.getStore();
+}
+
+/**
+ * Run fn as part of a plan step (inherits the rest of the current context)
+ */
+export function runInStep<T>(stepId: string, fn: () => Promise<T>): Promise<T> {
+  const context = runContext.getStore();
+  return context ? runContext.run({ ...context, stepId }, fn) : fn();
+}
+
+/**
+ * AbortSignal of the current run, for fetch/spawn/model calls
+ */
+export function currentSignal(): AbortSignal | undefined {
+  return runContext.getStore()?.controller.signal;
+}
+
+/**
+ * Cooperative cancellation point - throws RunInterruptedError if the run was stopped
+ */
+export function checkpoint(): void {
+  runContext.getStore()?.controller.throwIfStopped();
+}
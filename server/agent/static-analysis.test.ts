@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { StaticAnalyzer } from './static-analysis';
+import { StaticFinding } from './types';
+
+interface Internals {
+  scan(workspaceDir: string, files: string[]): Promise<StaticFinding[]>;
+}
+
+test('placeholder keys in example files are reported without blocking', async () => {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), 'static-analysis-test-'));
+  await fs.writeFile(path.join(workspaceDir, '.env.example'), 'STRIPE_SECRET_KEY=sk_test_xxxxxxxxxxxxxxxxxxxxxxxx\n', 'utf-8');
+  await fs.writeFile(path.join(workspaceDir, 'config.js'), "const stripe = require('stripe')('sk_test_4eC39HqLyjWDarjtT1zdp7dc');\n", 'utf-8');
+
+  const findings = await (new StaticAnalyzer() as unknown as Internals).scan(workspaceDir, ['.env.example', 'config.js']);
+
+  assert.deepEqual(
+    findings.map(({ file, rule, severity }) => ({ file, rule, severity })),
+    [
+      { file: '.env.example', rule: 'stripe-secret-key', severity: 'low' },
+      { file: 'config.js', rule: 'stripe-secret-key', severity: 'high' }
+    ]
+  );
+});
@@ -0,0 +1,248 @@
+/**
+ * THE STATIC ANALYZER
+ * Deterministic checks over workspace sources: ESLint with a bundled
+ * ruleset, a scan for hard-coded secrets and a scan for dangerous patterns
+ * (eval, unescaped HTML injection, SQL and shell string building).
+ * Every finding carries a severity and file/line; only high severity blocks.
+ */
+
+import { ESLint, Linter } from 'eslint';
+import tseslint from 'typescript-eslint';
+import fs from 'fs/promises';
+import path from 'path';
+import { FindingSeverity, StaticFinding, ValidationResult } from './types';
+import { listWorkspaceFiles } from './workspace';
+
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_REPORTED_FINDINGS = 30;
+
+const LINTED_FILES = /\.([cm]?jsx?|[cm]?tsx?)$/;
+const CODE_FILES = /\.([cm]?jsx?|[cm]?tsx?|html?|vue|svelte)$/;
+const TEXT_FILES = /\.([cm]?jsx?|[cm]?tsx?|html?|vue|svelte|json|ya?ml|toml|env|ini|conf|xml|md|txt|py|rb|php|go|java|kt|swift|dart|gradle|properties|plist|sh)$/;
+
+// Dotfiles (.env, .env.local, .npmrc) are only scanned for secrets
+const DOTFILES = /(^|\/)\.[^/]+$/;
+const HIDDEN_PATHS = /(^|\/)\./;
+
+// Build output and generated code are not the agent's to fix (secrets are still scanned there)
+const GENERATED_DIRS = /^(dist|build|out|coverage|\.next)\//;
+
+// Bundled ESLint rules and the severity each one is reported with
+const LINT_RULES: Record<string, FindingSeverity> = {
+  'no-eval': 'high',
+  'no-implied-eval': 'high',
+  'no-new-func': 'high',
+  'no-script-url': 'high',
+  'no-dupe-keys': 'medium',
+  'no-dupe-else-if': 'medium',
+  'no-duplicate-case': 'medium',
+  'no-unreachable': 'medium',
+  'no-unsafe-finally': 'medium',
+  'no-unsafe-negation': 'medium',
+  'no-unsafe-optional-chaining': 'medium',
+  'no-self-assign': 'medium',
+  'no-func-assign': 'medium',
+  'no-import-assign': 'medium',
+  'no-cond-assign': 'medium',
+  'no-debugger': 'low',
+  'no-empty': 'low',
+  'no-constant-condition': 'low'
+};
+
+const LINT_CONFIG: Linter.Config[] = [
+  {
+    files: ['**/*.js', '**/*.mjs', '**/*.cjs', '**/*.jsx'],
+    languageOptions: {
+      ecmaVersion: 'latest',
+      sourceType: 'module',
+      parserOptions: { ecmaFeatures: { jsx: true } }
+    },
+    rules: Object.fromEntries(Object.keys(LINT_RULES).map(rule => [rule, 'error']))
+  },
+  {
+    files: ['**/*.ts', '**/*.mts', '**/*.cts', '**/*.tsx'],
+    languageOptions: {
+      parser: tseslint.parser as Linter.Parser,
+      parserOptions: { ecmaFeatures: { jsx: true } }
+    },
+    rules: Object.fromEntries(Object.keys(LINT_RULES).map(rule => [rule, 'error']))
+  }
+];
+
+interface LinePattern {
+  rule: string;
+  severity: FindingSeverity;
+  message: string;
+  pattern: RegExp;
+  files?: RegExp; // Defaults to every scanned file
+}
+
+const SECRET_PATTERNS: LinePattern[] = [
+  { rule: 'stripe-secret-key', severity: 'high', message: 'Hard-coded Stripe secret key', pattern: /\b[sr]k_(live|test)_[0-9a-zA-Z]{16,}/ },
+  { rule: 'stripe-webhook-secret', severity: 'high', message: 'Hard-coded Stripe webhook secret', pattern: /\bwhsec_[0-9a-zA-Z]{16,}/ },
+  { rule: 'firebase-api-key', severity: 'high', message: 'Hard-coded Firebase/Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { rule: 'aws-access-key', severity: 'high', message: 'Hard-coded AWS access key', pattern: /\b(AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { rule: 'private-key', severity: 'high', message: 'Private key in source', pattern: /-----BEGIN ([A-Z]+ )?PRIVATE KEY-----/ },
+  {
+    rule: 'hardcoded-credential',
+    severity: 'medium',
+    message: 'Credential assigned from a string literal; read it from the environment instead',
+    pattern: /\b(api[_-]?key|secret|password|passwd|auth[_-]?token|access[_-]?token)['"]?\s*[:=]\s*['"](?!your[_-]|xxx|changeme|example|placeholder)[^'"\s]{12,}['"]/i
+  }
+];
+
+// Dummy values in .env.example files and docs (sk_test_xxxxxxxx, AKIA0000000000000000):
+// still reported, but as low severity so they never block
+const PLACEHOLDER_SECRET = /(.)\1{5,}|your|example|placeholder|dummy|redacted/i;
+
+const DANGEROUS_PATTERNS: LinePattern[] = [
+  {
+    rule: 'unsafe-inner-html',
+    severity: 'high',
+    message: 'innerHTML/outerHTML built from dynamic data (XSS); use textContent or escape the value',
+    pattern: /\.(inner|outer)HTML\s*\+?=\s*(?!\s*(['"])[^'"]*\2\s*;?\s*$)(?!\s*`[^`$]*`\s*;?\s*$)/
+  },
+  {
+    rule: 'unsafe-html-insertion',
+    severity: 'medium',
+    message: 'HTML inserted from dynamic data; make sure the value is escaped',
+    pattern: /(insertAdjacentHTML\s*\(\s*['"][^'"]*['"]\s*,\s*(?!['"][^'"$]*['"]\s*\))|document\.write(ln)?\s*\(\s*(?!['"][^'"]*['"]\s*\))|dangerouslySetInnerHTML)/
+  },
+  {
+    rule: 'sql-string-concatenation',
+    severity: 'high',
+    message: 'SQL built by string concatenation (SQL injection); use parameterized queries',
+    pattern: /((['"])\s*(SELECT|INSERT\s+INTO|UPDATE|DELETE\s+FROM)\b[^'"]*\2\s*\+|`\s*(SELECT|INSERT\s+INTO|UPDATE|DELETE\s+FROM)\b[^`]*\$\{)/i
+  },
+  {
+    rule: 'shell-command-concatenation',
+    severity: 'high',
+    message: 'Shell command built from dynamic data (command injection); use execFile/spawn with an argument list',
+    pattern: /\bexec(Sync)?\s*\(\s*(`[^`]*\$\{|(['"])[^'"]*\3\s*\+)/
+  },
+  {
+    rule: 'eval',
+    severity: 'high',
+    message: 'eval() executes arbitrary code',
+    pattern: /\beval\s*\(/,
+    files: /\.(html?|vue|svelte)$/ // ESLint covers scripts
+  }
+];
+
+export class StaticAnalyzer {
+  /**
+   * Analyze the workspace. Passes unless a high severity finding is present.
+   */
+  async analyze(workspaceDir: string): Promise<ValidationResult> {
+    try {
+      const files = await listWorkspaceFiles(workspaceDir, 500, true);
+      const findings = [
+        ...(await this.lint(workspaceDir, files)),
+        ...(await this.scan(workspaceDir, files))
+      ].sort((a, b) => severityRank(a.severity) - severityRank(b.severity) || a.file.localeCompare(b.file) || a.line - b.line);
+
+      const counts = { high: 0, medium: 0, low: 0 };
+      findings.forEach(finding => counts[finding.severity]++);
+
+      const details = { counts, findings: findings.slice(0, MAX_REPORTED_FINDINGS) };
+
+      if (counts.high === 0) {
+        return { passed: true, details };
+      }
+
+      const blocking = findings.filter(finding => finding.severity === 'high').slice(0, MAX_REPORTED_FINDINGS);
+      return {
+        passed: false,
+        error: [
+          `${counts.high} high severity finding(s)`,
+          ...blocking.map(finding => `  ${finding.file}:${finding.line} [${finding.rule}] ${finding.message}`)
+        ].join('\n'),
+        details
+      };
+    } catch (error: any) {
+      return {
+        passed: false,
+        error: `Static analysis error: ${error.message}`,
+        details: { error: error.message }
+      };
+    }
+  }
+
+  private async lint(workspaceDir: string, files: string[]): Promise<StaticFinding[]> {
+    const targets = files.filter(file => LINTED_FILES.test(file) && !GENERATED_DIRS.test(file) && !HIDDEN_PATHS.test(file) && !file.endsWith('.d.ts'));
+    if (targets.length === 0) return [];
+
+    // The bundled config replaces any eslint.config.* the workspace brings
+    const eslint = new ESLint({
+      cwd: workspaceDir,
+      overrideConfigFile: true,
+      overrideConfig: LINT_CONFIG,
+      errorOnUnmatchedPattern: false
+    });
+
+    const results = await eslint.lintFiles(targets);
+    const findings: StaticFinding[] = [];
+
+    for (const result of results) {
+      const file = path.relative(workspaceDir, result.filePath).split(path.sep).join('/');
+      for (const message of result.messages) {
+        findings.push({
+          source: 'eslint',
+          rule: message.fatal ? 'parse-error' : message.ruleId || 'eslint',
+          // Unparseable scripts would fail at runtime
+          severity: message.fatal ? 'high' : LINT_RULES[message.ruleId || ''] || 'low',
+          message: message.message,
+          file,
+          line: message.line || 1,
+          column: message.column
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  private async scan(workspaceDir: string, files: string[]): Promise<StaticFinding[]> {
+    const findings: StaticFinding[] = [];
+
+    for (const file of files.filter(file => TEXT_FILES.test(file) || DOTFILES.test(file))) {
+      const fullPath = path.join(workspaceDir, file);
+      const stat = await fs.stat(fullPath).catch(() => null);
+      if (!stat || stat.size > MAX_FILE_BYTES) continue;
+
+      const lines = (await fs.readFile(fullPath, 'utf-8')).split(/\r?\n/);
+      const checkCode = CODE_FILES.test(file) && !GENERATED_DIRS.test(file) && !HIDDEN_PATHS.test(file);
+
+      lines.forEach((line, index) => {
+        for (const secret of SECRET_PATTERNS) {
+          const match = line.match(secret.pattern);
+          if (match) {
+            const placeholder = PLACEHOLDER_SECRET.test(match[0]);
+            findings.push({
+              source: 'secrets',
+              rule: secret.rule,
+              severity: placeholder ? 'low' : secret.severity,
+              message: placeholder ? `${secret.message} (looks like a placeholder)` : secret.message,
+              file,
+              line: index + 1
+            });
+          }
+        }
+
+        if (!checkCode || /^\s*(\/\/|\*|\/\*)/.test(line)) return;
+
+        for (const danger of DANGEROUS_PATTERNS) {
+          if ((!danger.files || danger.files.test(file)) && danger.pattern.test(line)) {
+            findings.push({ source: 'patterns', rule: danger.rule, severity: danger.severity, message: danger.message, file, line: index + 1 });
+          }
+        }
+      });
+    }
+
+    return findings;
+  }
+}
+
+function severityRank(severity: FindingSeverity): number {
+  return ['high', 'medium', 'low'].indexOf(severity);
+}
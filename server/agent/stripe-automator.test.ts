@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StripeAutomator } from './stripe-automator';
+import { PaymentLinkRecord } from './types';
+
+process.env.STRIPE_TEST_KEY = process.env.STRIPE_TEST_KEY || 'sk_test_unit';
+
+const TIERS: PaymentLinkRecord[] = [
+  { tier: 'Basic', url: 'https://buy.stripe.com/basic', priceIds: ['price_basic'] },
+  { tier: 'Pro', url: 'https://buy.stripe.com/pro', priceIds: ['price_pro'] }
+];
+
+test('links one existing payment button per tier, in order', () => {
+  const html = '<button class="payment">Basic</button><button class="payment">Pro</button>';
+  const injected = new StripeAutomator().injectPaymentLink(html, TIERS);
+
+  assert.equal(
+    injected,
+    '<a href="https://buy.stripe.com/basic" class="payment"><button class="payment">Basic</button>' +
+    '<a href="https://buy.stripe.com/pro" class="payment"><button class="payment">Pro</button>'
+  );
+});
+
+test('appends a button per tier when the page has fewer payment buttons than tiers', () => {
+  const html = '<body><button class="payment">Buy</button></body>';
+  const injected = new StripeAutomator().injectPaymentLink(html, TIERS);
+
+  assert.ok(!injected.includes('<a href="https://buy.stripe.com/basic" class="payment">'));
+  assert.match(injected, /<a href="https:\/\/buy\.stripe\.com\/basic"[^>]*>\s*Buy Basic/);
+  assert.match(injected, /<a href="https:\/\/buy\.stripe\.com\/pro"[^>]*>\s*Buy Pro/);
+});
+
+test('links only the first payment button to a single payment link', () => {
+  const html = '<button class="payment">Buy</button><button class="payment secondary">Buy</button>';
+  const injected = new StripeAutomator().injectPaymentLink(html, 'https://buy.stripe.com/one');
+
+  assert.equal(
+    injected,
+    '<a href="https://buy.stripe.com/one" class="payment"><button class="payment">Buy</button>' +
+    '<button class="payment secondary">Buy</button>'
+  );
+});
@@ -1,10 +1,26 @@
 /**
  * THE STRIPE AUTOMATOR
- * Automatically creates products, prices, and payment links
+ * Automatically creates products, prices, and payment links.
+ * What to charge comes from the project's pricing plan (see pricing.ts):
+ * one payment link per tier, one line item per price.
  */
 
 import Stripe from 'stripe';
-import { ProjectState } from './types';
+import crypto from 'crypto';
+import { PaymentLinkRecord, PriceInterval, PricingPlan, ProjectState } from './types';
+import { resolvePricing, toMinorUnits } from './pricing';
+import { escapeHtml } from './approval-pages';
+import { agentEvents } from './event-bus';
+import { intercept } from './cassette';
+import { AgentError, ConfigurationError, toAgentError } from './errors';
+import { resilience } from './resilience';
+
+export interface PriceOptions {
+  interval?: PriceInterval; // Recurring when set
+  intervalCount?: number;
+  taxBehavior?: PricingPlan['taxBehavior'];
+  nickname?: string;
+}
 
 export class StripeAutomator {
   private stripe: Stripe;
@@ -17,7 +33,7 @@ export class StripeAutomator {
       : process.env.STRIPE_LIVE_KEY;
     
     if (!apiKey) {
-      throw new Error('Stripe API key not configured');
+      throw new ConfigurationError(`Stripe API key not configured (${isTestMode ? 'STRIPE_TEST_KEY' : 'STRIPE_LIVE_KEY'})`);
     }
 
     this.stripe = new Stripe(apiKey, {
@@ -26,60 +42,66 @@ export class StripeAutomator {
   }
 
   /**
-   * Create a Stripe product for the project
+   * Create a Stripe product for the project, or for one named item of it (e.g. "Setup fee")
    */
-  async createProduct(projectState: ProjectState): Promise<string> {
+  async createProduct(projectState: ProjectState, itemName?: string): Promise<string> {
     try {
-      const product = await this.stripe.products.create({
-        name: projectState.project_name,
+      const params: Stripe.ProductCreateParams = {
+        name: itemName ? `${projectState.project_name} - ${itemName}` : projectState.project_name,
         description: projectState.requirements.substring(0, 200),
         metadata: {
           orderId: projectState.orderId,
           generatedBy: 'BlackStarSweatshop'
         }
-      });
+      };
+      const product = await intercept('stripe', 'products.create', params, () => this.guarded(options => this.stripe.products.create(params, options)));
 
       return product.id;
     } catch (error: any) {
-      throw new Error(`Failed to create Stripe product: ${error.message}`);
+      throw this.failure('create Stripe product', error);
     }
   }
 
   /**
-   * Create a price for the product
+   * Create a price for the product. amount is in major units (19.99 USD, 1500 JPY).
    */
-  async createPrice(productId: string, amount: number, currency: string = 'usd'): Promise<string> {
+  async createPrice(productId: string, amount: number, currency: string = 'usd', options: PriceOptions = {}): Promise<string> {
     try {
-      const price = await this.stripe.prices.create({
+      const params: Stripe.PriceCreateParams = {
         product: productId,
-        unit_amount: amount * 100, // Convert to cents
+        unit_amount: toMinorUnits(amount, currency),
         currency: currency.toLowerCase(),
+        ...(options.interval ? { recurring: { interval: options.interval, interval_count: options.intervalCount || 1 } } : {}),
+        ...(options.taxBehavior ? { tax_behavior: options.taxBehavior } : {}),
+        ...(options.nickname ? { nickname: options.nickname } : {}),
         metadata: {
           generatedBy: 'BlackStarSweatshop'
         }
-      });
+      };
+      const price = await intercept('stripe', 'prices.create', params, () => this.guarded(options => this.stripe.prices.create(params, options)));
 
       return price.id;
     } catch (error: any) {
-      throw new Error(`Failed to create Stripe price: ${error.message}`);
+      throw this.failure('create Stripe price', error);
     }
   }
 
   /**
-   * Create a payment link
+   * Create a payment link for one price, or for several line items
    */
-  async createPaymentLink(priceId: string, projectState: ProjectState): Promise<string> {
+  async createPaymentLink(
+    priceId: string | Stripe.PaymentLinkCreateParams.LineItem[],
+    projectState: ProjectState,
+    options: { tier?: string; automaticTax?: boolean } = {}
+  ): Promise<string> {
     try {
-      const paymentLink = await this.stripe.paymentLinks.create({
-        line_items: [
-          {
-            price: priceId,
-            quantity: 1
-          }
-        ],
+      const params: Stripe.PaymentLinkCreateParams = {
+        line_items: typeof priceId === 'string' ? [{ price: priceId, quantity: 1 }] : priceId,
+        ...(options.automaticTax ? { automatic_tax: { enabled: true } } : {}),
         metadata: {
           orderId: projectState.orderId,
-          projectName: projectState.project_name
+          projectName: projectState.project_name,
+          ...(options.tier ? { tier: options.tier } : {})
         },
         after_completion: {
           type: 'hosted_confirmation',
@@ -87,34 +109,80 @@ export class StripeAutomator {
             custom_message: `Thank you for your purchase of ${projectState.project_name}!`
           }
         }
-      });
+      };
+      const paymentLink = await intercept('stripe', 'paymentLinks.create', params, () => this.guarded(options => this.stripe.paymentLinks.create(params, options)));
 
       return paymentLink.url;
     } catch (error: any) {
-      throw new Error(`Failed to create payment link: ${error.message}`);
+      throw this.failure('create payment link', error);
     }
   }
 
   /**
-   * Full automation: Create product, price, and payment link
+   * Full automation: Create products, prices, and a payment link per pricing tier.
+   * productId, priceId and paymentLink are the project product and the first tier's.
    */
   async automatePaymentSetup(
-    projectState: ProjectState, 
-    amount: number = 99,
-    currency: string = 'usd'
-  ): Promise<{ productId: string; priceId: string; paymentLink: string }> {
+    projectState: ProjectState,
+    pricing: PricingPlan = resolvePricing(projectState)
+  ): Promise<{ productId: string; priceId: string; paymentLink: string; paymentLinks: PaymentLinkRecord[] }> {
     console.log(`[Stripe] Creating payment setup for ${projectState.project_name} (${this.isTestMode ? 'TEST' : 'LIVE'} mode)`);
     
     const productId = await this.createProduct(projectState);
     console.log(`[Stripe] Product created: ${productId}`);
-    
-    const priceId = await this.createPrice(productId, amount, currency);
-    console.log(`[Stripe] Price created: ${priceId}`);
-    
-    const paymentLink = await this.createPaymentLink(priceId, projectState);
-    console.log(`[Stripe] Payment link created: ${paymentLink}`);
+    this.emitAction('product_created', productId);
+
+    // Named items get their own product, shared by every tier that uses the name
+    const itemProducts = new Map<string, string>();
+    const paymentLinks: PaymentLinkRecord[] = [];
+
+    for (const tier of pricing.tiers) {
+      const lineItems: Stripe.PaymentLinkCreateParams.LineItem[] = [];
+      const priceIds: string[] = [];
+
+      for (const item of tier.items) {
+        let itemProductId = productId;
+        if (item.name) {
+          if (!itemProducts.has(item.name)) {
+            const id = await this.createProduct(projectState, item.name);
+            console.log(`[Stripe] Product created for ${item.name}: ${id}`);
+            this.emitAction('product_created', id);
+            itemProducts.set(item.name, id);
+          }
+          itemProductId = itemProducts.get(item.name)!;
+        }
+
+        const priceId = await this.createPrice(itemProductId, item.amount, pricing.currency, {
+          interval: item.interval,
+          intervalCount: item.intervalCount,
+          taxBehavior: pricing.taxBehavior,
+          nickname: item.name ? `${tier.name} - ${item.name}` : tier.name
+        });
+        console.log(`[Stripe] Price created: ${priceId}`);
+        this.emitAction('price_created', priceId);
+        lineItems.push({ price: priceId, quantity: item.quantity || 1 });
+        priceIds.push(priceId);
+      }
+
+      const paymentLink = await this.createPaymentLink(lineItems, projectState, { tier: tier.name, automaticTax: pricing.automaticTax });
+      console.log(`[Stripe] Payment link created for ${tier.name}: ${paymentLink}`);
+      this.emitAction('payment_link_created', paymentLink);
+      paymentLinks.push({ tier: tier.name, url: paymentLink, priceIds });
+    }
+
+    return { productId, priceId: paymentLinks[0].priceIds[0], paymentLink: paymentLinks[0].url, paymentLinks };
+  }
 
-    return { productId, priceId, paymentLink };
+  /**
+   * Publish a Stripe action to the order's event stream
+   */
+  private emitAction(action: string, resourceId: string): void {
+    agentEvents.emitCurrent({
+      type: 'stripe',
+      action,
+      mode: this.isTestMode ? 'test' : 'live',
+      resourceId
+    });
   }
 
   /**
@@ -125,24 +193,31 @@ export class StripeAutomator {
   }
 
   /**
-   * Inject payment link into HTML code
+   * Inject payment link into HTML code. With several tiers, the placeholder
+   * and the appended block get a button per tier; existing payment buttons
+   * are only linked when there is one for each tier, in tier order.
    */
-  injectPaymentLink(htmlCode: string, paymentLink: string): string {
+  injectPaymentLink(htmlCode: string, links: string | PaymentLinkRecord[]): string {
+    const tiers = typeof links === 'string' ? [{ tier: '', url: links }] : links;
+    const label = (tier: string) => tiers.length > 1 ? `Buy ${escapeHtml(tier)}` : 'Buy Now';
+
     // Look for common payment button patterns and inject the link
     
     // Pattern 1: Placeholder comment
     if (htmlCode.includes('<!-- PAYMENT_LINK -->')) {
       return htmlCode.replace(
         '<!-- PAYMENT_LINK -->',
-        `<a href="${paymentLink}" class="payment-button">Buy Now</a>`
+        tiers.map(t => `<a href="${t.url}" class="payment-button">${label(t.tier)}</a>`).join('\n')
       );
     }
 
     // Pattern 2: Existing button without href
-    if (htmlCode.includes('<button') && htmlCode.includes('payment')) {
-      return htmlCode.replace(
-        /<button([^>]*class="[^"]*payment[^"]*"[^>]*)>/i,
-        `<a href="${paymentLink}"$1><button$1>`
+    const paymentButton = /<button([^>]*class="[^"]*payment[^"]*"[^>]*)>/gi;
+    const buttons = htmlCode.match(paymentButton)?.length || 0;
+    if (buttons > 0 && (tiers.length === 1 || buttons === tiers.length)) {
+      let index = 0;
+      return htmlCode.replace(paymentButton, (button, attributes) =>
+        tiers.length === 1 && index > 0 ? button : `<a href="${tiers[index++].url}"${attributes}><button${attributes}>`
       );
     }
 
@@ -151,16 +226,34 @@ export class StripeAutomator {
       return htmlCode.replace(
         '</body>',
         `  <div style="text-align: center; margin: 40px;">
-    <a href="${paymentLink}" style="display: inline-block; padding: 15px 30px; background: #635bff; color: white; text-decoration: none; border-radius: 5px; font-weight: bold;">
-      Buy Now
-    </a>
+${tiers.map(t => `    <a href="${t.url}" style="display: inline-block; margin: 0 8px; padding: 15px 30px; background: #635bff; color: white; text-decoration: none; border-radius: 5px; font-weight: bold;">
+      ${label(t.tier)}
+    </a>`).join('\n')}
   </div>
 </body>`
       );
     }
 
     // Pattern 4: Just append if no body tag
-    return htmlCode + `\n\n<!-- Stripe Payment Link: ${paymentLink} -->`;
+    return htmlCode + tiers.map(t => `\n\n<!-- Stripe Payment Link${tiers.length > 1 ? ` (${t.tier.replace(/--/g, '-')})` : ''}: ${t.url} -->`).join('');
+  }
+
+  /**
+   * Run a Stripe request through the shared resilience layer. Retries reuse
+   * one idempotency key, so a create that timed out is never applied twice.
+   */
+  private guarded<T>(request: (options: Stripe.RequestOptions) => Promise<T>): Promise<T> {
+    const options: Stripe.RequestOptions = { idempotencyKey: crypto.randomUUID() };
+    return resilience.call('stripe', () => request(options));
+  }
+
+  /**
+   * Classify a Stripe error, keeping which call failed in the message
+   */
+  private failure(action: string, error: unknown): AgentError {
+    const classified = toAgentError(error, 'payment');
+    classified.message = `Failed to ${action}: ${classified.message}`;
+    return classified;
   }
 
   /**
@@ -169,7 +262,7 @@ export class StripeAutomator {
   async verifyConfiguration(): Promise<boolean> {
     try {
       // Test the API key by fetching account info
-      const account = await this.stripe.accounts.retrieve();
+      const account = await intercept('stripe', 'accounts.retrieve', {}, () => resilience.call('stripe', () => this.stripe.accounts.retrieve()));
       console.log(`[Stripe] Connected to account: ${account.id}`);
       return true;
     } catch (error: any) {
@@ -0,0 +1,331 @@
+/**
+ * THE TEST RUNNER
+ * Finds the generated tests in a workspace, scaffolds a runner when the
+ * project has none, runs them in a restricted child process with a timeout
+ * and parses the results into per-test failures.
+ */
+
+import { ChildProcessWithoutNullStreams } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import { TestFailure, TestReport, ValidationResult } from './types';
+import { sandboxEnv, spawnProcess } from './process';
+import { currentSignal } from './run-control';
+import { applyManifest, listWorkspaceFiles } from './workspace';
+import { DevServer, DevServerError, PackageJson, readPackageJson } from './dev-server';
+import { intercept } from './cassette';
+
+const TEST_TIMEOUT_MS = parseInt(process.env.AGENT_TEST_TIMEOUT_MS || '120000', 10) || 120000;
+const MAX_OUTPUT_CHARS = 20000;
+const MAX_REPORTED_FAILURES = 20;
+
+// Written by the JSON reporters, removed after parsing (dot files are never deployed)
+const RESULTS_FILE = '.agent-test-results.json';
+
+// Version added when a workspace needs a runner scaffolded
+const VITEST_VERSION = '^2.1.0';
+
+const TEST_FILE_PATTERN = /(^|\/)(__tests__\/.*\.[cm]?[jt]sx?|.*\.(test|spec)\.[cm]?[jt]sx?)$/;
+
+// npm init's placeholder script
+const PLACEHOLDER_TEST_SCRIPT = /no test specified/;
+
+type Framework = 'vitest' | 'jest' | 'node' | 'script';
+
+interface TestSetup {
+  framework: Framework;
+  files: string[];
+  scaffolded: boolean;
+  globals: boolean; // Vitest scaffolded for tests written against jest-style globals
+}
+
+export class TestRunner {
+  /**
+   * Run the workspace tests. Skipped (passed) when the workspace has no tests.
+   */
+  async run(workspaceDir: string): Promise<ValidationResult> {
+    return intercept('tests', 'test run', { workspaceDir }, () => this.runLive(workspaceDir));
+  }
+
+  private async runLive(workspaceDir: string): Promise<ValidationResult> {
+    let setup: TestSetup | null;
+    try {
+      setup = await this.prepare(workspaceDir);
+    } catch (error: any) {
+      currentSignal()?.throwIfAborted();
+      return {
+        passed: false,
+        error: `Test setup failed: ${error.message}`,
+        details: { output: error instanceof DevServerError ? error.output : undefined }
+      };
+    }
+
+    if (!setup) {
+      return { passed: true, skipped: true, details: { reason: 'No tests in the workspace' } };
+    }
+
+    console.log(`[TestRunner] Running ${setup.files.length} test file(s) with ${setup.framework}${setup.scaffolded ? ' (scaffolded)' : ''}`);
+
+    const report = await this.execute(workspaceDir, setup);
+
+    if (report.failed === 0 && !report.timedOut && report.total > 0) {
+      return { passed: true, details: report };
+    }
+
+    const reason = report.timedOut
+      ? `Tests timed out after ${TEST_TIMEOUT_MS / 1000}s`
+      : report.total === 0
+        ? 'Test run failed before any test ran'
+        : `${report.failed} of ${report.total} tests failed`;
+
+    return {
+      passed: false,
+      error: [reason, ...report.failures.map(f => `  ✗ ${f.name}: ${f.message}`)].join('\n'),
+      details: report
+    };
+  }
+
+  /**
+   * Detect the test setup, scaffolding vitest when tests exist but nothing runs them
+   */
+  private async prepare(workspaceDir: string): Promise<TestSetup | null> {
+    const files = (await listWorkspaceFiles(workspaceDir)).filter(file => TEST_FILE_PATTERN.test(file));
+    const pkg = await readPackageJson(workspaceDir);
+    const deps = { ...pkg?.dependencies, ...pkg?.devDependencies };
+    const script: string | undefined = pkg?.scripts?.test;
+    const hasScript = !!script && !PLACEHOLDER_TEST_SCRIPT.test(script);
+
+    if (files.length === 0 && !hasScript) {
+      return null;
+    }
+
+    let framework: Framework;
+    let scaffolded = false;
+    let globals = false;
+
+    if (deps.vitest || /\bvitest\b/.test(script || '')) {
+      framework = 'vitest';
+    } else if (deps.jest || /\bjest\b/.test(script || '')) {
+      framework = 'jest';
+    } else if (hasScript) {
+      framework = 'script';
+    } else {
+      const sources = await Promise.all(files.map(file => fs.readFile(path.join(workspaceDir, file), 'utf-8').catch(() => '')));
+      const usesNodeTest = sources.every(source => /['"]node:test['"]/.test(source));
+      const isJavaScript = files.every(file => /\.[cm]?jsx?$/.test(file));
+
+      if (usesNodeTest && isJavaScript) {
+        framework = 'node';
+      } else {
+        framework = 'vitest';
+        globals = !sources.some(source => /from ['"]vitest['"]/.test(source));
+        await this.scaffoldVitest(workspaceDir, pkg);
+        scaffolded = true;
+      }
+    }
+
+    if (framework !== 'node') {
+      const current = await readPackageJson(workspaceDir);
+      if (current) {
+        await DevServer.install(workspaceDir, current);
+      }
+    }
+
+    return { framework, files, scaffolded, globals };
+  }
+
+  private async scaffoldVitest(workspaceDir: string, pkg: PackageJson | null): Promise<void> {
+    const scripts = { ...pkg?.scripts };
+    if (!scripts.test || PLACEHOLDER_TEST_SCRIPT.test(scripts.test)) {
+      scripts.test = 'vitest run';
+    }
+    const updated: PackageJson = {
+      ...(pkg || { name: 'workspace', private: true }),
+      scripts,
+      devDependencies: { ...pkg?.devDependencies, vitest: VITEST_VERSION }
+    };
+
+    await applyManifest(workspaceDir, [{
+      path: 'package.json',
+      operation: pkg ? 'modify' : 'create',
+      content: JSON.stringify(updated, null, 2) + '\n'
+    }]);
+  }
+
+  private async execute(workspaceDir: string, setup: TestSetup): Promise<TestReport> {
+    const resultsPath = path.join(workspaceDir, RESULTS_FILE);
+    await fs.rm(resultsPath, { force: true });
+
+    const [command, args] = ((): [string, string[]] => {
+      switch (setup.framework) {
+        case 'vitest':
+          return ['npx', ['vitest', 'run', '--reporter=json', `--outputFile=${RESULTS_FILE}`, ...(setup.globals ? ['--globals'] : [])]];
+        case 'jest':
+          return ['npx', ['jest', '--ci', '--json', `--outputFile=${RESULTS_FILE}`]];
+        case 'node':
+          return ['node', ['--test', '--test-reporter=tap', ...setup.files]];
+        case 'script':
+          return ['npm', ['test', '--silent']];
+      }
+    })();
+
+    const run = await this.spawnSandboxed(command, args, workspaceDir);
+    let report: TestReport;
+
+    if (setup.framework === 'vitest' || setup.framework === 'jest') {
+      const json = await fs.readFile(resultsPath, 'utf-8').catch(() => null);
+      report = json ? parseJestJson(setup.framework, json) : emptyReport(setup.framework);
+      await fs.rm(resultsPath, { force: true });
+    } else if (setup.framework === 'node') {
+      report = parseTap(run.output);
+    } else {
+      // Unknown runner: all we have is the exit code
+      report = {
+        ...emptyReport('script'),
+        total: 1,
+        passed: run.code === 0 ? 1 : 0,
+        failed: run.code === 0 ? 0 : 1,
+        failures: run.code === 0 ? [] : [{ name: 'npm test', message: tail(run.output, 2000) }]
+      };
+    }
+
+    report.timedOut = run.timedOut;
+    report.output = tail(run.output, MAX_OUTPUT_CHARS);
+    report.failures = report.failures.slice(0, MAX_REPORTED_FAILURES);
+    return report;
+  }
+
+  /**
+   * Run a test command with a minimal environment (no agent secrets), in its own
+   * process group so a timeout also kills anything the tests started
+   */
+  private spawnSandboxed(command: string, args: string[], cwd: string): Promise<{ code: number | null; output: string; timedOut: boolean }> {
+    return new Promise(resolve => {
+      const child: ChildProcessWithoutNullStreams = spawnProcess(command, args, {
+        cwd,
+        detached: true,
+        env: sandboxEnv({ NODE_ENV: 'test', CI: '1', FORCE_COLOR: '0' })
+      });
+
+      let output = '';
+      let timedOut = false;
+      const append = (data: Buffer) => {
+        output = (output + data.toString()).slice(-MAX_OUTPUT_CHARS * 2);
+      };
+
+      const kill = () => {
+        try {
+          process.kill(-child.pid!, 'SIGKILL');
+        } catch {
+          child.kill('SIGKILL');
+        }
+      };
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        kill();
+      }, TEST_TIMEOUT_MS);
+
+      const signal = currentSignal();
+      signal?.addEventListener('abort', kill, { once: true });
+
+      child.stdout.on('data', append);
+      child.stderr.on('data', append);
+      child.on('close', code => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', kill);
+        resolve({ code, output, timedOut });
+      });
+      child.on('error', error => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', kill);
+        resolve({ code: -1, output: `${output}\n${error.message}`, timedOut });
+      });
+    });
+  }
+}
+
+function emptyReport(framework: string): TestReport {
+  return { framework, total: 0, passed: 0, failed: 0, failures: [] };
+}
+
+function tail(text: string, max: number): string {
+  return text.length > max ? text.slice(-max) : text;
+}
+
+/**
+ * Jest's --json format (vitest's json reporter uses the same shape)
+ */
+export function parseJestJson(framework: string, json: string): TestReport {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return emptyReport(framework);
+  }
+
+  const failures: TestFailure[] = [];
+  for (const file of data.testResults || []) {
+    const assertions = file.assertionResults || [];
+    for (const assertion of assertions) {
+      if (assertion.status === 'failed') {
+        failures.push({
+          name: assertion.fullName || assertion.title,
+          file: file.name,
+          message: firstLine((assertion.failureMessages || []).join('\n'))
+        });
+      }
+    }
+    // A file that fails to load has no assertions, only a message
+    if (file.status === 'failed' && assertions.length === 0) {
+      failures.push({ name: 'suite failed to run', file: file.name, message: firstLine(file.message || '') });
+    }
+  }
+
+  const total = data.numTotalTests ?? 0;
+  const failed = Math.max(data.numFailedTests ?? 0, failures.length);
+
+  return { framework, total: Math.max(total, failed), passed: data.numPassedTests ?? 0, failed, failures };
+}
+
+/**
+ * TAP output of node --test
+ */
+export function parseTap(output: string): TestReport {
+  const lines = output.split(/\r?\n/);
+  const failures: TestFailure[] = [];
+  let passed = 0;
+
+  lines.forEach((line, index) => {
+    // Only top-level results (subtests are indented)
+    const result = line.match(/^(not ok|ok) \d+ - (.*?)(\s+#\s*(SKIP|TODO).*)?$/);
+    if (!result) return;
+
+    if (result[1] === 'ok') {
+      passed++;
+      return;
+    }
+
+    // The YAML diagnostic block after a failure carries the error
+    let message = '';
+    for (let i = index + 1; i < lines.length && !/^(not ok|ok) \d+/.test(lines[i]); i++) {
+      const error = lines[i].match(/^\s+error:\s*(.*)$/);
+      if (error) {
+        // Multi-line errors are YAML block scalars ("|-"), continued on the next line
+        const value = error[1].replace(/^['"]|['"]$/g, '');
+        message = /^[|>][+-]?$/.test(value) || !value ? lines[i + 1]?.trim() || '' : value;
+        break;
+      }
+    }
+
+    failures.push({ name: result[2], message: message || 'failed' });
+  });
+
+  return { framework: 'node', total: passed + failures.length, passed, failed: failures.length, failures };
+}
+
+function firstLine(message: string): string {
+  // Strip ANSI colours and keep the assertion line, not the stack
+  const clean = message.replace(/\u001b\[[0-9;]*m/g, '').trim();
+  return clean.split('\n').find(line => line.trim())?.trim().slice(0, 500) || 'failed';
+}
@@ -4,21 +4,124 @@ export interface ProjectOrder {
   project_name: string;
   requirements: string;
   orderId: string;
+  priority?: number; // Higher runs first, defaults to 0
+  budgetUsd?: number; // Estimated model spend at which the run is stopped
+  customer?: CustomerContact; // Who placed the order; gets milestone emails
+  pricing?: PricingPlan; // What the generated product sells for; see pricing.ts for the fallbacks
+}
+
+export type PriceInterval = 'day' | 'week' | 'month' | 'year';
+
+/**
+ * One price on a payment link. Recurring when interval is set.
+ */
+export interface PriceItem {
+  name?: string; // Own product name (e.g. "Setup fee"); the project's product when unset
+  amount: number; // In major units: 19.99 USD, 1500 JPY
+  interval?: PriceInterval;
+  intervalCount?: number; // Every N intervals, defaults to 1
+  quantity?: number; // Defaults to 1
+}
+
+/**
+ * An option the buyer chooses between (e.g. "Basic" and "Pro"); each gets its own payment link
+ */
+export interface PricingTier {
+  name: string;
+  items: PriceItem[];
+}
+
+export interface PricingPlan {
+  currency: string; // ISO 4217, lower case
+  tiers: PricingTier[];
+  taxBehavior?: 'inclusive' | 'exclusive' | 'unspecified';
+  automaticTax?: boolean; // Stripe Tax on the payment links (needs Stripe Tax set up on the account)
+}
+
+/**
+ * The plan payments were set up with and where it came from
+ */
+export interface ResolvedPricing extends PricingPlan {
+  source: 'order' | 'requirements' | 'config';
+}
+
+export interface PaymentLinkRecord {
+  tier: string;
+  url: string;
+  priceIds: string[];
+}
+
+export interface CustomerContact {
+  email: string;
+  name?: string;
+  locale?: string; // e.g. "de" or "pt-BR"; NOTIFY_LOCALE when unset
+}
+
+/**
+ * Progress the customer is told about. Failures and costs are never sent to customers.
+ */
+export type CustomerMilestone = 'order_accepted' | 'plan_ready' | 'preview_ready' | 'deployed';
+
+export interface CustomerState extends CustomerContact {
+  mutedMilestones?: CustomerMilestone[]; // Chosen on the preferences page
+  unsubscribedAt?: string; // No customer email at all for this order
+  notified?: { milestone: CustomerMilestone; revision: number; sentAt: string }[];
 }
 
 export interface ValidationResult {
   passed: boolean;
   error?: string;
   details?: any;
+  skipped?: boolean; // Eye not applicable to this step (or gated by an earlier failure)
+}
+
+/**
+ * Which Six Eyes checks apply to a step
+ */
+export interface ValidationPolicy {
+  docVerify: boolean;
+  staticAnalysis: boolean;
+  syntaxGate: boolean;
+  testRunner: boolean;
+  visualProof: boolean;
+}
+
+/**
+ * Audit record for one generation attempt of a step
+ */
+export interface StepAttempt {
+  attempt: number;
+  timestamp: string;
+  files: string[];
+  policy?: ValidationPolicy;
+  validation?: SixEyesResult;
+  error?: string;
+  errorCategory?: ErrorCategory;
+}
+
+export interface FileChange {
+  path: string; // Relative to the workspace root
+  operation: 'create' | 'modify' | 'delete' | 'patch';
+  content?: string;
+  // For 'patch': search/replace blocks or a unified diff against the current file
+  edits?: { search: string; replace: string }[];
+  diff?: string;
 }
 
 export interface PlanStep {
   id: string;
   title: string;
   description: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped';
   code?: string;
+  files?: FileChange[]; // Manifest applied by the last successful attempt
   retries: number;
+  attempts?: StepAttempt[];
+  // Dependency graph - undefined only on plans saved before steps declared dependencies
+  dependsOn?: string[];
+  produces?: string[]; // Workspace files this step creates
+  consumes?: string[]; // Workspace files this step reads
+  skipReason?: string;
 }
 
 export interface ProjectState {
@@ -27,26 +130,188 @@ export interface ProjectState {
   requirements: string;
   plan: PlanStep[];
   currentStep: number;
-  status: 'planning' | 'coding' | 'validating' | 'building' | 'awaiting_approval' | 'deploying' | 'completed' | 'failed';
+  planDegraded?: boolean; // True when the generic fallback plan replaced a model plan
+  planIssues?: string[];
+  status: 'queued' | 'planning' | 'coding' | 'validating' | 'building' | 'awaiting_approval' | 'deploying' | 'completed' | 'failed' | 'paused' | 'cancelled';
   workspaceDir: string;
   stripeProductId?: string;
   stripePriceId?: string;
-  stripePaymentLink?: string;
+  stripePaymentLink?: string; // The first tier's link
+  stripePaymentLinks?: PaymentLinkRecord[]; // One per pricing tier
+  pricing?: PricingPlan; // From the order
+  resolvedPricing?: ResolvedPricing; // Used for the test-mode setup, and again in live mode
   screenshotPath?: string;
   failureCount: number;
+  priority?: number;
   // Multi-platform support
   platforms?: ('web' | 'android')[];
   androidScreenshotPath?: string;
   webScreenshotPath?: string;
   webPreviewUrl?: string;
+  webAccessibility?: AccessibilityReport; // Audit of the preview deployment
   androidPackageName?: string;
   rejectionReason?: string;
   rejectionHistory?: string[];
+  usage?: UsageRecord[];
+  budgetUsd?: number;
+  budgetExceeded?: BudgetExceeded; // Set when the run was stopped for spending over budgetUsd
+  failureReason?: string; // Why the run ended in 'failed', when there is a single clear cause
+  revision?: number; // Build revision, starting at 1 and bumped by every rejection
+  visualRevisions?: VisualRevision[];
+  failures?: FailureRecord[]; // Every classified failure of the run, oldest first
+  outage?: ServiceOutage; // Set while the run is paused because a service is down
+  approvalLinks?: ApprovalLinkRecord[]; // Signed links sent in approval emails
+  customer?: CustomerState;
+}
+
+/**
+ * The approve/reject link pair of one approval email (they share the nonce)
+ */
+export interface ApprovalLinkRecord {
+  nonce: string;
+  revision: number;
+  issuedAt: string;
+  expiresAt: string;
+  usedAt?: string;
+  usedFor?: 'approve' | 'reject';
+}
+
+/**
+ * An external service outage that paused a run; it resumes at retryAt
+ */
+export interface BudgetExceeded {
+  spentUsd: number;
+  budgetUsd: number;
+  exceededAt: string;
+}
+
+export interface ServiceOutage {
+  service: string;
+  message: string;
+  pausedAt: string;
+  retryAt: string;
+}
+
+export type ErrorCategory = 'model' | 'model_output' | 'validation' | 'build' | 'deploy' | 'payment' | 'notification' | 'configuration' | 'budget' | 'internal';
+
+/**
+ * A classified failure, as recorded on the project and grouped in error reports
+ */
+export interface FailureRecord {
+  category: ErrorCategory;
+  message: string;
+  retryable: boolean;
+  remediation: string;
+  stepId?: string;
+  timestamp: string;
+}
+
+/**
+ * Screenshot of one viewport of a revision, with its diff against the baseline revision
+ */
+export interface VisualSnapshot {
+  viewport: string;
+  width: number;
+  height: number;
+  screenshotPath: string;
+  diffPath?: string;
+  diffPercent?: number; // Changed pixels, 0-100
+}
+
+/**
+ * Screenshots of a revision that went to review
+ */
+export interface VisualRevision {
+  revision: number;
+  capturedAt: string;
+  baselineRevision?: number; // Revision the diffs compare against
+  snapshots: VisualSnapshot[];
+  approved?: boolean;
+}
+
+/**
+ * One model call, attributed to the order and (when known) the plan step
+ */
+export interface UsageRecord {
+  timestamp: string;
+  role: string;
+  provider: string;
+  model: string;
+  stepId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number; // Estimate from the configured model prices
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number;
+}
+
+export type AccessibilityImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+
+export interface AccessibilityViolation {
+  rule: 'image-alt' | 'label' | 'heading-order' | 'color-contrast';
+  impact: AccessibilityImpact;
+  message: string;
+  selector: string;
+  viewports: string[]; // Viewports the violation was found at
+}
+
+/**
+ * Accessibility audit of a page across viewports, with the threshold it was judged by
+ */
+export interface AccessibilityReport {
+  passed: boolean;
+  blocking: number; // Violations at or above threshold.failImpact
+  threshold: { failImpact: AccessibilityImpact; maxViolations: number };
+  counts: Record<AccessibilityImpact, number>;
+  violations: AccessibilityViolation[];
+}
+
+export type FindingSeverity = 'high' | 'medium' | 'low';
+
+/**
+ * One static analysis finding (the static analysis eye's details)
+ */
+export interface StaticFinding {
+  source: 'eslint' | 'secrets' | 'patterns';
+  rule: string;
+  severity: FindingSeverity;
+  message: string;
+  file: string; // Relative to the workspace root
+  line: number;
+  column?: number;
+}
+
+export interface TestFailure {
+  name: string;
+  file?: string;
+  message: string;
+}
+
+/**
+ * Parsed outcome of a workspace test run (the test runner eye's details)
+ */
+export interface TestReport {
+  framework: string;
+  total: number;
+  passed: number;
+  failed: number;
+  failures: TestFailure[];
+  timedOut?: boolean;
+  output?: string; // Tail of the runner's output
 }
 
 export interface SixEyesResult {
   docVerify: ValidationResult;
+  staticAnalysis: ValidationResult;
   syntaxGate: ValidationResult;
+  testRunner: ValidationResult;
   visualProof: ValidationResult;
   overallPassed: boolean;
 }
@@ -0,0 +1,108 @@
+/**
+ * USAGE ACCOUNTING
+ * Token, latency and cost bookkeeping for model calls.
+ * Prices are USD per million tokens; AGENT_MODEL_PRICES (JSON, same shape)
+ * overrides or extends the defaults, e.g. {"gpt-4o": {"input": 2.5, "output": 10}}.
+ */
+
+import { UsageRecord, UsageTotals } from './types';
+
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Matched by longest model-name prefix
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'claude-sonnet': { input: 3, output: 15 },
+  'claude-opus': { input: 15, output: 75 },
+  'claude-haiku': { input: 0.8, output: 4 },
+  'stub': { input: 0, output: 0 }
+};
+
+const PRICES: Record<string, ModelPrice> = { ...DEFAULT_PRICES, ...parsePriceOverrides() };
+
+function parsePriceOverrides(): Record<string, ModelPrice> {
+  if (!process.env.AGENT_MODEL_PRICES) return {};
+  try {
+    return JSON.parse(process.env.AGENT_MODEL_PRICES);
+  } catch (error) {
+    console.error('[Usage] Ignoring invalid AGENT_MODEL_PRICES:', error);
+    return {};
+  }
+}
+
+const unpriced = new Set<string>();
+
+/**
+ * Estimated cost in USD. Unknown models cost 0 (and are logged once).
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const key = Object.keys(PRICES)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!key) {
+    if (!unpriced.has(model)) {
+      unpriced.add(model);
+      console.warn(`[Usage] No price configured for model ${model} - counting its cost as 0`);
+    }
+    return 0;
+  }
+
+  const price = PRICES[key];
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Per-order budget: the order's own, else AGENT_ORDER_BUDGET_USD, else unlimited
+ */
+export function resolveBudget(budgetUsd?: number): number | undefined {
+  if (budgetUsd !== undefined && budgetUsd > 0) return budgetUsd;
+  const fallback = parseFloat(process.env.AGENT_ORDER_BUDGET_USD || '');
+  return fallback > 0 ? fallback : undefined;
+}
+
+export function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, costUsd: 0 };
+}
+
+export function addUsage(totals: UsageTotals, record: UsageRecord | UsageTotals): UsageTotals {
+  totals.calls += 'calls' in record ? record.calls : 1;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.latencyMs += record.latencyMs;
+  totals.costUsd += record.costUsd;
+  return totals;
+}
+
+/**
+ * Totals overall, per "provider:model" and per plan step ("pipeline" for planning, builds and other calls outside a step)
+ */
+export function summarizeUsage(records: UsageRecord[] = []): {
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byStep: Record<string, UsageTotals>;
+} {
+  const total = emptyTotals();
+  const byModel: Record<string, UsageTotals> = {};
+  const byStep: Record<string, UsageTotals> = {};
+
+  for (const record of records) {
+    addUsage(total, record);
+
+    const model = `${record.provider}:${record.model}`;
+    addUsage(byModel[model] = byModel[model] || emptyTotals(), record);
+
+    const step = record.stepId || 'pipeline';
+    addUsage(byStep[step] = byStep[step] || emptyTotals(), record);
+  }
+
+  return { total, byModel, byStep };
+}
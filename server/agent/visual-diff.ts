@@ -0,0 +1,64 @@
+/**
+ * VISUAL DIFF
+ * Pixel comparison of two PNG screenshots. Images of different sizes are
+ * compared on a shared canvas, so added or removed height counts as change.
+ */
+
+import fs from 'fs/promises';
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+
+// Per-pixel colour distance (0-1) below which pixels count as unchanged (anti-aliasing, font rendering)
+const PIXEL_THRESHOLD = parseFloat(process.env.VISUAL_DIFF_THRESHOLD || '0.1') || 0.1;
+
+export interface VisualDiffResult {
+  diffPercent: number; // Share of changed pixels, 0-100
+  diffPixels: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Compare baselinePath with currentPath and write the highlighted diff image to diffPath
+ */
+export async function diffScreenshots(baselinePath: string, currentPath: string, diffPath: string): Promise<VisualDiffResult> {
+  const [baseline, current] = await Promise.all([readPng(baselinePath), readPng(currentPath)]);
+
+  const width = Math.max(baseline.width, current.width);
+  const height = Math.max(baseline.height, current.height);
+  const diff = new PNG({ width, height });
+
+  const diffPixels = pixelmatch(
+    padTo(baseline, width, height).data,
+    padTo(current, width, height).data,
+    diff.data,
+    width,
+    height,
+    { threshold: PIXEL_THRESHOLD }
+  );
+
+  await fs.writeFile(diffPath, PNG.sync.write(diff));
+
+  return {
+    diffPercent: Math.round((diffPixels / (width * height)) * 10000) / 100,
+    diffPixels,
+    width,
+    height
+  };
+}
+
+async function readPng(filePath: string): Promise<PNG> {
+  return PNG.sync.read(await fs.readFile(filePath));
+}
+
+/**
+ * Copy an image onto a white canvas of the given size
+ */
+function padTo(image: PNG, width: number, height: number): PNG {
+  if (image.width === width && image.height === height) return image;
+
+  const canvas = new PNG({ width, height });
+  canvas.data.fill(255);
+  PNG.bitblt(image, canvas, 0, 0, image.width, image.height, 0, 0);
+  return canvas;
+}
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { applyManifest, resolveWorkspacePath, WorkspacePathError } from './workspace';
+
+test('resolves paths inside the workspace root', () => {
+  assert.equal(resolveWorkspacePath('/work/order-1', 'src/index.ts'), '/work/order-1/src/index.ts');
+  assert.equal(resolveWorkspacePath('/work/order-1', './src/../README.md'), '/work/order-1/README.md');
+});
+
+test('rejects paths that escape the root or touch agent-managed files', () => {
+  for (const filePath of ['../order-2/index.html', 'src/../../secrets', '/etc/passwd', 'C:\\Windows\\win.ini', 'a\0b', '.', '.git/config', 'node_modules/x/index.js', 'plan.md', '.agent/cassette.json']) {
+    assert.throws(() => resolveWorkspacePath('/work/order-1', filePath), WorkspacePathError, filePath);
+  }
+  assert.equal(resolveWorkspacePath('/work/order-1', '.agent/visual/desktop.png', true), '/work/order-1/.agent/visual/desktop.png');
+});
+
+test('a manifest with a path through a symlink out of the workspace writes nothing', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-test-'));
+  const root = path.join(dir, 'workspace');
+  const outside = path.join(dir, 'outside');
+  await fs.mkdir(root);
+  await fs.mkdir(outside);
+  await fs.symlink(outside, path.join(root, 'assets'));
+
+  await assert.rejects(
+    applyManifest(root, [
+      { path: 'index.html', operation: 'create', content: '<h1>Hi</h1>' },
+      { path: 'assets/escaped.js', operation: 'create', content: 'pwned' }
+    ]),
+    WorkspacePathError
+  );
+
+  assert.deepEqual(await fs.readdir(root), ['assets']);
+  assert.deepEqual(await fs.readdir(outside), []);
+});
+
+test('applies creates, modifies and deletes', async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-test-'));
+  await fs.writeFile(path.join(root, 'old.txt'), 'old', 'utf-8');
+  await fs.writeFile(path.join(root, 'app.js'), 'v1', 'utf-8');
+
+  const written = await applyManifest(root, [
+    { path: 'src/new.js', operation: 'create', content: 'new' },
+    { path: 'app.js', operation: 'modify', content: 'v2' },
+    { path: 'old.txt', operation: 'delete' }
+  ]);
+
+  assert.deepEqual(written, ['src/new.js', 'app.js', 'old.txt']);
+  assert.equal(await fs.readFile(path.join(root, 'src/new.js'), 'utf-8'), 'new');
+  assert.equal(await fs.readFile(path.join(root, 'app.js'), 'utf-8'), 'v2');
+  assert.deepEqual((await fs.readdir(root)).sort(), ['app.js', 'src']);
+});
@@ -0,0 +1,255 @@
+/**
+ * THE WORKSPACE
+ * Applies model-generated file manifests to a project workspace.
+ * Every path is resolved against the workspace root and rejected if it escapes it.
+ */
+
+import { z } from 'zod';
+import fs from 'fs/promises';
+import path from 'path';
+import { FileChange } from './types';
+import { applySearchReplace, applyUnifiedDiff, PatchConflictError } from './patch';
+
+const MAX_FILES_PER_STEP = 50;
+const MAX_FILE_BYTES = 1024 * 1024;
+
+// Agent artifacts kept in the workspace (revision screenshots) - excluded from deploys
+export const AGENT_DIR = '.agent';
+
+// Agent bookkeeping that generated code must never overwrite
+const PROTECTED_PATHS = ['.git', 'plan.md', 'node_modules', AGENT_DIR];
+
+// Never listed, even with dotfiles
+const UNLISTED_DIRS = ['.git', 'node_modules', AGENT_DIR];
+
+export const fileManifestSchema = z.object({
+  files: z
+    .array(
+      z.object({
+        path: z.string().trim().min(1, 'path is required'),
+        operation: z.enum(['create', 'modify', 'delete', 'patch']),
+        content: z.string().max(MAX_FILE_BYTES, 'file is too large').optional(),
+        edits: z.array(z.object({ search: z.string(), replace: z.string() })).optional(),
+        diff: z.string().optional()
+      }).refine(
+        file => file.operation === 'delete' || file.operation === 'patch' || file.content !== undefined,
+        { message: 'content is required for create and modify' }
+      ).refine(
+        file => file.operation !== 'patch' || (file.edits?.length || 0) > 0 || !!file.diff,
+        { message: 'patch needs edits or a diff' }
+      )
+    )
+    .min(1, 'manifest must change at least one file')
+    .max(MAX_FILES_PER_STEP, `manifest may change at most ${MAX_FILES_PER_STEP} files`)
+});
+
+/**
+ * Thrown for manifest paths that are absolute, escape the workspace or touch protected files
+ */
+export class WorkspacePathError extends Error {
+  constructor(readonly filePath: string, reason: string) {
+    super(`Rejected path "${filePath}": ${reason}`);
+    this.name = 'WorkspacePathError';
+  }
+}
+
+/**
+ * Resolve a manifest path to an absolute path inside the workspace root.
+ * allowAgentDir lets the agent's own writers (cassette replay) into AGENT_DIR.
+ */
+export function resolveWorkspacePath(root: string, filePath: string, allowAgentDir: boolean = false): string {
+  if (filePath.includes('\0')) {
+    throw new WorkspacePathError(filePath, 'contains a null byte');
+  }
+  if (path.isAbsolute(filePath) || /^[a-zA-Z]:[\\/]/.test(filePath)) {
+    throw new WorkspacePathError(filePath, 'must be relative to the project root');
+  }
+
+  const resolvedRoot = path.resolve(root);
+  const resolved = path.resolve(resolvedRoot, filePath);
+  const relative = path.relative(resolvedRoot, resolved);
+
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new WorkspacePathError(filePath, 'escapes the project root');
+  }
+
+  const topLevel = relative.split(path.sep)[0];
+  if (PROTECTED_PATHS.includes(topLevel) && !(allowAgentDir && topLevel === AGENT_DIR)) {
+    throw new WorkspacePathError(filePath, `${topLevel} is managed by the agent`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Parse a model response into a validated manifest
+ */
+export function parseManifest(responseText: string): { files?: FileChange[]; errors: string[] } {
+  let jsonText = responseText.trim();
+  const fenced = jsonText.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    jsonText = fenced[1].trim();
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(jsonText);
+  } catch (error: any) {
+    return { errors: [`Response is not valid JSON: ${error.message}`] };
+  }
+
+  const result = fileManifestSchema.safeParse(raw);
+  if (!result.success) {
+    return {
+      errors: result.error.issues.map(issue =>
+        issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      )
+    };
+  }
+
+  return { files: result.data.files, errors: [] };
+}
+
+export interface PatchConflict {
+  path: string;
+  reason: string;
+}
+
+/**
+ * Turn every 'patch' change into a full 'modify' against the current file contents.
+ * Patches that do not apply are returned as conflicts and left out of files.
+ */
+export async function resolvePatches(
+  root: string,
+  files: FileChange[]
+): Promise<{ files: FileChange[]; conflicts: PatchConflict[] }> {
+  const resolved: FileChange[] = [];
+  const conflicts: PatchConflict[] = [];
+
+  for (const file of files) {
+    if (file.operation !== 'patch') {
+      resolved.push(file);
+      continue;
+    }
+
+    const current = await readWorkspaceFile(root, file.path);
+    if (current === undefined) {
+      conflicts.push({ path: file.path, reason: 'file does not exist' });
+      continue;
+    }
+
+    try {
+      const content = file.edits?.length
+        ? applySearchReplace(file.path, current, file.edits)
+        : applyUnifiedDiff(file.path, current, file.diff!);
+
+      resolved.push({ path: file.path, operation: 'modify', content });
+    } catch (error: any) {
+      if (!(error instanceof PatchConflictError)) throw error;
+      conflicts.push({ path: file.path, reason: error.message });
+    }
+  }
+
+  return { files: resolved, conflicts };
+}
+
+/**
+ * Apply a manifest to the workspace. All paths are checked before anything is
+ * written, so a rejected manifest leaves the workspace untouched.
+ * Patches must be resolved with resolvePatches first.
+ */
+export async function applyManifest(root: string, files: FileChange[]): Promise<string[]> {
+  if (files.some(file => file.operation === 'patch')) {
+    throw new Error('Unresolved patch in manifest - call resolvePatches first');
+  }
+
+  const realRoot = await fs.realpath(root);
+  const targets = files.map(file => ({ file, target: resolveWorkspacePath(realRoot, file.path) }));
+  // A symlink inside the workspace (the target itself or a directory above it)
+  // could still point outside it
+  for (const { file, target } of targets) {
+    await assertRealPathInside(realRoot, target, file.path);
+  }
+
+  const written: string[] = [];
+
+  for (const { file, target } of targets) {
+    if (file.operation === 'delete') {
+      await fs.rm(target, { force: true });
+    } else {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, file.content || '', 'utf-8');
+    }
+
+    written.push(path.relative(realRoot, target));
+  }
+
+  return written;
+}
+
+/**
+ * Read a workspace file, or undefined if it does not exist
+ */
+export async function readWorkspaceFile(root: string, filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(resolveWorkspacePath(root, filePath), 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+async function assertRealPathInside(root: string, target: string, filePath: string): Promise<void> {
+  // Walk up to the nearest existing ancestor and check where it really lives
+  let existing = target;
+  while (true) {
+    try {
+      existing = await fs.realpath(existing);
+      break;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      const parent = path.dirname(existing);
+      if (parent === existing) break;
+      existing = parent;
+    }
+  }
+
+  const relative = path.relative(root, existing);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new WorkspacePathError(filePath, 'resolves outside the project root');
+  }
+}
+
+/**
+ * Relative paths of all files in the workspace, skipping dependencies and agent artifacts.
+ * Dotfiles and dot directories are skipped too unless includeDotfiles is set
+ * (.git and node_modules never are listed).
+ */
+export async function listWorkspaceFiles(root: string, limit: number = 500, includeDotfiles: boolean = false): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (dir: string): Promise<void> => {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (files.length >= limit) return;
+      if (UNLISTED_DIRS.includes(entry.name)) continue;
+      if (entry.name.startsWith('.') && !includeDotfiles) continue;
+
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(full);
+      } else if (entry.isFile()) {
+        files.push(path.relative(root, full).split(path.sep).join('/'));
+      }
+    }
+  };
+
+  await walk(root);
+  return files.sort();
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { pgTable, text, jsonb, timestamp } from "drizzle-orm/pg-core";
 
 // File system types for the IDE
 export interface FileNode {
@@ -139,3 +140,13 @@ export const insertUserSchema = z.object({
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
+
+// Black Star agent project persistence
+export const agentProjects = pgTable("agent_projects", {
+  orderId: text("order_id").primaryKey(),
+  status: text("status").notNull(),
+  state: jsonb("state").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type AgentProjectRow = typeof agentProjects.$inferSelect;